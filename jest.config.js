@@ -2,11 +2,17 @@
 export default {
   clearMocks: true,
   collectCoverage: true,
-  collectCoverageFrom: ["lib/**", "!lib/index.ts", "!lib/types.ts"],
+  collectCoverageFrom: [
+    "lib/**",
+    "!lib/__fixtures__/**",
+    "!lib/index.ts",
+    "!lib/node.ts",
+    "!lib/types.ts",
+  ],
   coverageDirectory: "coverage",
   coverageProvider: "v8",
   coverageReporters: ["text", "json"],
-  testEnvironment: "node",
+  testEnvironment: "./jest/node-environment.cjs",
   testMatch: ["**/*.spec.ts"],
   transform: {
     "^.+\\.(t|j)sx?$": ["@swc/jest"],
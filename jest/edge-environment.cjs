@@ -0,0 +1,49 @@
+const NodeEnvironment = require("jest-environment-node");
+
+// Web platform globals provided by the Edge runtime
+const webGlobals = [
+  "fetch",
+  "Request",
+  "Response",
+  "Headers",
+  "FormData",
+  "crypto",
+  "TextEncoder",
+  "TextDecoder",
+  "URL",
+  "URLSearchParams",
+  "AbortController",
+  "AbortSignal",
+  "queueMicrotask",
+  "structuredClone",
+];
+
+// Node.js globals that are unavailable in the Edge runtime (`process`
+// stays because Jest relies on it and the Edge runtime provides
+// `process.env`)
+const nodeGlobals = ["Buffer", "setImmediate", "clearImmediate"];
+
+/**
+ * An approximation of the Next.js Edge runtime: Fetch API and
+ * other web platform globals, without Node.js globals
+ */
+class EdgeEnvironment extends NodeEnvironment {
+  constructor(config, context) {
+    super(config, context);
+
+    for (const name of webGlobals) {
+      if (typeof globalThis[name] !== "undefined") {
+        this.global[name] = globalThis[name];
+      }
+    }
+
+    for (const name of nodeGlobals) {
+      delete this.global[name];
+    }
+
+    // Set by Next.js in the Edge runtime
+    this.global.EdgeRuntime = "edge-runtime";
+  }
+}
+
+module.exports = EdgeEnvironment;
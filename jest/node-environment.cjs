@@ -0,0 +1,26 @@
+const NodeEnvironment = require("jest-environment-node");
+
+// Web platform globals available in Node.js 18+, which Jest 27
+// does not copy into the test environment
+const webGlobals = [
+  "fetch",
+  "Request",
+  "Response",
+  "Headers",
+  "FormData",
+  "crypto",
+];
+
+class NodeWithFetchEnvironment extends NodeEnvironment {
+  constructor(config, context) {
+    super(config, context);
+
+    for (const name of webGlobals) {
+      if (typeof globalThis[name] !== "undefined") {
+        this.global[name] = globalThis[name];
+      }
+    }
+  }
+}
+
+module.exports = NodeWithFetchEnvironment;
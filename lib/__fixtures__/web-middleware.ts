@@ -0,0 +1,50 @@
+import { WebMiddleware } from "../types";
+
+// Middleware shared by route handlers deployed to both the
+// Node.js and Edge runtimes, using only web platform APIs
+
+export const requireBearerToken: WebMiddleware<any, { token: string }> = async (
+  request,
+  _context,
+  next
+) => {
+  const [scheme, token] = (request.headers.get("Authorization") || "").split(
+    " "
+  );
+
+  if (scheme !== "Bearer" || !token) {
+    return new Response("Unauthorized", { status: 401 });
+  }
+
+  request.locals.token = token;
+  return next();
+};
+
+export const cors: WebMiddleware = async (request, _context, next) => {
+  const origin = request.headers.get("Origin");
+
+  const response =
+    request.method === "OPTIONS"
+      ? new Response(null, { status: 204 })
+      : await next();
+
+  if (origin) {
+    response.headers.set("Access-Control-Allow-Origin", origin);
+    response.headers.append("Vary", "Origin");
+  }
+
+  return response;
+};
+
+export const addRequestId: WebMiddleware<any, { requestId: string }> = async (
+  request,
+  _context,
+  next
+) => {
+  const requestId = request.headers.get("X-Request-ID") || crypto.randomUUID();
+
+  request.locals.requestId = requestId;
+
+  const response = await next();
+  response.headers.set("X-Request-ID", requestId);
+};
@@ -0,0 +1,94 @@
+import { accessLog } from "./access-log";
+import { NotFoundError } from "./errors";
+import { requestId } from "./node-request-id";
+import { isNodeOnlyMiddleware } from "./runtime";
+import { runMiddleware } from "./testing";
+
+function mockLogger() {
+  return { info: jest.fn(), error: jest.fn() };
+}
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe("accessLog", () => {
+  it("logs completed requests", async () => {
+    const logger = mockLogger();
+
+    await runMiddleware(
+      [accessLog({ logger }), requestId({ generate: () => "id-1" })],
+      (_req, res) => res.status(201).json({ name: "Ada" }),
+      { method: "POST", url: "/api/users?page=2" }
+    );
+
+    expect(logger.error).not.toHaveBeenCalled();
+    expect(logger.info).toHaveBeenCalledWith(
+      {
+        method: "POST",
+        path: "/api/users",
+        status: 201,
+        duration: expect.any(Number),
+        bytes: 14,
+        requestId: "id-1",
+      },
+      "Request completed"
+    );
+  });
+
+  it("logs errors with the status they will be sent with", async () => {
+    const logger = mockLogger();
+
+    await runMiddleware(
+      accessLog({ logger }),
+      () => {
+        throw new NotFoundError("No such user");
+      },
+      {},
+      { onError: true }
+    );
+
+    expect(logger.error).toHaveBeenCalledWith(
+      expect.objectContaining({
+        status: 404,
+        bytes: 0,
+        error: { name: "NotFoundError", message: "No such user" },
+      }),
+      "Request failed"
+    );
+  });
+
+  it("logs server errors with logger.error", async () => {
+    const logger = mockLogger();
+
+    await runMiddleware(accessLog({ logger }), (_req, res) =>
+      res.status(503).end("down")
+    );
+
+    expect(logger.error).toHaveBeenCalledWith(
+      expect.objectContaining({ status: 503, bytes: 4 }),
+      "Request failed"
+    );
+  });
+
+  it("writes JSON lines to the console by default", async () => {
+    const log = jest.spyOn(console, "log").mockImplementation(() => {});
+
+    const { res } = await runMiddleware(accessLog(), (_req, res) =>
+      res.end("ok")
+    );
+
+    expect(JSON.parse(log.mock.calls[0][0])).toMatchObject({
+      method: "GET",
+      path: "/",
+      status: 200,
+      bytes: 2,
+    });
+    // The response is left as it was
+    expect(Object.keys(res)).not.toContain("write");
+  });
+
+  it("is marked as Node.js only", () => {
+    expect(isNodeOnlyMiddleware(accessLog())).toBe(true);
+  });
+});
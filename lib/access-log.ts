@@ -0,0 +1,194 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { isHttpError } from "./errors";
+import { RequestIdLocals } from "./request-id";
+import { nodeOnly } from "./runtime";
+import { Middleware } from "./types";
+
+/**
+ * One line of the access log
+ */
+export type AccessLogEntry = {
+  method: string;
+
+  /**
+   * The request path, without the query string
+   */
+  path: string;
+
+  status: number;
+
+  /**
+   * Milliseconds from calling `accessLog` until the rest
+   * of the chain finished
+   */
+  duration: number;
+
+  /**
+   * Bytes of response body written
+   */
+  bytes: number;
+
+  /**
+   * Set when `requestId` is part of the chain
+   */
+  requestId?: string;
+
+  /**
+   * Set when the rest of the chain threw
+   */
+  error?: { name: string; message: string };
+};
+
+/**
+ * Where `accessLog` writes entries; `pino` and similar
+ * loggers can be passed directly
+ */
+export type AccessLogger = {
+  info(entry: AccessLogEntry, message?: string): unknown;
+  error(entry: AccessLogEntry, message?: string): unknown;
+};
+
+export type AccessLogOptions = {
+  /**
+   * Defaults to writing one JSON object per line to the console
+   */
+  logger?: AccessLogger;
+};
+
+/**
+ * Logs entries as JSON lines, errors to `stderr`
+ */
+const consoleLogger: AccessLogger = {
+  info: (entry) => console.log(JSON.stringify(entry)),
+  error: (entry) => console.error(JSON.stringify(entry)),
+};
+
+/**
+ * Create middleware that logs every request once the rest of the
+ * chain has finished. Server errors (and anything thrown) are logged
+ * with `logger.error`, everything else with `logger.info`.
+ */
+export function accessLog(
+  options: AccessLogOptions = {}
+): Middleware<NextApiRequest, NextApiResponse> {
+  const { logger = consoleLogger } = options;
+
+  return nodeOnly(async function accessLog(req, res, next) {
+    const startedAt = performance.now();
+    const bytes = countBytes(res);
+    let error: unknown;
+
+    try {
+      await next();
+    } catch (err) {
+      error = err;
+      throw err;
+    } finally {
+      const { requestId } = req.locals as Partial<RequestIdLocals>;
+      const entry: AccessLogEntry = {
+        method: req.method || "GET",
+        path: (req.url || "/").split("?")[0],
+        status: statusOf(res, error),
+        duration: Math.round(performance.now() - startedAt),
+        bytes: bytes.stop(),
+      };
+
+      if (requestId !== undefined) {
+        entry.requestId = requestId;
+      }
+
+      if (error !== undefined) {
+        entry.error =
+          error instanceof Error
+            ? { name: error.name, message: error.message }
+            : { name: "Error", message: String(error) };
+      }
+
+      if (error !== undefined || entry.status >= 500) {
+        logger.error(entry, "Request failed");
+      } else {
+        logger.info(entry, "Request completed");
+      }
+    }
+  });
+}
+
+/**
+ * The status sent, or about to be sent for an error
+ */
+function statusOf(res: NextApiResponse, error: unknown): number {
+  if (error === undefined || res.headersSent) {
+    return res.statusCode;
+  }
+
+  return isHttpError(error) ? error.status : 500;
+}
+
+/**
+ * Count the bytes written to the response body until `stop` is called
+ */
+function countBytes(res: NextApiResponse) {
+  const target = res as unknown as Record<string, unknown>;
+  const previous = ["write", "end"].map(
+    (name) => [name, Object.getOwnPropertyDescriptor(target, name)] as const
+  );
+  const { write, end } = res;
+  let bytes = 0;
+  let writing = false;
+
+  // Count each chunk once, even when `end` calls `write`
+  const counted =
+    (method: (...args: unknown[]) => unknown) =>
+    (chunk: unknown, ...args: unknown[]) => {
+      if (writing) {
+        return method.call(res, chunk, ...args);
+      }
+
+      bytes += byteLength(chunk, args[0]);
+
+      writing = true;
+      try {
+        return method.call(res, chunk, ...args);
+      } finally {
+        writing = false;
+      }
+    };
+
+  Object.defineProperties(target, {
+    write: {
+      configurable: true,
+      writable: true,
+      value: counted(write as (...args: unknown[]) => unknown),
+    },
+    end: {
+      configurable: true,
+      writable: true,
+      value: counted(end as (...args: unknown[]) => unknown),
+    },
+  });
+
+  return {
+    stop() {
+      for (const [name, descriptor] of previous) {
+        if (descriptor) {
+          Object.defineProperty(target, name, descriptor);
+        } else {
+          delete target[name];
+        }
+      }
+
+      return bytes;
+    },
+  };
+}
+
+function byteLength(chunk: unknown, encoding: unknown): number {
+  if (typeof chunk === "string") {
+    return Buffer.byteLength(
+      chunk,
+      typeof encoding === "string" ? (encoding as BufferEncoding) : undefined
+    );
+  }
+
+  return chunk instanceof Uint8Array ? chunk.byteLength : 0;
+}
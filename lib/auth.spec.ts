@@ -0,0 +1,350 @@
+import { createHmac, generateKeyPairSync, KeyObject, sign } from "crypto";
+import {
+  apiKey,
+  authenticate,
+  authorize,
+  basicAuth,
+  bearer,
+  jwt,
+  JwtClaims,
+} from "./auth";
+import { label } from "./label";
+import { isNodeOnlyMiddleware } from "./runtime";
+import {
+  createMockRequest,
+  createMockResponse,
+  runMiddleware,
+} from "./testing";
+
+const ok = (req: any, res: any) => res.json(req.locals.principal ?? null);
+const withProblems = { onError: true };
+
+const { publicKey, privateKey } = generateKeyPairSync("ec", {
+  namedCurve: "P-256",
+});
+const keys = { keys: [{ ...publicKey.export({ format: "jwk" }), kid: "k1" }] };
+
+const base64url = (input: string | Buffer) =>
+  Buffer.from(input).toString("base64url");
+
+function signJwt(
+  claims: JwtClaims,
+  { key = privateKey, kid = "k1" }: { key?: KeyObject; kid?: string } = {}
+) {
+  const data = `${base64url(
+    JSON.stringify({ alg: "ES256", typ: "JWT", kid })
+  )}.${base64url(JSON.stringify(claims))}`;
+  const signature = sign("sha256", Buffer.from(data), {
+    key,
+    dsaEncoding: "ieee-p1363",
+  });
+  return `${data}.${base64url(signature)}`;
+}
+
+const withToken = (token: string) => ({
+  headers: { Authorization: `Bearer ${token}` },
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe("authenticate", () => {
+  it("adds the principal to req.locals", async () => {
+    const { res } = await runMiddleware(
+      authenticate(async (req) =>
+        req.headers["x-user"] ? { id: req.headers["x-user"] } : undefined
+      ),
+      ok,
+      { headers: { "X-User": "ada" } }
+    );
+
+    expect(res.jsonBody()).toEqual({ id: "ada" });
+  });
+
+  it("fails with 401 and challenges without credentials", async () => {
+    const { res, handlerCalled } = await runMiddleware(
+      authenticate([
+        bearer({ verify: () => ({ id: 1 }) }),
+        basicAuth({ realm: "API", verify: () => ({ id: 1 }) }),
+      ]),
+      ok,
+      {},
+      withProblems
+    );
+
+    expect(handlerCalled).toBe(false);
+    expect(res.statusCode).toBe(401);
+    expect(res.getHeader("WWW-Authenticate")).toBe(
+      'Bearer, Basic realm="API", charset="UTF-8"'
+    );
+    expect(res.jsonBody()).toMatchObject({ code: "unauthenticated" });
+  });
+
+  it("uses the first strategy that finds credentials", async () => {
+    const first = jest.fn(() => undefined);
+    const { res } = await runMiddleware(
+      authenticate([first, apiKey({ verify: (key) => ({ key }) })]),
+      ok,
+      { headers: { "X-API-Key": "secret" } }
+    );
+
+    expect(first).toHaveBeenCalled();
+    expect(res.jsonBody()).toEqual({ key: "secret" });
+  });
+
+  it("continues without a principal when optional", async () => {
+    const { res, handlerCalled } = await runMiddleware(
+      authenticate(() => undefined, { optional: true }),
+      ok
+    );
+
+    expect(handlerCalled).toBe(true);
+    expect(res.jsonBody()).toBeNull();
+  });
+
+  it("is marked as Node.js only", () => {
+    expect(isNodeOnlyMiddleware(authenticate(() => undefined))).toBe(true);
+    expect(isNodeOnlyMiddleware(authorize(["admin"]))).toBe(true);
+  });
+});
+
+describe("authorize", () => {
+  const as = (principal: object) =>
+    async function signIn(req: any, _res: any, next: any) {
+      req.locals.principal = principal;
+      await next();
+    };
+
+  it("requires any of the roles", async () => {
+    const allowed = await runMiddleware(
+      [as({ roles: ["editor"] }), authorize(["admin", "editor"])],
+      ok
+    );
+    const denied = await runMiddleware(
+      [as({ roles: ["viewer"] }), authorize(["admin", "editor"])],
+      ok,
+      {},
+      withProblems
+    );
+
+    expect(allowed.handlerCalled).toBe(true);
+    expect(denied.res.statusCode).toBe(403);
+    expect(denied.res.jsonBody()).toMatchObject({ code: "forbidden" });
+  });
+
+  it("requires every permission", async () => {
+    const principal = { permissions: ["posts:read", "posts:write"] };
+
+    const allowed = await runMiddleware(
+      [as(principal), authorize({ permissions: ["posts:write"] })],
+      ok
+    );
+    const denied = await runMiddleware(
+      [as(principal), authorize({ permissions: ["posts:write", "admin"] })],
+      ok,
+      {},
+      withProblems
+    );
+
+    expect(allowed.handlerCalled).toBe(true);
+    expect(denied.res.statusCode).toBe(403);
+  });
+
+  it("accepts predicates", async () => {
+    const isOwner = jest.fn(
+      async (principal: { id: string }, req) => req.query.owner === principal.id
+    );
+
+    const { handlerCalled } = await runMiddleware(
+      [as({ id: "ada" }), authorize(isOwner)],
+      ok,
+      { url: "/?owner=ada" }
+    );
+
+    expect(handlerCalled).toBe(true);
+  });
+
+  it("fails with 401 without a principal", async () => {
+    const { res } = await runMiddleware(
+      authorize(["admin"]),
+      ok,
+      {},
+      withProblems
+    );
+
+    expect(res.statusCode).toBe(401);
+  });
+
+  it("composes with authenticate through label", async () => {
+    const withMiddleware = label(
+      {
+        auth: authenticate(
+          apiKey({
+            verify: (key) =>
+              key === "admin-key" ? { roles: ["admin"] } : { roles: [] },
+          })
+        ),
+        admin: authorize(["admin"]),
+      },
+      [],
+      withProblems
+    );
+    const route = withMiddleware("auth", "admin")(ok);
+
+    const admin = createMockResponse();
+    const other = createMockResponse();
+    await route(
+      createMockRequest({ headers: { "X-API-Key": "admin-key" } }),
+      admin
+    );
+    await route(
+      createMockRequest({ headers: { "X-API-Key": "other-key" } }),
+      other
+    );
+
+    expect(admin.statusCode).toBe(200);
+    expect(other.statusCode).toBe(403);
+  });
+});
+
+describe("jwt", () => {
+  const now = 1_700_000_000;
+
+  beforeEach(() => {
+    jest.spyOn(Date, "now").mockImplementation(() => now * 1000);
+  });
+
+  it("verifies tokens signed with the key set", async () => {
+    const token = signJwt({ sub: "ada", iss: "issuer", aud: ["api"] });
+    const { res } = await runMiddleware(
+      authenticate(
+        jwt({
+          keys,
+          issuer: "issuer",
+          audience: "api",
+          principal: (claims) => ({ id: claims.sub }),
+        })
+      ),
+      ok,
+      withToken(token)
+    );
+
+    expect(res.jsonBody()).toEqual({ id: "ada" });
+  });
+
+  it("verifies HMAC tokens", async () => {
+    const secret = Buffer.from("top secret");
+    const data = `${base64url('{"alg":"HS256"}')}.${base64url('{"sub":"a"}')}`;
+    const token = `${data}.${base64url(
+      createHmac("sha256", secret).update(data).digest()
+    )}`;
+
+    const { res } = await runMiddleware(
+      authenticate(
+        jwt({ keys: { keys: [{ kty: "oct", k: base64url(secret) }] } })
+      ),
+      ok,
+      withToken(token)
+    );
+
+    expect(res.jsonBody()).toEqual({ sub: "a" });
+  });
+
+  it.each([
+    ["that expired", signJwt({ iss: "issuer", exp: now - 1 })],
+    ["that is not yet valid", signJwt({ iss: "issuer", nbf: now + 60 })],
+    ["from another issuer", signJwt({ iss: "other" })],
+    [
+      "signed with another key",
+      signJwt({ iss: "issuer" }, { key: otherKey() }),
+    ],
+    ["with an unknown key ID", signJwt({ iss: "issuer" }, { kid: "k2" })],
+    ["that is malformed", "not.a-token"],
+  ])("rejects a token %s", async (_, token) => {
+    const { res, handlerCalled } = await runMiddleware(
+      authenticate(jwt({ keys, issuer: ["issuer"] })),
+      ok,
+      withToken(token),
+      withProblems
+    );
+
+    expect(handlerCalled).toBe(false);
+    expect(res.statusCode).toBe(401);
+    expect(res.getHeader("WWW-Authenticate")).toBe(
+      'Bearer error="invalid_token"'
+    );
+  });
+
+  it("refuses unsigned tokens and other algorithms", async () => {
+    const unsigned = `${base64url('{"alg":"none"}')}.${base64url("{}")}.`;
+    const { res } = await runMiddleware(
+      authenticate(jwt({ keys, algorithms: ["RS256"] })),
+      ok,
+      withToken(unsigned),
+      withProblems
+    );
+    const { res: restricted } = await runMiddleware(
+      authenticate(jwt({ keys, algorithms: ["RS256"] })),
+      ok,
+      withToken(signJwt({})),
+      withProblems
+    );
+
+    expect(res.statusCode).toBe(401);
+    expect(restricted.statusCode).toBe(401);
+  });
+
+  it("allows for clock differences", async () => {
+    const { handlerCalled } = await runMiddleware(
+      authenticate(jwt({ keys, clockTolerance: 30 })),
+      ok,
+      withToken(signJwt({ exp: now - 10 }))
+    );
+
+    expect(handlerCalled).toBe(true);
+  });
+});
+
+describe("basicAuth", () => {
+  const credentials = (value: string) => ({
+    headers: {
+      Authorization: `Basic ${Buffer.from(value).toString("base64")}`,
+    },
+  });
+  const middleware = authenticate(
+    basicAuth({
+      verify: (username, password) =>
+        username === "ada" && password === "p:ss" ? { username } : undefined,
+    })
+  );
+
+  it("verifies usernames and passwords", async () => {
+    const { res } = await runMiddleware(
+      middleware,
+      ok,
+      credentials("ada:p:ss")
+    );
+
+    expect(res.jsonBody()).toEqual({ username: "ada" });
+  });
+
+  it("rejects invalid credentials", async () => {
+    const { res } = await runMiddleware(
+      middleware,
+      ok,
+      credentials("ada:wrong"),
+      withProblems
+    );
+
+    expect(res.statusCode).toBe(401);
+    expect(res.getHeader("WWW-Authenticate")).toBe(
+      'Basic realm="Restricted", charset="UTF-8"'
+    );
+    expect(res.jsonBody()).toMatchObject({ code: "invalid_credentials" });
+  });
+});
+
+function otherKey() {
+  return generateKeyPairSync("ec", { namedCurve: "P-256" }).privateKey;
+}
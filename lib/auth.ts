@@ -0,0 +1,561 @@
+import {
+  constants,
+  createHmac,
+  createPublicKey,
+  JsonWebKey,
+  KeyObject,
+  timingSafeEqual,
+  verify,
+} from "crypto";
+import type { NextApiRequest, NextApiResponse } from "next";
+import { ForbiddenError, UnauthorizedError } from "./errors";
+import { nodeOnly } from "./runtime";
+import { Middleware } from "./types";
+
+/**
+ * A way of authenticating requests. `authenticate` resolves with the
+ * principal (the user or client making the request), or `undefined`
+ * when the request has no credentials for this strategy, and throws
+ * an `UnauthorizedError` when the credentials are invalid.
+ */
+export type AuthStrategy<Principal> = {
+  /**
+   * Sent in the `WWW-Authenticate` header when
+   * authentication fails, e.g. `Bearer`
+   */
+  challenge?: string;
+
+  authenticate(
+    req: NextApiRequest
+  ): Principal | undefined | Promise<Principal | undefined>;
+};
+
+/**
+ * What `authenticate` adds to `req.locals`
+ */
+export type AuthLocals<Principal> = {
+  principal: Principal;
+};
+
+export type AuthenticateOptions = {
+  /**
+   * Continue without a principal when the request has no credentials,
+   * instead of failing with `401 Unauthorized` (invalid credentials
+   * still fail)
+   */
+  optional?: boolean;
+};
+
+/**
+ * Roles and permissions read by `authorize` from the principal
+ */
+export type PrincipalGrants = {
+  roles?: string[];
+  permissions?: string[];
+};
+
+/**
+ * What `authorize` requires: any one of a list of roles, every listed
+ * permission (and any of the roles), or a function deciding for itself
+ */
+export type AuthRequirement<Principal = any> =
+  | string[]
+  | { roles?: string[]; permissions?: string[] }
+  | ((principal: Principal, req: NextApiRequest) => boolean | Promise<boolean>);
+
+/**
+ * Verifies a credential, resolving with its principal
+ * or `undefined` when it is invalid
+ */
+type CredentialCheck<Credential extends unknown[], Principal> = (
+  ...args: [...Credential, NextApiRequest]
+) => Principal | undefined | Promise<Principal | undefined>;
+
+/**
+ * Create middleware that authenticates requests with the first
+ * strategy that finds credentials, adding the principal to
+ * `req.locals.principal`.
+ *
+ * Requests without valid credentials throw an `UnauthorizedError`,
+ * which becomes a `401 Unauthorized` problem response when the
+ * `onError` option is enabled.
+ */
+export function authenticate<Principal>(
+  strategy:
+    | AuthStrategy<Principal>
+    | AuthStrategy<Principal>["authenticate"]
+    | Array<AuthStrategy<Principal> | AuthStrategy<Principal>["authenticate"]>,
+  options: AuthenticateOptions = {}
+): Middleware<NextApiRequest, NextApiResponse, AuthLocals<Principal>> {
+  const strategies = (Array.isArray(strategy) ? strategy : [strategy]).map(
+    (strategy) =>
+      typeof strategy === "function" ? { authenticate: strategy } : strategy
+  );
+  const challenges = strategies.flatMap((strategy) =>
+    strategy.challenge ? [strategy.challenge] : []
+  );
+
+  return nodeOnly(async function authenticate(req, _res, next) {
+    let principal: Principal | undefined;
+
+    try {
+      for (const strategy of strategies) {
+        principal = await strategy.authenticate(req);
+
+        if (principal !== undefined) {
+          break;
+        }
+      }
+    } catch (err) {
+      throw withChallenges(err, challenges);
+    }
+
+    if (principal === undefined && !options.optional) {
+      throw withChallenges(
+        new UnauthorizedError("Authentication required", {
+          code: "unauthenticated",
+        }),
+        challenges
+      );
+    }
+
+    if (principal !== undefined) {
+      req.locals.principal = principal;
+    }
+
+    await next();
+  });
+}
+
+/**
+ * Create middleware that only lets authorized principals continue.
+ * Use it after `authenticate`.
+ *
+ * Requests without a principal throw an `UnauthorizedError`, and
+ * principals that do not meet the requirement a `ForbiddenError`,
+ * which become `401 Unauthorized` and `403 Forbidden` problem
+ * responses when the `onError` option is enabled.
+ */
+export function authorize<Principal = PrincipalGrants>(
+  requirement: AuthRequirement<Principal>
+): Middleware<NextApiRequest, NextApiResponse> {
+  const isAuthorized = toAuthorization(requirement);
+
+  return nodeOnly(async function authorize(req, _res, next) {
+    const { principal } = req.locals as Partial<AuthLocals<Principal>>;
+
+    if (principal === undefined) {
+      throw new UnauthorizedError("Authentication required", {
+        code: "unauthenticated",
+      });
+    }
+
+    if (!(await isAuthorized(principal, req))) {
+      throw new ForbiddenError(undefined, { code: "forbidden" });
+    }
+
+    await next();
+  });
+}
+
+/**
+ * Authenticate requests with a token in the
+ * `Authorization: Bearer <token>` header
+ */
+export function bearer<Principal>(options: {
+  verify: CredentialCheck<[token: string], Principal>;
+}): AuthStrategy<Principal> {
+  return {
+    challenge: "Bearer",
+    async authenticate(req) {
+      const token = credentials(req, "Bearer");
+
+      if (token === undefined) {
+        return undefined;
+      }
+
+      return orInvalid(await options.verify(token, req), "Invalid token", {
+        "WWW-Authenticate": 'Bearer error="invalid_token"',
+      });
+    },
+  };
+}
+
+/**
+ * A JSON Web Key Set, as published at `/.well-known/jwks.json`
+ */
+export type JsonWebKeySet = {
+  keys: JsonWebKey[];
+};
+
+/**
+ * Registered claims of a JSON Web Token, plus any others
+ */
+export type JwtClaims = {
+  iss?: string;
+  sub?: string;
+  aud?: string | string[];
+  exp?: number;
+  nbf?: number;
+  iat?: number;
+  [claim: string]: unknown;
+};
+
+export type JwtOptions<Principal> = {
+  /**
+   * The keys that tokens may be signed with, chosen by their `kid`
+   */
+  keys: JsonWebKeySet;
+
+  /**
+   * Accepted signature algorithms (defaults to every
+   * algorithm that matches the type of the key)
+   */
+  algorithms?: string[];
+
+  /**
+   * Accepted `iss` claims
+   */
+  issuer?: string | string[];
+
+  /**
+   * Accepted `aud` claims
+   */
+  audience?: string | string[];
+
+  /**
+   * Seconds of clock difference allowed when checking
+   * `exp` and `nbf` (defaults to `0`)
+   */
+  clockTolerance?: number;
+
+  /**
+   * Map the verified claims to a principal (defaults to the claims)
+   */
+  principal?: (
+    claims: JwtClaims,
+    req: NextApiRequest
+  ) => Principal | Promise<Principal>;
+};
+
+/**
+ * Authenticate requests with a JSON Web Token in the
+ * `Authorization: Bearer <token>` header, verified with a local key set
+ */
+export function jwt<Principal = JwtClaims>(
+  options: JwtOptions<Principal>
+): AuthStrategy<Principal> {
+  const keys = options.keys.keys.map((jwk) => ({ jwk, key: importKey(jwk) }));
+
+  return bearer({
+    async verify(token, req) {
+      const claims = verifyJwt(token, keys, options);
+
+      if (!claims) {
+        return undefined;
+      }
+
+      return options.principal
+        ? options.principal(claims, req)
+        : (claims as unknown as Principal);
+    },
+  });
+}
+
+/**
+ * Authenticate requests with an API key in a header
+ */
+export function apiKey<Principal>(options: {
+  /**
+   * Defaults to `X-API-Key`
+   */
+  header?: string;
+
+  verify: CredentialCheck<[key: string], Principal>;
+}): AuthStrategy<Principal> {
+  const header = (options.header || "X-API-Key").toLowerCase();
+
+  return {
+    async authenticate(req) {
+      const key = req.headers[header];
+
+      if (typeof key !== "string" || key === "") {
+        return undefined;
+      }
+
+      return orInvalid(await options.verify(key, req), "Invalid API key");
+    },
+  };
+}
+
+/**
+ * Authenticate requests with a username and password in the
+ * `Authorization: Basic <credentials>` header
+ */
+export function basicAuth<Principal>(options: {
+  /**
+   * Shown by browsers when asking for credentials
+   * (defaults to `"Restricted"`)
+   */
+  realm?: string;
+
+  verify: CredentialCheck<[username: string, password: string], Principal>;
+}): AuthStrategy<Principal> {
+  const challenge = `Basic realm="${
+    options.realm || "Restricted"
+  }", charset="UTF-8"`;
+
+  return {
+    challenge,
+    async authenticate(req) {
+      const encoded = credentials(req, "Basic");
+
+      if (encoded === undefined) {
+        return undefined;
+      }
+
+      const decoded = Buffer.from(encoded, "base64").toString("utf8");
+      const separator = decoded.indexOf(":");
+
+      if (separator === -1) {
+        throw new UnauthorizedError("Invalid credentials", {
+          code: "invalid_credentials",
+        });
+      }
+
+      return orInvalid(
+        await options.verify(
+          decoded.slice(0, separator),
+          decoded.slice(separator + 1),
+          req
+        ),
+        "Invalid credentials"
+      );
+    },
+  };
+}
+
+/**
+ * The credentials of an `Authorization` header using `scheme`
+ */
+function credentials(req: NextApiRequest, scheme: string) {
+  const [actualScheme, value] = (req.headers.authorization || "").split(" ");
+
+  return actualScheme.toLowerCase() === scheme.toLowerCase() && value
+    ? value.trim()
+    : undefined;
+}
+
+function orInvalid<Principal>(
+  principal: Principal | undefined,
+  message: string,
+  headers?: Record<string, string>
+): Principal {
+  if (principal === undefined) {
+    throw new UnauthorizedError(message, {
+      code: "invalid_credentials",
+      headers,
+    });
+  }
+
+  return principal;
+}
+
+/**
+ * Add the challenges of every strategy to authentication errors
+ * that do not have one of their own
+ */
+function withChallenges(err: unknown, challenges: string[]) {
+  if (
+    err instanceof UnauthorizedError &&
+    challenges.length > 0 &&
+    !err.headers["WWW-Authenticate"]
+  ) {
+    err.headers["WWW-Authenticate"] = challenges.join(", ");
+  }
+
+  return err;
+}
+
+function toAuthorization<Principal>(
+  requirement: AuthRequirement<Principal>
+): (principal: Principal, req: NextApiRequest) => boolean | Promise<boolean> {
+  if (typeof requirement === "function") {
+    return requirement;
+  }
+
+  const { roles = [], permissions = [] } = Array.isArray(requirement)
+    ? { roles: requirement }
+    : requirement;
+
+  return (principal) => {
+    const grants = principal as unknown as PrincipalGrants;
+
+    return (
+      (roles.length === 0 ||
+        roles.some((role) => grants.roles?.includes(role))) &&
+      permissions.every((permission) =>
+        grants.permissions?.includes(permission)
+      )
+    );
+  };
+}
+
+type ImportedKey = { jwk: JsonWebKey; key: KeyObject | Buffer };
+
+/**
+ * How each JWS algorithm verifies signatures
+ */
+const algorithms: Record<
+  string,
+  {
+    kty: string;
+    verify(data: Buffer, key: ImportedKey, signature: Buffer): boolean;
+  }
+> = {
+  ...hmacAlgorithm("HS256", "sha256"),
+  ...hmacAlgorithm("HS384", "sha384"),
+  ...hmacAlgorithm("HS512", "sha512"),
+  ...signatureAlgorithm("RS256", "RSA", "sha256"),
+  ...signatureAlgorithm("RS384", "RSA", "sha384"),
+  ...signatureAlgorithm("RS512", "RSA", "sha512"),
+  ...signatureAlgorithm("PS256", "RSA", "sha256", {
+    padding: constants.RSA_PKCS1_PSS_PADDING,
+    saltLength: constants.RSA_PSS_SALTLEN_DIGEST,
+  }),
+  ...signatureAlgorithm("PS384", "RSA", "sha384", {
+    padding: constants.RSA_PKCS1_PSS_PADDING,
+    saltLength: constants.RSA_PSS_SALTLEN_DIGEST,
+  }),
+  ...signatureAlgorithm("PS512", "RSA", "sha512", {
+    padding: constants.RSA_PKCS1_PSS_PADDING,
+    saltLength: constants.RSA_PSS_SALTLEN_DIGEST,
+  }),
+  ...signatureAlgorithm("ES256", "EC", "sha256", { dsaEncoding: "ieee-p1363" }),
+  ...signatureAlgorithm("ES384", "EC", "sha384", { dsaEncoding: "ieee-p1363" }),
+  ...signatureAlgorithm("ES512", "EC", "sha512", { dsaEncoding: "ieee-p1363" }),
+  ...signatureAlgorithm("EdDSA", "OKP", null),
+};
+
+function hmacAlgorithm(name: string, hash: string) {
+  return {
+    [name]: {
+      kty: "oct",
+      verify(data: Buffer, { key }: ImportedKey, signature: Buffer) {
+        const expected = createHmac(hash, key as Buffer)
+          .update(data)
+          .digest();
+        return (
+          expected.length === signature.length &&
+          timingSafeEqual(expected, signature)
+        );
+      },
+    },
+  };
+}
+
+function signatureAlgorithm(
+  name: string,
+  kty: string,
+  hash: string | null,
+  options: object = {}
+) {
+  return {
+    [name]: {
+      kty,
+      verify: (data: Buffer, { key }: ImportedKey, signature: Buffer) =>
+        verify(hash, data, { key: key as KeyObject, ...options }, signature),
+    },
+  };
+}
+
+function importKey(jwk: JsonWebKey): KeyObject | Buffer {
+  if (jwk.kty === "oct") {
+    return Buffer.from(String(jwk.k), "base64url");
+  }
+
+  return createPublicKey({ key: jwk, format: "jwk" });
+}
+
+/**
+ * Verify the signature and claims of a token,
+ * returning its claims if they are valid
+ */
+function verifyJwt(
+  token: string,
+  keys: ImportedKey[],
+  options: JwtOptions<unknown>
+): JwtClaims | undefined {
+  const parts = token.split(".");
+
+  if (parts.length !== 3) {
+    return undefined;
+  }
+
+  const [header, claims] = parts
+    .slice(0, 2)
+    .map((part) => parseJson(Buffer.from(part, "base64url").toString("utf8")));
+
+  if (!isObject(header) || !isObject(claims)) {
+    return undefined;
+  }
+
+  const algorithm = algorithms[String(header.alg)];
+
+  if (
+    !algorithm ||
+    (options.algorithms && !options.algorithms.includes(String(header.alg)))
+  ) {
+    return undefined;
+  }
+
+  const candidates = keys.filter(
+    ({ jwk }) =>
+      jwk.kty === algorithm.kty &&
+      (jwk.alg === undefined || jwk.alg === header.alg) &&
+      (header.kid === undefined || jwk.kid === header.kid)
+  );
+  const data = Buffer.from(`${parts[0]}.${parts[1]}`);
+  const signature = Buffer.from(parts[2], "base64url");
+
+  if (!candidates.some((key) => algorithm.verify(data, key, signature))) {
+    return undefined;
+  }
+
+  const now = Date.now() / 1000;
+  const tolerance = options.clockTolerance || 0;
+  const valid =
+    (claims.exp === undefined || now < Number(claims.exp) + tolerance) &&
+    (claims.nbf === undefined || now >= Number(claims.nbf) - tolerance) &&
+    matchesClaim(claims.iss, options.issuer) &&
+    matchesClaim(claims.aud, options.audience);
+
+  return valid ? (claims as JwtClaims) : undefined;
+}
+
+/**
+ * Whether a claim (or any of its values) is
+ * one of the expected values, if there are any
+ */
+function matchesClaim(claim: unknown, expected?: string | string[]) {
+  if (expected === undefined) {
+    return true;
+  }
+
+  const accepted = Array.isArray(expected) ? expected : [expected];
+  const values = Array.isArray(claim) ? claim : [claim];
+
+  return values.some((value) => accepted.includes(value));
+}
+
+function parseJson(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return undefined;
+  }
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
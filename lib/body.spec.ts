@@ -0,0 +1,346 @@
+import fsCallbacks, { promises as fs } from "fs";
+import type { NextApiRequest } from "next";
+import { tmpdir } from "os";
+import { join } from "path";
+import { Readable } from "stream";
+import {
+  jsonBody,
+  multipartBody,
+  MultipartBodyLocals,
+  parseBody,
+  parseSize,
+  rawBody,
+  UploadedFile,
+  urlencodedBody,
+} from "./body";
+import { isNodeOnlyMiddleware } from "./runtime";
+import {
+  createMockRequest,
+  createMockResponse,
+  runMiddleware,
+} from "./testing";
+import { use } from "./use";
+
+const echo = (req: any, res: any) =>
+  res.json({ body: req.body, rawBody: req.locals.rawBody?.toString() });
+
+const post = (contentType: string, body: string | Buffer) => ({
+  method: "POST",
+  headers: { "Content-Type": contentType },
+  body,
+});
+
+const boundary = "----form1234";
+
+function multipart(
+  parts: { name: string; filename?: string; type?: string; value: string }[]
+) {
+  return post(
+    `multipart/form-data; boundary=${boundary}`,
+    [
+      "preamble",
+      ...parts.map((part) =>
+        [
+          `--${boundary}`,
+          `Content-Disposition: form-data; name="${part.name}"` +
+            (part.filename ? `; filename="${part.filename}"` : ""),
+          ...(part.type ? [`Content-Type: ${part.type}`] : []),
+          "",
+          part.value,
+        ].join("\r\n")
+      ),
+      `--${boundary}--`,
+      "",
+    ].join("\r\n")
+  );
+}
+
+describe("rawBody", () => {
+  it("keeps the body as received", async () => {
+    const { res } = await runMiddleware(
+      rawBody(),
+      echo,
+      post("application/json", '{"a": 1}')
+    );
+
+    expect(res.jsonBody()).toEqual({
+      body: { type: "Buffer", data: [...Buffer.from('{"a": 1}')] },
+      rawBody: '{"a": 1}',
+    });
+  });
+
+  it("responds with 413 to bodies over the limit", async () => {
+    const { res, handlerCalled } = await runMiddleware(
+      rawBody({ limit: 4 }),
+      echo,
+      post("text/plain", "hello")
+    );
+
+    expect(handlerCalled).toBe(false);
+    expect(res.statusCode).toBe(413);
+    expect(res.jsonBody()).toMatchObject({ code: "body_too_large" });
+  });
+
+  it("checks Content-Length before reading", async () => {
+    const { res } = await runMiddleware(rawBody({ limit: "1kb" }), echo, {
+      method: "POST",
+      headers: { "Content-Length": "2048" },
+    });
+
+    expect(res.statusCode).toBe(413);
+  });
+
+  it("refuses bodies that Next.js already read", async () => {
+    const middleware = rawBody();
+    const req = Object.assign(createMockRequest(), {
+      locals: {},
+      signal: new AbortController().signal,
+    });
+    req.resume();
+    await new Promise((resolve) => req.on("end", resolve));
+
+    await expect(
+      middleware(req, createMockResponse(), async () => {})
+    ).rejects.toThrow("The request body was already read");
+  });
+});
+
+describe("jsonBody", () => {
+  it("parses JSON bodies", async () => {
+    const { res } = await runMiddleware(
+      jsonBody(),
+      echo,
+      post("application/vnd.api+json; charset=utf-8", '{"a":[1,2]}')
+    );
+
+    expect(res.jsonBody()).toEqual({
+      body: { a: [1, 2] },
+      rawBody: '{"a":[1,2]}',
+    });
+  });
+
+  it("responds with 400 to invalid JSON", async () => {
+    const { res, handlerCalled } = await runMiddleware(
+      jsonBody(),
+      echo,
+      post("application/json", "{oops")
+    );
+
+    expect(handlerCalled).toBe(false);
+    expect(res.statusCode).toBe(400);
+    expect(res.jsonBody()).toMatchObject({ code: "invalid_body" });
+  });
+
+  it("leaves other content types unparsed", async () => {
+    const { res } = await runMiddleware(
+      jsonBody(),
+      echo,
+      post("text/plain", "hello")
+    );
+
+    expect(res.jsonBody()).toEqual({ body: "hello" });
+  });
+
+  it("composes with other parsers", async () => {
+    const { res } = await runMiddleware(
+      [jsonBody(), urlencodedBody()],
+      echo,
+      post("application/x-www-form-urlencoded", "a=1&b=2&b=3")
+    );
+
+    expect(res.jsonBody()).toMatchObject({ body: { a: "1", b: ["2", "3"] } });
+  });
+});
+
+describe("multipartBody", () => {
+  it("parses fields and files into memory", async () => {
+    let files: UploadedFile[] | undefined;
+
+    const { req } = await runMiddleware(
+      multipartBody(),
+      (req, res) => {
+        files = req.locals.files;
+        res.end();
+      },
+      multipart([
+        { name: "title", value: "Report" },
+        { name: "tags", value: "a" },
+        { name: "tags", value: "b" },
+        {
+          name: "upload",
+          filename: "report.csv",
+          type: "text/csv",
+          value: "x,y\r\n1,2",
+        },
+      ])
+    );
+
+    expect(req.body).toEqual({ title: "Report", tags: ["a", "b"] });
+    expect(files).toEqual([
+      {
+        field: "upload",
+        filename: "report.csv",
+        contentType: "text/csv",
+        size: 8,
+        buffer: Buffer.from("x,y\r\n1,2"),
+      },
+    ]);
+  });
+
+  it("parses bodies split across many chunks", async () => {
+    const { body, headers } = multipart([
+      { name: "file", filename: "a.txt", value: "a".repeat(200) },
+      { name: "note", value: "done" },
+    ]);
+    const chunks = Buffer.from(body)
+      .toString()
+      .match(/[^]{1,7}/g)!;
+    const locals: Partial<MultipartBodyLocals> = {};
+    const req = Object.assign(Readable.from(chunks) as NextApiRequest, {
+      method: "POST",
+      headers: { "content-type": headers["Content-Type"] },
+      locals,
+      signal: new AbortController().signal,
+    });
+
+    await multipartBody()(req, createMockResponse(), async () => {});
+
+    expect(req.body).toEqual({ note: "done" });
+    expect(locals.files?.[0].buffer?.toString()).toBe("a".repeat(200));
+  });
+
+  it("writes files to disk and removes them afterwards", async () => {
+    const directory = await fs.mkdtemp(join(tmpdir(), "body-spec-"));
+    let path = "";
+
+    try {
+      await runMiddleware(
+        multipartBody({ storage: "disk", directory }),
+        async (req, res) => {
+          path = req.locals.files![0].path!;
+          expect(await fs.readFile(path, "utf8")).toBe("contents");
+          res.end();
+        },
+        multipart([{ name: "file", filename: "a.txt", value: "contents" }])
+      );
+
+      expect(path.startsWith(directory)).toBe(true);
+      expect(await fs.readdir(directory)).toEqual([]);
+    } finally {
+      await fs.rm(directory, { recursive: true, force: true });
+    }
+  });
+
+  it("removes files of malformed bodies once they are closed", async () => {
+    const directory = await fs.mkdtemp(join(tmpdir(), "body-spec-"));
+    const { open } = fsCallbacks;
+
+    // Keep the temporary file opening until the body has ended
+    const slowOpen = jest
+      .spyOn(fsCallbacks, "open")
+      .mockImplementation((...args: any[]) => {
+        setTimeout(() => (open as any)(...args), 20);
+      });
+
+    try {
+      const { res } = await runMiddleware(
+        multipartBody({ storage: "disk", directory }),
+        echo,
+        post(
+          `multipart/form-data; boundary=${boundary}`,
+          `--${boundary}\r\nContent-Disposition: form-data; name="file"; filename="a.txt"\r\n\r\ncontents`
+        )
+      );
+
+      // Give a file opened after cleanup the time to appear
+      await new Promise((resolve) => setTimeout(resolve, 40));
+
+      expect(res.statusCode).toBe(400);
+      expect(await fs.readdir(directory)).toEqual([]);
+    } finally {
+      slowOpen.mockRestore();
+      await fs.rm(directory, { recursive: true, force: true });
+    }
+  });
+
+  it("responds with 413 to files over the size limit", async () => {
+    const { res } = await runMiddleware(
+      multipartBody({ fileSize: 4 }),
+      echo,
+      multipart([{ name: "file", filename: "a.txt", value: "too large" }])
+    );
+
+    expect(res.statusCode).toBe(413);
+    expect(res.jsonBody()).toMatchObject({
+      detail: 'File "a.txt" is larger than 4 bytes',
+    });
+  });
+
+  it("responds with 400 to malformed bodies", async () => {
+    const truncated = await runMiddleware(
+      multipartBody(),
+      echo,
+      post(
+        `multipart/form-data; boundary=${boundary}`,
+        `--${boundary}\r\nContent-Disposition: form-data; name="a"\r\n\r\nb`
+      )
+    );
+    const withoutBoundary = await runMiddleware(
+      multipartBody(),
+      echo,
+      post("multipart/form-data", "")
+    );
+
+    expect(truncated.res.statusCode).toBe(400);
+    expect(withoutBoundary.res.statusCode).toBe(400);
+  });
+});
+
+describe("parseBody", () => {
+  it("chooses a parser by content type", async () => {
+    const route = use(parseBody())(echo);
+    const json = createMockResponse();
+    const form = createMockResponse();
+
+    await route(createMockRequest(post("application/json", '{"a":1}')), json);
+    await route(
+      createMockRequest(multipart([{ name: "a", value: "1" }])),
+      form
+    );
+
+    expect(json.jsonBody()).toMatchObject({ body: { a: 1 } });
+    expect(form.jsonBody()).toMatchObject({ body: { a: "1" } });
+  });
+
+  it("responds with 415 to other content types", async () => {
+    const { res, handlerCalled } = await runMiddleware(
+      parseBody({ multipart: false }),
+      echo,
+      multipart([{ name: "a", value: "1" }])
+    );
+
+    expect(handlerCalled).toBe(false);
+    expect(res.statusCode).toBe(415);
+    expect(res.jsonBody()).toMatchObject({ code: "unsupported_media_type" });
+  });
+
+  it("passes requests without a body through", async () => {
+    const { handlerCalled } = await runMiddleware(parseBody(), echo);
+
+    expect(handlerCalled).toBe(true);
+  });
+
+  it("is marked as Node.js only", () => {
+    expect(isNodeOnlyMiddleware(parseBody())).toBe(true);
+    expect(isNodeOnlyMiddleware(rawBody())).toBe(true);
+  });
+});
+
+describe("parseSize", () => {
+  it("converts sizes to bytes", () => {
+    expect(parseSize(100)).toBe(100);
+    expect(parseSize("1kb")).toBe(1024);
+    expect(parseSize("1.5 MB")).toBe(1.5 * 1024 * 1024);
+    expect(() => parseSize("lots")).toThrow('Invalid body size "lots"');
+  });
+});
@@ -0,0 +1,747 @@
+import { randomUUID } from "crypto";
+import { createWriteStream, promises as fs, WriteStream } from "fs";
+import type { NextApiRequest, NextApiResponse } from "next";
+import { tmpdir } from "os";
+import { join } from "path";
+import { finished } from "stream";
+import {
+  BadRequestError,
+  isHttpError,
+  PayloadTooLargeError,
+  sendProblem,
+  UnsupportedMediaTypeError,
+} from "./errors";
+import { nodeOnly } from "./runtime";
+import { Middleware, RequestWithLocals } from "./types";
+
+/**
+ * A size in bytes, or a string such as `"500kb"` or `"1mb"`
+ */
+export type BodySize = number | string;
+
+export type BodyOptions = {
+  /**
+   * The largest body accepted before responding with
+   * `413 Payload Too Large` (defaults to `"1mb"`)
+   */
+  limit?: BodySize;
+
+  /**
+   * Content types to parse, such as `"application/json"`,
+   * `"text/*"` or `"application/*+json"`
+   */
+  type?: string | string[];
+};
+
+export type MultipartBodyOptions = BodyOptions & {
+  /**
+   * The largest file accepted (defaults to `limit`)
+   */
+  fileSize?: BodySize;
+
+  /**
+   * Keep uploaded files in `"memory"` (the default) or
+   * write them to temporary files on `"disk"`
+   */
+  storage?: "memory" | "disk";
+
+  /**
+   * Where temporary files are written (defaults to the
+   * temporary directory of the operating system)
+   */
+  directory?: string;
+};
+
+/**
+ * A file from a `multipart/form-data` body
+ */
+export type UploadedFile = {
+  /**
+   * The name of the form field
+   */
+  field: string;
+
+  filename: string;
+  contentType: string;
+  size: number;
+
+  /**
+   * The file contents, with `"memory"` storage
+   */
+  buffer?: Buffer;
+
+  /**
+   * The temporary file, with `"disk"` storage. It is removed once
+   * the rest of the chain has finished, so move it to keep it.
+   */
+  path?: string;
+};
+
+/**
+ * What `rawBody` adds to `req.locals`
+ */
+export type RawBodyLocals = {
+  /**
+   * The body exactly as received, e.g. to verify signatures
+   */
+  rawBody: Buffer;
+};
+
+/**
+ * What `multipartBody` adds to `req.locals`
+ */
+export type MultipartBodyLocals = {
+  files: UploadedFile[];
+};
+
+export type ParseBodyOptions = {
+  /**
+   * Options for JSON bodies, or `false` to refuse them
+   */
+  json?: BodyOptions | false;
+
+  /**
+   * Options for `application/x-www-form-urlencoded` bodies,
+   * or `false` to refuse them
+   */
+  urlencoded?: BodyOptions | false;
+
+  /**
+   * Options for `multipart/form-data` bodies, or `false` to refuse them
+   */
+  multipart?: MultipartBodyOptions | false;
+};
+
+type FormFields = Record<string, string | string[]>;
+
+/**
+ * Reads the body of requests with a matching content type (any
+ * type when `types` is empty), returning a function that releases
+ * what it kept
+ */
+type BodyReader = {
+  types: string[];
+  read(
+    req: RequestWithLocals<NextApiRequest, Record<string, unknown>>
+  ): Promise<(() => Promise<void>) | void>;
+};
+
+const defaultLimit = "1mb";
+const jsonTypes = ["application/json", "application/*+json"];
+const urlencodedTypes = ["application/x-www-form-urlencoded"];
+const multipartTypes = ["multipart/form-data"];
+
+/**
+ * Create middleware that reads the body into a `Buffer`, sets it as
+ * `req.body` and adds it to `req.locals.rawBody`, e.g. for routes
+ * that verify the signature of webhooks. Reads every body unless
+ * `type` is given.
+ *
+ * The Next.js body parser must be disabled for the route.
+ */
+export function rawBody(
+  options: BodyOptions = {}
+): Middleware<NextApiRequest, NextApiResponse, RawBodyLocals> {
+  const limit = parseSize(options.limit ?? defaultLimit);
+  const reader: BodyReader = {
+    types: options.type ? toArray(options.type) : [],
+    async read(req) {
+      req.body = req.locals.rawBody = await readBody(req, limit);
+    },
+  };
+
+  return nodeOnly(async function rawBody(req, res, next) {
+    await readWith([reader], false, req, res, next);
+  });
+}
+
+/**
+ * Create middleware that parses JSON bodies into `req.body`, keeping
+ * the body as received in `req.locals.rawBody`. Requests with other
+ * content types continue unparsed.
+ *
+ * The Next.js body parser must be disabled for the route.
+ */
+export function jsonBody(
+  options: BodyOptions = {}
+): Middleware<NextApiRequest, NextApiResponse, Partial<RawBodyLocals>> {
+  const reader = jsonReader(options);
+
+  return nodeOnly(async function jsonBody(req, res, next) {
+    await readWith([reader], false, req, res, next);
+  });
+}
+
+/**
+ * Create middleware that parses `application/x-www-form-urlencoded`
+ * bodies into `req.body`, keeping the body as received in
+ * `req.locals.rawBody`. Requests with other content types continue
+ * unparsed.
+ *
+ * The Next.js body parser must be disabled for the route.
+ */
+export function urlencodedBody(
+  options: BodyOptions = {}
+): Middleware<NextApiRequest, NextApiResponse, Partial<RawBodyLocals>> {
+  const reader = urlencodedReader(options);
+
+  return nodeOnly(async function urlencodedBody(req, res, next) {
+    await readWith([reader], false, req, res, next);
+  });
+}
+
+/**
+ * Create middleware that parses `multipart/form-data` bodies, setting
+ * the form fields as `req.body` and adding uploaded files to
+ * `req.locals.files`. Requests with other content types continue
+ * unparsed.
+ *
+ * The Next.js body parser must be disabled for the route.
+ */
+export function multipartBody(
+  options: MultipartBodyOptions = {}
+): Middleware<NextApiRequest, NextApiResponse, Partial<MultipartBodyLocals>> {
+  const reader = multipartReader(options);
+
+  return nodeOnly(async function multipartBody(req, res, next) {
+    await readWith([reader], false, req, res, next);
+  });
+}
+
+/**
+ * Create middleware that parses JSON, `application/x-www-form-urlencoded`
+ * and `multipart/form-data` bodies according to their content type,
+ * responding with `415 Unsupported Media Type` to bodies of other types.
+ *
+ * The Next.js body parser must be disabled for the route.
+ */
+export function parseBody(
+  options: ParseBodyOptions = {}
+): Middleware<
+  NextApiRequest,
+  NextApiResponse,
+  Partial<RawBodyLocals & MultipartBodyLocals>
+> {
+  const readers: BodyReader[] = [];
+
+  if (options.json !== false) {
+    readers.push(jsonReader(options.json));
+  }
+  if (options.urlencoded !== false) {
+    readers.push(urlencodedReader(options.urlencoded));
+  }
+  if (options.multipart !== false) {
+    readers.push(multipartReader(options.multipart));
+  }
+
+  return nodeOnly(async function parseBody(req, res, next) {
+    await readWith(readers, true, req, res, next);
+  });
+}
+
+/**
+ * Convert a `BodySize` to bytes
+ */
+export function parseSize(size: BodySize): number {
+  if (typeof size === "number") {
+    return size;
+  }
+
+  const match = /^\s*(\d+(?:\.\d+)?)\s*(b|kb|mb|gb)?\s*$/i.exec(size);
+
+  if (!match) {
+    throw new Error(`Invalid body size "${size}"`);
+  }
+
+  const units: Record<string, number> = {
+    b: 1,
+    kb: 1024,
+    mb: 1024 ** 2,
+    gb: 1024 ** 3,
+  };
+
+  return Math.floor(Number(match[1]) * units[(match[2] || "b").toLowerCase()]);
+}
+
+/**
+ * Read the body with the first reader matching its content type,
+ * then run the rest of the chain
+ */
+async function readWith(
+  readers: BodyReader[],
+  refuseOthers: boolean,
+  req: RequestWithLocals<NextApiRequest, any>,
+  res: NextApiResponse,
+  next: () => Promise<void>
+) {
+  const type = mediaType(req.headers["content-type"]);
+  const reader = readers.find(
+    (reader) =>
+      reader.types.length === 0 ||
+      reader.types.some((pattern) => typeMatches(type, pattern))
+  );
+
+  if (!reader) {
+    if (refuseOthers && type) {
+      sendProblem(
+        res,
+        new UnsupportedMediaTypeError(`Unsupported content type "${type}"`, {
+          code: "unsupported_media_type",
+        })
+      );
+      return;
+    }
+
+    await next();
+    return;
+  }
+
+  let release: (() => Promise<void>) | void;
+
+  try {
+    release = await reader.read(req);
+  } catch (err) {
+    if (isHttpError(err)) {
+      sendProblem(res, err);
+      return;
+    }
+    throw err;
+  }
+
+  try {
+    await next();
+  } finally {
+    await release?.();
+  }
+}
+
+function jsonReader(options: BodyOptions = {}): BodyReader {
+  const limit = parseSize(options.limit ?? defaultLimit);
+
+  return {
+    types: toArray(options.type ?? jsonTypes),
+    async read(req) {
+      const raw = await readBody(req, limit);
+      const text = raw.toString("utf8");
+
+      try {
+        req.body = text.trim() === "" ? undefined : JSON.parse(text);
+      } catch (err) {
+        throw new BadRequestError("Invalid JSON body", {
+          code: "invalid_body",
+          cause: err,
+        });
+      }
+
+      req.locals.rawBody = raw;
+    },
+  };
+}
+
+function urlencodedReader(options: BodyOptions = {}): BodyReader {
+  const limit = parseSize(options.limit ?? defaultLimit);
+
+  return {
+    types: toArray(options.type ?? urlencodedTypes),
+    async read(req) {
+      const raw = await readBody(req, limit);
+      const fields: FormFields = {};
+
+      for (const [name, value] of new URLSearchParams(raw.toString("utf8"))) {
+        addField(fields, name, value);
+      }
+
+      req.body = fields;
+      req.locals.rawBody = raw;
+    },
+  };
+}
+
+function multipartReader(options: MultipartBodyOptions = {}): BodyReader {
+  const limit = parseSize(options.limit ?? defaultLimit);
+  const fileSize = parseSize(options.fileSize ?? limit);
+  const directory =
+    options.storage === "disk" ? options.directory ?? tmpdir() : undefined;
+
+  return {
+    types: toArray(options.type ?? multipartTypes),
+    async read(req) {
+      const boundary = parameter(req.headers["content-type"], "boundary");
+
+      if (!boundary) {
+        throw new BadRequestError("Missing multipart boundary", {
+          code: "invalid_body",
+        });
+      }
+
+      const { fields, files } = await readMultipart(req, boundary, {
+        limit,
+        fileSize,
+        directory,
+      });
+
+      req.body = fields;
+      req.locals.files = files;
+
+      return () => removeFiles(files);
+    },
+  };
+}
+
+/**
+ * Read the whole body into a `Buffer`
+ */
+async function readBody(req: NextApiRequest, limit: number): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  await readStream(req, limit, (chunk) => {
+    chunks.push(chunk);
+  });
+  return Buffer.concat(chunks);
+}
+
+/**
+ * Pass each chunk of the body to `onChunk`, pausing the request while
+ * it is busy. Bodies over the limit are rejected (and the rest of the
+ * body is discarded) so that a response can still be sent.
+ */
+function readStream(
+  req: NextApiRequest,
+  limit: number,
+  onChunk: (chunk: Buffer) => void | Promise<void>
+): Promise<void> {
+  if (req.readableEnded) {
+    throw new Error(
+      "The request body was already read; disable the Next.js body parser " +
+        "with `export const config = { api: { bodyParser: false } }`"
+    );
+  }
+
+  return new Promise((resolve, reject) => {
+    let received = 0;
+    let pending: Promise<void> = Promise.resolve();
+    let failed = false;
+
+    const cleanup = () => {
+      req.off("data", onData);
+      req.off("end", onEnd);
+      req.off("error", fail);
+    };
+
+    const fail = (err: unknown) => {
+      if (failed) {
+        return;
+      }
+      failed = true;
+      cleanup();
+      req.resume();
+      reject(err);
+    };
+
+    const onData = (data: Buffer | string) => {
+      const chunk = Buffer.from(data);
+      received += chunk.length;
+
+      if (received > limit) {
+        fail(tooLarge("Request body", limit));
+        return;
+      }
+
+      const result = onChunk(chunk);
+
+      if (result) {
+        req.pause();
+        pending = result.then(() => {
+          if (!failed) {
+            req.resume();
+          }
+        });
+        pending.catch(fail);
+      }
+    };
+
+    const onEnd = () => {
+      pending.then(() => {
+        cleanup();
+        resolve();
+      }, fail);
+    };
+
+    if (Number(req.headers["content-length"]) > limit) {
+      fail(tooLarge("Request body", limit));
+      return;
+    }
+
+    req.on("data", onData);
+    req.on("end", onEnd);
+    req.on("error", fail);
+  });
+}
+
+/**
+ * Where the contents of a multipart part go
+ */
+type PartSink = {
+  write(chunk: Buffer): void | Promise<void>;
+  end(): void | Promise<void>;
+};
+
+const maxPartHeaderSize = 16 * 1024;
+
+/**
+ * Parse a `multipart/form-data` body as it streams in, writing
+ * files to memory or to temporary files
+ */
+async function readMultipart(
+  req: NextApiRequest,
+  boundary: string,
+  options: { limit: number; fileSize: number; directory?: string }
+): Promise<{ fields: FormFields; files: UploadedFile[] }> {
+  const delimiter = Buffer.from(`\r\n--${boundary}`);
+  const fields: FormFields = {};
+  const files: UploadedFile[] = [];
+  const streams: WriteStream[] = [];
+
+  // Resolved once each temporary file is closed, so that cleanup
+  // cannot run before a file that is still being opened exists
+  const closed: Promise<void>[] = [];
+
+  // The leading line break lets the first boundary match the delimiter
+  let buffer = Buffer.from("\r\n");
+  let state: "preamble" | "boundary" | "headers" | "body" | "end" = "preamble";
+  let part: PartSink | undefined;
+  let complete = false;
+
+  const malformed = () =>
+    new BadRequestError("Malformed multipart body", { code: "invalid_body" });
+
+  const startPart = (headers: string): PartSink => {
+    const disposition = headers
+      .split("\r\n")
+      .find((line) => /^content-disposition:/i.test(line));
+    const name = parameter(disposition, "name");
+    const filename = parameter(disposition, "filename");
+
+    if (name === undefined) {
+      throw malformed();
+    }
+
+    if (filename === undefined) {
+      const chunks: Buffer[] = [];
+      return {
+        write: (chunk) => {
+          chunks.push(chunk);
+        },
+        end: () =>
+          addField(fields, name, Buffer.concat(chunks).toString("utf8")),
+      };
+    }
+
+    const contentType =
+      /^content-type:\s*(.*)$/im.exec(headers)?.[1].trim() ||
+      "application/octet-stream";
+    const file: UploadedFile = { field: name, filename, contentType, size: 0 };
+    files.push(file);
+
+    const checkSize = (chunk: Buffer) => {
+      file.size += chunk.length;
+      if (file.size > options.fileSize) {
+        throw tooLarge(`File "${filename}"`, options.fileSize);
+      }
+    };
+
+    if (!options.directory) {
+      const chunks: Buffer[] = [];
+      return {
+        write: (chunk) => {
+          checkSize(chunk);
+          chunks.push(chunk);
+        },
+        end: () => {
+          file.buffer = Buffer.concat(chunks);
+        },
+      };
+    }
+
+    file.path = join(options.directory, `upload-${randomUUID()}`);
+    const stream = createWriteStream(file.path);
+    streams.push(stream);
+    closed.push(new Promise((resolve) => stream.once("close", resolve)));
+
+    return {
+      write: (chunk) => {
+        checkSize(chunk);
+        return writeChunk(stream, chunk);
+      },
+      end: () => endStream(stream),
+    };
+  };
+
+  const parse = async () => {
+    for (;;) {
+      if (state === "preamble") {
+        const index = buffer.indexOf(delimiter);
+        if (index === -1) {
+          buffer = buffer.subarray(
+            Math.max(0, buffer.length - delimiter.length + 1)
+          );
+          return;
+        }
+        buffer = buffer.subarray(index + delimiter.length);
+        state = "boundary";
+      } else if (state === "boundary") {
+        if (buffer.length < 2) {
+          return;
+        }
+        if (buffer[0] === 0x2d && buffer[1] === 0x2d) {
+          state = "end";
+          complete = true;
+          return;
+        }
+        const lineEnd = buffer.indexOf("\r\n");
+        if (lineEnd === -1) {
+          return;
+        }
+        buffer = buffer.subarray(lineEnd + 2);
+        state = "headers";
+      } else if (state === "headers") {
+        const headersEnd = buffer.indexOf("\r\n\r\n");
+        if (headersEnd === -1) {
+          if (buffer.length > maxPartHeaderSize) {
+            throw malformed();
+          }
+          return;
+        }
+        part = startPart(buffer.subarray(0, headersEnd).toString("utf8"));
+        buffer = buffer.subarray(headersEnd + 4);
+        state = "body";
+      } else if (state === "body" && part) {
+        const index = buffer.indexOf(delimiter);
+        if (index === -1) {
+          // Keep what might be the start of the delimiter
+          const safe = buffer.length - delimiter.length + 1;
+          if (safe > 0) {
+            await part.write(buffer.subarray(0, safe));
+            buffer = buffer.subarray(safe);
+          }
+          return;
+        }
+        await part.write(buffer.subarray(0, index));
+        await part.end();
+        part = undefined;
+        buffer = buffer.subarray(index + delimiter.length);
+        state = "boundary";
+      } else {
+        // Ignore the epilogue
+        return;
+      }
+    }
+  };
+
+  try {
+    await readStream(req, options.limit, (chunk) => {
+      buffer = Buffer.concat([buffer, chunk]);
+      return parse();
+    });
+
+    if (!complete) {
+      throw malformed();
+    }
+  } catch (err) {
+    streams.forEach((stream) => stream.destroy());
+    await Promise.all(closed);
+    await removeFiles(files);
+    throw err;
+  }
+
+  return { fields, files };
+}
+
+function writeChunk(stream: WriteStream, chunk: Buffer): Promise<void> {
+  return new Promise((resolve, reject) => {
+    stream.write(chunk, (err) => (err ? reject(err) : resolve()));
+  });
+}
+
+function endStream(stream: WriteStream): Promise<void> {
+  return new Promise((resolve, reject) => {
+    finished(stream, (err) => (err ? reject(err) : resolve()));
+    stream.end();
+  });
+}
+
+async function removeFiles(files: UploadedFile[]) {
+  await Promise.all(
+    files.map((file) =>
+      file.path
+        ? fs.unlink(file.path).catch(() => {
+            // Already moved or removed
+          })
+        : undefined
+    )
+  );
+}
+
+function addField(fields: FormFields, name: string, value: string) {
+  const existing = fields[name];
+
+  if (existing === undefined) {
+    fields[name] = value;
+  } else if (Array.isArray(existing)) {
+    existing.push(value);
+  } else {
+    fields[name] = [existing, value];
+  }
+}
+
+function tooLarge(what: string, limit: number) {
+  return new PayloadTooLargeError(`${what} is larger than ${limit} bytes`, {
+    code: "body_too_large",
+  });
+}
+
+/**
+ * The media type of a `Content-Type` header, without parameters
+ */
+function mediaType(contentType: string | undefined): string {
+  return (contentType || "").split(";")[0].trim().toLowerCase();
+}
+
+/**
+ * Whether a media type matches a pattern such as
+ * `"text/*"` or `"application/*+json"`
+ */
+function typeMatches(type: string, pattern: string): boolean {
+  const [group, subtype] = type.split("/");
+  const [patternGroup, patternSubtype] = pattern.toLowerCase().split("/");
+
+  if (!group || !subtype) {
+    return false;
+  }
+
+  return (
+    (patternGroup === "*" || patternGroup === group) &&
+    (patternSubtype === "*" ||
+      patternSubtype === subtype ||
+      (patternSubtype.startsWith("*+") &&
+        subtype.endsWith(patternSubtype.slice(1))))
+  );
+}
+
+/**
+ * A parameter of a header such as `Content-Type` or
+ * `Content-Disposition`, e.g. `boundary` or `filename`
+ */
+function parameter(
+  header: string | undefined,
+  name: string
+): string | undefined {
+  const match = new RegExp(`;\\s*${name}=(?:"([^"]*)"|([^;\\s]*))`, "i").exec(
+    header || ""
+  );
+
+  return match ? match[1] ?? match[2] : undefined;
+}
+
+function toArray<T>(value: T | T[]): T[] {
+  return Array.isArray(value) ? value : [value];
+}
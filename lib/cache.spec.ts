@@ -0,0 +1,318 @@
+import { cache, isNotModified, MemoryCache, ResponseCacheStore } from "./cache";
+import { isNodeOnlyMiddleware } from "./runtime";
+import { createMockRequest, runMiddleware } from "./testing";
+
+let now = 1_000_000;
+let count = 0;
+
+const counter = (_req: any, res: any) => {
+  count++;
+  res.setHeader("Content-Type", "application/json; charset=utf-8");
+  res.json({ count });
+};
+
+beforeEach(() => {
+  now = 1_000_000;
+  count = 0;
+  jest.spyOn(Date, "now").mockImplementation(() => now);
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe("cache", () => {
+  describe("ETags", () => {
+    it("adds a weak ETag to successful responses", async () => {
+      const { res } = await runMiddleware(cache(), counter);
+
+      expect(res.statusCode).toBe(200);
+      expect(res.getHeader("ETag")).toMatch(/^W\/"b-[\w+/]+"$/);
+      expect(res.jsonBody()).toEqual({ count: 1 });
+    });
+
+    it("adds strong ETags", async () => {
+      const { res } = await runMiddleware(cache({ etag: "strong" }), counter);
+
+      expect(res.getHeader("ETag")).toMatch(/^"b-/);
+    });
+
+    it("keeps ETags set by the handler", async () => {
+      const { res } = await runMiddleware(cache(), (_req, res) => {
+        res.setHeader("ETag", '"v1"');
+        res.end("hello");
+      });
+
+      expect(res.getHeader("ETag")).toBe('"v1"');
+      expect(res.body).toBe("hello");
+    });
+
+    it("leaves out ETags for errors and other methods", async () => {
+      const failed = await runMiddleware(cache(), (_req, res) =>
+        res.status(404).json({})
+      );
+      const posted = await runMiddleware(cache(), counter, { method: "POST" });
+
+      expect(failed.res.statusCode).toBe(404);
+      expect(failed.res.getHeader("ETag")).toBeUndefined();
+      expect(posted.res.getHeader("ETag")).toBeUndefined();
+    });
+  });
+
+  describe("conditional requests", () => {
+    it("answer a matching If-None-Match with 304", async () => {
+      const first = await runMiddleware(cache(), counter);
+      count = 0;
+      const { res } = await runMiddleware(cache(), counter, {
+        headers: { "If-None-Match": `"x", ${first.res.getHeader("ETag")}` },
+      });
+
+      expect(res.statusCode).toBe(304);
+      expect(res.body).toBe("");
+      expect(res.getHeader("Content-Type")).toBeUndefined();
+      expect(res.getHeader("ETag")).toBe(first.res.getHeader("ETag"));
+    });
+
+    it("answer If-Modified-Since with 304", async () => {
+      const handler = (_req: any, res: any) => {
+        res.setHeader("Last-Modified", "Tue, 01 Oct 2024 00:00:00 GMT");
+        res.end("hello");
+      };
+
+      const unchanged = await runMiddleware(cache({ etag: false }), handler, {
+        headers: { "If-Modified-Since": "Wed, 02 Oct 2024 00:00:00 GMT" },
+      });
+      const changed = await runMiddleware(cache({ etag: false }), handler, {
+        headers: { "If-Modified-Since": "Mon, 30 Sep 2024 00:00:00 GMT" },
+      });
+
+      expect(unchanged.res.statusCode).toBe(304);
+      expect(changed.res.statusCode).toBe(200);
+      expect(changed.res.body).toBe("hello");
+    });
+  });
+
+  describe("with a store", () => {
+    it("serves saved responses until the ttl has passed", async () => {
+      const middleware = cache({ store: new MemoryCache(), ttl: 10_000 });
+
+      await runMiddleware(middleware, counter);
+      now += 5000;
+      const cached = await runMiddleware(middleware, counter);
+      now += 5000;
+      const refreshed = await runMiddleware(middleware, counter);
+
+      expect(cached.handlerCalled).toBe(false);
+      expect(cached.res.jsonBody()).toEqual({ count: 1 });
+      expect(cached.res.getHeader("Age")).toBe("5");
+      expect(cached.res.getHeader("Content-Type")).toBe(
+        "application/json; charset=utf-8"
+      );
+      expect(refreshed.handlerCalled).toBe(true);
+      expect(refreshed.res.jsonBody()).toEqual({ count: 2 });
+    });
+
+    it("answers conditional requests from the store", async () => {
+      const middleware = cache({ store: new MemoryCache(), ttl: 10_000 });
+
+      const first = await runMiddleware(middleware, counter);
+      const { res, handlerCalled } = await runMiddleware(middleware, counter, {
+        headers: { "If-None-Match": first.res.getHeader("ETag") as string },
+      });
+
+      expect(first.res.getHeader("Last-Modified")).toBe(
+        new Date(now).toUTCString()
+      );
+      expect(handlerCalled).toBe(false);
+      expect(res.statusCode).toBe(304);
+    });
+
+    it("serves stale responses while revalidating", async () => {
+      const middleware = cache({
+        store: new MemoryCache(),
+        ttl: 1000,
+        staleWhileRevalidate: 5000,
+      });
+
+      await runMiddleware(middleware, counter);
+      now += 2000;
+      const stale = await runMiddleware(middleware, counter);
+      const fresh = await runMiddleware(middleware, counter);
+
+      expect(stale.handlerCalled).toBe(true);
+      expect(stale.res.jsonBody()).toEqual({ count: 1 });
+      expect(fresh.handlerCalled).toBe(false);
+      expect(fresh.res.jsonBody()).toEqual({ count: 2 });
+    });
+
+    it("keeps responses for the vary headers apart", async () => {
+      const middleware = cache({
+        store: new MemoryCache(),
+        ttl: 10_000,
+        vary: ["Accept-Language"],
+      });
+      const language = (value: string) => ({
+        headers: { "Accept-Language": value },
+      });
+
+      await runMiddleware(middleware, counter, language("en"));
+      const other = await runMiddleware(middleware, counter, language("fr"));
+      const same = await runMiddleware(middleware, counter, language("en"));
+
+      expect(other.res.jsonBody()).toEqual({ count: 2 });
+      expect(same.res.jsonBody()).toEqual({ count: 1 });
+      expect(same.res.getHeader("Vary")).toBe("Accept-Language");
+    });
+
+    it("does not save private or failed responses", async () => {
+      const store = new MemoryCache();
+      const middleware = cache({ store, ttl: 10_000 });
+
+      await runMiddleware(middleware, (_req, res) => {
+        res.setHeader("Cache-Control", "private, max-age=60");
+        res.end("secret");
+      });
+      await runMiddleware(middleware, (_req, res) => {
+        res.setHeader("Set-Cookie", "session=1");
+        res.end("secret");
+      });
+      await runMiddleware(middleware, (_req, res) => res.status(500).end());
+
+      expect(store.size).toBe(0);
+    });
+
+    it("only saves public responses to requests with credentials", async () => {
+      const store = new MemoryCache();
+      const middleware = cache({ store, ttl: 10_000 });
+      const shared = (_req: any, res: any) => {
+        res.setHeader("Cache-Control", "public, max-age=60");
+        res.end("shared");
+      };
+
+      await runMiddleware(middleware, counter, {
+        headers: { Authorization: "Bearer secret" },
+      });
+      await runMiddleware(middleware, counter, {
+        headers: { Cookie: "session=1" },
+      });
+      const anonymous = await runMiddleware(middleware, counter);
+
+      expect(anonymous.handlerCalled).toBe(true);
+      expect(store.size).toBe(1);
+
+      const other = cache({ store: new MemoryCache(), ttl: 10_000 });
+      await runMiddleware(other, shared, {
+        headers: { Authorization: "Bearer secret" },
+      });
+      const { handlerCalled } = await runMiddleware(other, shared);
+
+      expect(handlerCalled).toBe(false);
+    });
+
+    it("saves responses to requests with credentials when asked to", async () => {
+      const middleware = cache({
+        store: new MemoryCache(),
+        ttl: 10_000,
+        storeCredentialed: true,
+        vary: ["Authorization"],
+      });
+      const user = { headers: { Authorization: "Bearer secret" } };
+
+      await runMiddleware(middleware, counter, user);
+      const { res, handlerCalled } = await runMiddleware(
+        middleware,
+        counter,
+        user
+      );
+
+      expect(handlerCalled).toBe(false);
+      expect(res.jsonBody()).toEqual({ count: 1 });
+    });
+
+    it("keeps headers from earlier middleware current", async () => {
+      let requestId = 0;
+      const middleware = [
+        async function addRequestId(_req: any, res: any, next: any) {
+          res.setHeader("X-Request-ID", String(++requestId));
+          await next();
+        },
+        cache({ store: new MemoryCache(), ttl: 10_000 }),
+      ];
+
+      await runMiddleware(middleware, counter);
+      const { res, handlerCalled } = await runMiddleware(middleware, counter);
+
+      expect(handlerCalled).toBe(false);
+      expect(res.getHeader("X-Request-ID")).toBe("2");
+    });
+
+    it("works with asynchronous stores", async () => {
+      const memory = new MemoryCache();
+      const store: ResponseCacheStore = {
+        get: jest.fn(async (key: string) => memory.get(key)),
+        set: jest.fn(async (key, response, ttl) =>
+          memory.set(key, response, ttl)
+        ),
+      };
+      const middleware = cache({ store, ttl: 1000, staleWhileRevalidate: 500 });
+
+      await runMiddleware(middleware, counter, { url: "/api/items?page=2" });
+
+      expect(store.set).toHaveBeenCalledWith(
+        "GET /api/items?page=2",
+        expect.objectContaining({ status: 200, storedAt: now }),
+        1500
+      );
+    });
+
+    it("needs a positive ttl", () => {
+      expect(() => cache({ store: new MemoryCache() })).toThrow(
+        "Caching responses in a store needs a positive `ttl`"
+      );
+    });
+  });
+
+  it("passes errors through after restoring the response", async () => {
+    const { res } = await runMiddleware(
+      [
+        async function handleErrors(_req: any, res: any, next: any) {
+          try {
+            await next();
+          } catch {
+            res.status(500).json({ error: "failed" });
+          }
+        },
+        cache(),
+      ],
+      () => {
+        throw new Error("failed");
+      }
+    );
+
+    expect(res.statusCode).toBe(500);
+    expect(res.jsonBody()).toEqual({ error: "failed" });
+  });
+
+  it("is marked as Node.js only", () => {
+    expect(isNodeOnlyMiddleware(cache())).toBe(true);
+  });
+});
+
+describe("isNotModified", () => {
+  it("prefers If-None-Match over If-Modified-Since", () => {
+    const req = createMockRequest({
+      headers: {
+        "If-None-Match": '"b"',
+        "If-Modified-Since": "Wed, 02 Oct 2024 00:00:00 GMT",
+      },
+    });
+
+    expect(
+      isNotModified(req, {
+        etag: 'W/"a"',
+        "last-modified": "Tue, 01 Oct 2024 00:00:00 GMT",
+      })
+    ).toBe(false);
+    expect(isNotModified(req, { etag: 'W/"b"' })).toBe(true);
+  });
+});
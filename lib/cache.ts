@@ -0,0 +1,565 @@
+import { createHash } from "crypto";
+import type { NextApiRequest, NextApiResponse } from "next";
+import { appendVary } from "./headers";
+import { ExpiringLru } from "./lru";
+import { nodeOnly } from "./runtime";
+import { Middleware } from "./types";
+
+type HeaderValue = number | string | string[];
+
+/**
+ * A response saved by `cache`. The body is base64-encoded, so that
+ * external stores can serialize it as JSON.
+ */
+export type CachedResponse = {
+  status: number;
+
+  /**
+   * Headers added by the rest of the chain
+   */
+  headers: Record<string, HeaderValue>;
+
+  body: string;
+
+  /**
+   * When the response was saved, in milliseconds since the epoch
+   */
+  storedAt: number;
+};
+
+/**
+ * Where `cache` saves responses. Entries may be dropped once
+ * `ttl` milliseconds have passed since they were saved.
+ */
+export type ResponseCacheStore = {
+  get(
+    key: string
+  ): CachedResponse | undefined | Promise<CachedResponse | undefined>;
+  set(key: string, response: CachedResponse, ttl: number): void | Promise<void>;
+};
+
+export type MemoryCacheOptions = {
+  /**
+   * The number of responses kept before the least recently
+   * used ones are dropped (defaults to `1000`)
+   */
+  maxEntries?: number;
+};
+
+/**
+ * A response cache that keeps the most recently used responses
+ * in the memory of each server instance
+ */
+export class MemoryCache implements ResponseCacheStore {
+  private entries: ExpiringLru<CachedResponse>;
+
+  constructor(options: MemoryCacheOptions = {}) {
+    this.entries = new ExpiringLru(options.maxEntries ?? 1000);
+  }
+
+  get(key: string): CachedResponse | undefined {
+    return this.entries.get(key);
+  }
+
+  set(key: string, response: CachedResponse, ttl: number) {
+    this.entries.set(key, response, ttl);
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+}
+
+export type CacheOptions = {
+  /**
+   * Add an `ETag` header to successful responses that lack one:
+   * `"weak"` (the default), `"strong"`, or `false` for none
+   */
+  etag?: "weak" | "strong" | false;
+
+  /**
+   * Save responses here and serve them to later requests
+   */
+  store?: ResponseCacheStore;
+
+  /**
+   * Milliseconds that saved responses are served for (required
+   * with `store`)
+   */
+  ttl?: number;
+
+  /**
+   * Milliseconds after `ttl` during which a saved response is still
+   * served, while the rest of the chain runs again to refresh it
+   */
+  staleWhileRevalidate?: number;
+
+  /**
+   * Request headers that select different responses, such as
+   * `Accept-Language`. They become part of the cache key and
+   * are added to the `Vary` header.
+   */
+  vary?: string[];
+
+  /**
+   * Save responses to requests with `Authorization` or `Cookie`
+   * headers even when they are not marked `public` or with `s-maxage`
+   * (defaults to `false`)
+   */
+  storeCredentialed?: boolean;
+};
+
+/**
+ * A response as written by the rest of the chain
+ */
+type CapturedResponse = {
+  statusCode: number;
+  statusMessage?: string;
+  headers: Map<string, HeaderValue>;
+  chunks: Buffer[];
+  headersSent: boolean;
+  ended: boolean;
+};
+
+/**
+ * Create middleware for `GET` and `HEAD` requests that holds back the
+ * response of the rest of the chain until it has finished, so that it
+ * can add an `ETag`, answer `If-None-Match` and `If-Modified-Since`
+ * with `304 Not Modified`, and save the response in a store.
+ *
+ * Only complete `200 OK` responses without `Set-Cookie` or a
+ * `Cache-Control: no-store` or `private` directive are saved. Responses
+ * to requests with credentials are only saved when they are marked
+ * `public` or with `s-maxage`, unless `storeCredentialed` is set.
+ */
+export function cache(
+  options: CacheOptions = {}
+): Middleware<NextApiRequest, NextApiResponse> {
+  const {
+    etag = "weak",
+    store,
+    ttl = 0,
+    staleWhileRevalidate = 0,
+    vary = [],
+    storeCredentialed = false,
+  } = options;
+
+  if (store && !(ttl > 0)) {
+    throw new Error("Caching responses in a store needs a positive `ttl`");
+  }
+
+  return nodeOnly(async function cache(req, res, next) {
+    const method = (req.method || "GET").toUpperCase();
+
+    if (method !== "GET" && method !== "HEAD") {
+      await next();
+      return;
+    }
+
+    for (const header of vary) {
+      appendVary(res, header);
+    }
+
+    const key = cacheKey(method, req, vary);
+    const before = snapshot(res);
+    let stale = false;
+
+    if (store) {
+      const cached = await store.get(key);
+      const age = cached ? Date.now() - cached.storedAt : Infinity;
+
+      if (cached && age < ttl + staleWhileRevalidate) {
+        respond(req, res, fromCache(before, cached, age));
+
+        if (age < ttl) {
+          return;
+        }
+
+        // Serve the stale response, then refresh it below
+        stale = true;
+      }
+    }
+
+    const response = copy(before);
+    const release = capture(res, response);
+
+    try {
+      await next();
+    } catch (err) {
+      release();
+      if (!stale) {
+        commit(res, response);
+      }
+      throw err;
+    }
+
+    release();
+
+    if (response.ended && response.statusCode === 200) {
+      if (etag && !response.headers.has("etag")) {
+        response.headers.set("etag", computeEtag(response.chunks, etag));
+      }
+
+      if (
+        store &&
+        isCacheable(response) &&
+        (storeCredentialed || !hasCredentials(req) || isShared(response))
+      ) {
+        const storedAt = Date.now();
+
+        if (!response.headers.has("last-modified")) {
+          response.headers.set(
+            "last-modified",
+            new Date(storedAt).toUTCString()
+          );
+        }
+
+        await store.set(
+          key,
+          toCached(response, before, storedAt),
+          ttl + staleWhileRevalidate
+        );
+      }
+    }
+
+    if (!stale) {
+      respond(req, res, response);
+    }
+  });
+}
+
+/**
+ * Whether a conditional request can be answered with `304 Not Modified`
+ */
+export function isNotModified(
+  req: NextApiRequest,
+  headers: { etag?: unknown; "last-modified"?: unknown }
+): boolean {
+  const ifNoneMatch = req.headers["if-none-match"];
+
+  // `If-None-Match` takes precedence over `If-Modified-Since`
+  if (ifNoneMatch) {
+    if (typeof headers.etag !== "string") {
+      return false;
+    }
+
+    const etag = opaqueTag(headers.etag);
+    return (
+      ifNoneMatch.trim() === "*" ||
+      ifNoneMatch.split(",").some((tag) => opaqueTag(tag) === etag)
+    );
+  }
+
+  const ifModifiedSince = Date.parse(req.headers["if-modified-since"] || "");
+  const lastModified = Date.parse(String(headers["last-modified"] || ""));
+
+  return (
+    !Number.isNaN(ifModifiedSince) &&
+    !Number.isNaN(lastModified) &&
+    lastModified <= ifModifiedSince
+  );
+}
+
+function cacheKey(method: string, req: NextApiRequest, vary: string[]) {
+  return [
+    `${method} ${req.url || "/"}`,
+    ...vary.map((header) => {
+      const value = req.headers[header.toLowerCase()];
+      return `${header.toLowerCase()}: ${
+        Array.isArray(value) ? value.join(", ") : value ?? ""
+      }`;
+    }),
+  ].join("\n");
+}
+
+/**
+ * Copy the status and headers of a response
+ */
+function snapshot(res: NextApiResponse): CapturedResponse {
+  return {
+    statusCode: res.statusCode,
+    headers: new Map(
+      res
+        .getHeaderNames()
+        .map((name) => [name, res.getHeader(name) as HeaderValue])
+    ),
+    chunks: [],
+    headersSent: false,
+    ended: false,
+  };
+}
+
+function copy(response: CapturedResponse): CapturedResponse {
+  return { ...response, headers: new Map(response.headers), chunks: [] };
+}
+
+/**
+ * Hold back everything the rest of the chain writes to the response,
+ * returning a function that restores the response
+ */
+function capture(res: NextApiResponse, captured: CapturedResponse) {
+  const ensureWritable = () => {
+    if (captured.headersSent) {
+      throw Object.assign(
+        new Error("Cannot set headers after they are sent to the client"),
+        { code: "ERR_HTTP_HEADERS_SENT" }
+      );
+    }
+  };
+
+  const write = (chunk: unknown, encoding?: unknown) => {
+    captured.headersSent = true;
+    if (chunk !== undefined && chunk !== null) {
+      captured.chunks.push(
+        Buffer.isBuffer(chunk)
+          ? chunk
+          : Buffer.from(
+              chunk as string,
+              typeof encoding === "string"
+                ? (encoding as BufferEncoding)
+                : undefined
+            )
+      );
+    }
+  };
+
+  const callbackOf = (args: unknown[]) =>
+    args.find((arg): arg is () => void => typeof arg === "function");
+
+  const overrides: Record<string, PropertyDescriptor> = {
+    statusCode: {
+      get: () => captured.statusCode,
+      set: (statusCode: number) => {
+        captured.statusCode = statusCode;
+      },
+    },
+    statusMessage: {
+      get: () => captured.statusMessage,
+      set: (statusMessage: string) => {
+        captured.statusMessage = statusMessage;
+      },
+    },
+    headersSent: { get: () => captured.headersSent },
+    writableEnded: { get: () => captured.ended },
+    setHeader: {
+      value(name: string, value: HeaderValue) {
+        ensureWritable();
+        captured.headers.set(name.toLowerCase(), value);
+        return res;
+      },
+    },
+    getHeader: {
+      value: (name: string) => captured.headers.get(name.toLowerCase()),
+    },
+    getHeaders: { value: () => Object.fromEntries(captured.headers) },
+    getHeaderNames: { value: () => [...captured.headers.keys()] },
+    hasHeader: {
+      value: (name: string) => captured.headers.has(name.toLowerCase()),
+    },
+    removeHeader: {
+      value(name: string) {
+        ensureWritable();
+        captured.headers.delete(name.toLowerCase());
+      },
+    },
+    writeHead: {
+      value(statusCode: number, ...args: unknown[]) {
+        ensureWritable();
+        captured.statusCode = statusCode;
+
+        for (const arg of args) {
+          if (typeof arg === "string") {
+            captured.statusMessage = arg;
+          } else if (arg && typeof arg === "object") {
+            for (const [name, value] of Object.entries(arg)) {
+              captured.headers.set(name.toLowerCase(), value as HeaderValue);
+            }
+          }
+        }
+
+        captured.headersSent = true;
+        return res;
+      },
+    },
+    write: {
+      value(chunk: unknown, ...args: unknown[]) {
+        write(chunk, args[0]);
+        callbackOf(args)?.();
+        return true;
+      },
+    },
+    end: {
+      value(...args: unknown[]) {
+        if (!captured.ended) {
+          if (typeof args[0] !== "function") {
+            write(args[0], args[1]);
+          }
+          captured.headersSent = true;
+          captured.ended = true;
+        }
+        callbackOf(args)?.();
+        return res;
+      },
+    },
+  };
+
+  const target = res as unknown as Record<string, unknown>;
+  const previous = Object.keys(overrides).map(
+    (name) => [name, Object.getOwnPropertyDescriptor(target, name)] as const
+  );
+
+  for (const [name, descriptor] of Object.entries(overrides)) {
+    Object.defineProperty(target, name, { ...descriptor, configurable: true });
+  }
+
+  return () => {
+    for (const [name, descriptor] of previous) {
+      if (descriptor) {
+        Object.defineProperty(target, name, descriptor);
+      } else {
+        delete target[name];
+      }
+    }
+  };
+}
+
+/**
+ * Answer with a captured (or cached) response, or with
+ * `304 Not Modified` when the request allows it
+ */
+function respond(
+  req: NextApiRequest,
+  res: NextApiResponse,
+  response: CapturedResponse
+) {
+  if (
+    response.ended &&
+    response.statusCode === 200 &&
+    isNotModified(req, {
+      etag: response.headers.get("etag"),
+      "last-modified": response.headers.get("last-modified"),
+    })
+  ) {
+    response.statusCode = 304;
+    response.chunks = [];
+    response.headers.delete("content-type");
+    response.headers.delete("content-length");
+  }
+
+  commit(res, response);
+}
+
+/**
+ * Write a captured response to the real response. Anything the rest
+ * of the chain writes after it finished goes straight through.
+ */
+function commit(res: NextApiResponse, response: CapturedResponse) {
+  if (res.headersSent) {
+    return;
+  }
+
+  for (const name of res.getHeaderNames()) {
+    if (!response.headers.has(name)) {
+      res.removeHeader(name);
+    }
+  }
+  for (const [name, value] of response.headers) {
+    res.setHeader(name, value);
+  }
+
+  res.statusCode = response.statusCode;
+  if (response.statusMessage) {
+    res.statusMessage = response.statusMessage;
+  }
+
+  const body = Buffer.concat(response.chunks);
+
+  if (response.ended) {
+    res.end(body);
+  } else if (response.headersSent) {
+    res.write(body);
+  }
+}
+
+function isCacheable(response: CapturedResponse): boolean {
+  const cacheControl = String(response.headers.get("cache-control") || "");
+
+  return (
+    !response.headers.has("set-cookie") &&
+    !/\b(no-store|private)\b/i.test(cacheControl)
+  );
+}
+
+/**
+ * Whether a request may get a response meant only for its user
+ */
+function hasCredentials(req: NextApiRequest): boolean {
+  return Boolean(req.headers.authorization || req.headers.cookie);
+}
+
+/**
+ * Whether a response may be shared with other users, even though
+ * the request had credentials
+ */
+function isShared(response: CapturedResponse): boolean {
+  const cacheControl = String(response.headers.get("cache-control") || "");
+
+  return /\b(public|s-maxage)\b/i.test(cacheControl);
+}
+
+/**
+ * Save the headers added by the rest of the chain, so that cached
+ * responses keep the headers of the middleware before `cache` fresh
+ */
+function toCached(
+  response: CapturedResponse,
+  before: CapturedResponse,
+  storedAt: number
+): CachedResponse {
+  const headers: Record<string, HeaderValue> = {};
+
+  for (const [name, value] of response.headers) {
+    if (JSON.stringify(value) !== JSON.stringify(before.headers.get(name))) {
+      headers[name] = value;
+    }
+  }
+
+  return {
+    status: response.statusCode,
+    headers,
+    body: Buffer.concat(response.chunks).toString("base64"),
+    storedAt,
+  };
+}
+
+function fromCache(
+  before: CapturedResponse,
+  cached: CachedResponse,
+  age: number
+): CapturedResponse {
+  const response = copy(before);
+
+  for (const [name, value] of Object.entries(cached.headers)) {
+    response.headers.set(name, value);
+  }
+  response.headers.set("age", String(Math.floor(age / 1000)));
+
+  response.statusCode = cached.status;
+  response.chunks = [Buffer.from(cached.body, "base64")];
+  response.headersSent = true;
+  response.ended = true;
+
+  return response;
+}
+
+function computeEtag(chunks: Buffer[], strength: "weak" | "strong"): string {
+  const body = Buffer.concat(chunks);
+  const hash = createHash("sha1").update(body).digest("base64").slice(0, 27);
+  const tag = `"${body.length.toString(16)}-${hash}"`;
+
+  return strength === "weak" ? `W/${tag}` : tag;
+}
+
+function opaqueTag(tag: string): string {
+  return tag.trim().replace(/^W\//, "");
+}
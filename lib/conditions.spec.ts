@@ -0,0 +1,296 @@
+import { NextApiRequest, NextApiResponse } from "next";
+import {
+  forMethods,
+  forPaths,
+  hasHeader,
+  isMethod,
+  matchesPath,
+  not,
+  unless,
+  when,
+} from "./conditions";
+import { label } from "./label";
+import { isNodeOnlyMiddleware, nodeOnly } from "./runtime";
+import { use } from "./use";
+import { Middleware, RequestWithLocals } from "./types";
+import { isValidMiddleware } from "./validation";
+import { requireBearerToken } from "./__fixtures__/web-middleware";
+
+// The Fetch API is only available globally in Node.js 18+
+const describeWithFetch =
+  typeof Request === "undefined" ? describe.skip : describe;
+
+function request(
+  method = "GET",
+  url = "/",
+  headers: Record<string, string> = {}
+) {
+  return { method, url, headers } as RequestWithLocals<NextApiRequest, {}>;
+}
+
+// Mocks returning `any` would be taken for web middleware
+const mockMiddleware = (fn: Middleware) =>
+  jest.fn<ReturnType<Middleware>, Parameters<Middleware>>(fn);
+
+describe("when", () => {
+  it("creates valid middleware", () => {
+    const conditional = when(
+      () => true,
+      async (req, res, next) => next()
+    );
+
+    expect(isValidMiddleware(conditional)).toBe(true);
+  });
+
+  it("runs middleware only when the predicate holds", async () => {
+    const middleware = mockMiddleware((req, res, next) => next());
+    const handler = jest.fn();
+    const wrapped = use(when((req) => req.method === "POST", middleware))(
+      handler
+    );
+
+    await wrapped(request("GET"), {} as NextApiResponse);
+    expect(middleware).not.toHaveBeenCalled();
+    expect(handler).toHaveBeenCalledTimes(1);
+
+    await wrapped(request("POST"), {} as NextApiResponse);
+    expect(middleware).toHaveBeenCalledTimes(1);
+    expect(handler).toHaveBeenCalledTimes(2);
+  });
+
+  it("supports async predicates", async () => {
+    const middleware = mockMiddleware(async (req, res, next) => next());
+    const handler = jest.fn();
+    const wrapped = use(
+      when(
+        async (req) => (req as NextApiRequest).headers["x-beta"] === "1",
+        middleware
+      )
+    )(handler);
+
+    await wrapped(
+      request("GET", "/", { "x-beta": "1" }),
+      {} as NextApiResponse
+    );
+    await wrapped(request("GET"), {} as NextApiResponse);
+
+    expect(middleware).toHaveBeenCalledTimes(1);
+    expect(handler).toHaveBeenCalledTimes(2);
+  });
+
+  it("keeps teardown order, whether or not the middleware runs", async () => {
+    for (const matched of [true, false]) {
+      const log: string[] = [];
+
+      const outer: Middleware = async (req, res, next) => {
+        log.push("setup outer");
+        await next();
+        log.push("teardown outer");
+      };
+
+      const inner: Middleware = async (req, res, next) => {
+        log.push("setup inner");
+        await next();
+        log.push("teardown inner");
+      };
+
+      const sync: Middleware = (req, res, next) => {
+        log.push("sync");
+        next();
+      };
+
+      await use(
+        outer,
+        when(async () => matched, sync),
+        when(() => matched, inner)
+      )(() => {
+        log.push("handler");
+      })(request(), {} as NextApiResponse);
+
+      expect(log).toEqual(
+        matched
+          ? [
+              "setup outer",
+              "sync",
+              "setup inner",
+              "handler",
+              "teardown inner",
+              "teardown outer",
+            ]
+          : ["setup outer", "handler", "teardown outer"]
+      );
+    }
+  });
+
+  it("lets errors reach earlier middleware", async () => {
+    const error = new Error("Handler failed");
+    const caught = jest.fn();
+
+    await use(
+      async (req, res, next) => {
+        try {
+          await next();
+        } catch (err) {
+          caught(err);
+        }
+      },
+      when(
+        () => false,
+        async (req, res, next) => next()
+      )
+    )(() => {
+      throw error;
+    })(request(), {} as NextApiResponse);
+
+    expect(caught).toHaveBeenCalledWith(error);
+  });
+
+  it("keeps middleware Node-only", () => {
+    expect(
+      isNodeOnlyMiddleware(
+        when(
+          () => true,
+          nodeOnly(async (req, res, next) => next())
+        )
+      )
+    ).toBe(true);
+    expect(
+      isNodeOnlyMiddleware(
+        when(
+          () => true,
+          async (req, res, next) => next()
+        )
+      )
+    ).toBe(false);
+  });
+
+  it("works inside label groups", async () => {
+    const middleware = mockMiddleware(async (req, res, next) => next());
+    const withMiddleware = label({
+      writes: [forMethods(["POST", "PUT"], middleware)],
+    });
+
+    await withMiddleware("writes")(jest.fn())(
+      request("PUT"),
+      {} as NextApiResponse
+    );
+    await withMiddleware("writes")(jest.fn())(
+      request("GET"),
+      {} as NextApiResponse
+    );
+
+    expect(middleware).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("unless", () => {
+  it("runs middleware only when the predicate does not hold", async () => {
+    const middleware = mockMiddleware(async (req, res, next) => next());
+    const wrapped = use(unless(hasHeader("x-internal"), middleware))(jest.fn());
+
+    await wrapped(
+      request("GET", "/", { "x-internal": "1" }),
+      {} as NextApiResponse
+    );
+    await wrapped(request("GET"), {} as NextApiResponse);
+
+    expect(middleware).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("forPaths", () => {
+  it("runs middleware for matching paths", async () => {
+    const middleware = mockMiddleware(async (req, res, next) => next());
+    const wrapped = use(forPaths("/api/admin/*", middleware))(jest.fn());
+
+    await wrapped(
+      request("GET", "/api/admin/users?page=2"),
+      {} as NextApiResponse
+    );
+    await wrapped(request("GET", "/api/users"), {} as NextApiResponse);
+
+    expect(middleware).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("predicates", () => {
+  it("matches HTTP methods", () => {
+    expect(isMethod("GET", "HEAD")(request("HEAD"))).toBe(true);
+    expect(isMethod("GET", "HEAD")(request("get"))).toBe(true);
+    expect(isMethod("GET", "HEAD")(request("POST"))).toBe(false);
+  });
+
+  it("matches paths", () => {
+    const matches = matchesPath("/api/users/:id", "/api/files/*", /^\/v\d+\//);
+
+    expect(matches(request("GET", "/api/users/1"))).toBe(true);
+    expect(matches(request("GET", "/api/users/1/"))).toBe(true);
+    expect(matches(request("GET", "/api/users/1?expand=true"))).toBe(true);
+    expect(matches(request("GET", "/api/users"))).toBe(false);
+    expect(matches(request("GET", "/api/users/1/posts"))).toBe(false);
+    expect(matches(request("GET", "/api/files/a/b.txt"))).toBe(true);
+    expect(matches(request("GET", "/api/files"))).toBe(true);
+    expect(matches(request("GET", "/api/files/"))).toBe(true);
+    expect(matches(request("GET", "/api/filesystem"))).toBe(false);
+    expect(matches(request("GET", "/v2/status"))).toBe(true);
+  });
+
+  it("escapes special characters in paths", () => {
+    const matches = matchesPath("/api/file.json");
+
+    expect(matches(request("GET", "/api/file.json"))).toBe(true);
+    expect(matches(request("GET", "/api/filexjson"))).toBe(false);
+  });
+
+  it("matches header presence", () => {
+    expect(
+      hasHeader("X-Api-Key")(request("GET", "/", { "x-api-key": "" }))
+    ).toBe(true);
+    expect(hasHeader("X-Api-Key")(request("GET"))).toBe(false);
+  });
+
+  it("inverts predicates", async () => {
+    expect(not(() => true)(request())).toBe(false);
+    await expect(not(async () => false)(request())).resolves.toBe(true);
+  });
+});
+
+describeWithFetch("with App Router route handlers", () => {
+  it("runs web middleware only when the predicate holds", async () => {
+    const handler = jest.fn(async () => new Response("OK"));
+    const wrapped = use(forPaths("/api/private/*", requireBearerToken))(
+      handler
+    );
+
+    const open = await wrapped(
+      new Request("https://example.com/api/public"),
+      {}
+    );
+    const denied = await wrapped(
+      new Request("https://example.com/api/private/data"),
+      {}
+    );
+    const allowed = await wrapped(
+      new Request("https://example.com/api/private/data", {
+        headers: { Authorization: "Bearer secret" },
+      }),
+      {}
+    );
+
+    expect(open.status).toBe(200);
+    expect(denied.status).toBe(401);
+    expect(allowed.status).toBe(200);
+    expect(handler).toHaveBeenCalledTimes(2);
+  });
+
+  it("matches headers on Fetch requests", () => {
+    const matches = hasHeader("Authorization");
+    const request = (init?: RequestInit) =>
+      Object.assign(new Request("https://example.com", init), { locals: {} });
+
+    expect(
+      matches(request({ headers: { Authorization: "Bearer secret" } }))
+    ).toBe(true);
+    expect(matches(request())).toBe(false);
+  });
+});
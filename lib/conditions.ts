@@ -0,0 +1,229 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { isWebRequest } from "./executor";
+import { HttpMethod } from "./methods";
+import { isPromise } from "./promises";
+import { isNodeOnlyMiddleware, nodeOnly } from "./runtime";
+import {
+  AnyMiddleware,
+  LocalsOf,
+  Middleware,
+  RequestWithLocals,
+  WebMiddleware,
+} from "./types";
+
+/**
+ * Decides whether conditional middleware runs for a request
+ */
+export type RequestPredicate = (
+  req: RequestWithLocals<NextApiRequest | Request, any>
+) => boolean | Promise<boolean>;
+
+/**
+ * A path such as `"/api/users/:id"` or `"/api/admin/*"`, or
+ * a regular expression tested against the request's path
+ */
+export type PathPattern = string | RegExp;
+
+/**
+ * Middleware that only runs for some requests, so what it
+ * adds to `req.locals` may be missing
+ */
+export type ConditionalMiddleware<M> = [M] extends [WebMiddleware<any, any>]
+  ? WebMiddleware<any, Partial<LocalsOf<M>>>
+  : Middleware<NextApiRequest, NextApiResponse, Partial<LocalsOf<M>>>;
+
+/**
+ * Run middleware only for requests that match a predicate.
+ * Other requests continue straight to the rest of the chain.
+ */
+export function when<
+  M extends Middleware<NextApiRequest, NextApiResponse, any>
+>(predicate: RequestPredicate, middleware: M): ConditionalMiddleware<M>;
+export function when<M extends WebMiddleware<any, any>>(
+  predicate: RequestPredicate,
+  middleware: M
+): ConditionalMiddleware<M>;
+export function when(
+  predicate: RequestPredicate,
+  middleware: AnyMiddleware
+): unknown {
+  const name = `when(${middleware.name || "anonymous"})`;
+
+  const conditional = {
+    // Keep the middleware name in error messages
+    [name]: function (req: any, resOrContext: any, next: any) {
+      const matches = predicate(req);
+
+      if (isPromise<boolean>(matches)) {
+        return matches.then((matched) =>
+          run(matched, middleware, req, resOrContext, next)
+        );
+      }
+
+      return run(matches, middleware, req, resOrContext, next);
+    },
+  }[name];
+
+  if (isNodeOnlyMiddleware(middleware)) {
+    nodeOnly(conditional);
+  }
+
+  return conditional;
+}
+
+/**
+ * Run middleware only for requests that do not match a predicate
+ */
+export function unless<
+  M extends Middleware<NextApiRequest, NextApiResponse, any>
+>(predicate: RequestPredicate, middleware: M): ConditionalMiddleware<M>;
+export function unless<M extends WebMiddleware<any, any>>(
+  predicate: RequestPredicate,
+  middleware: M
+): ConditionalMiddleware<M>;
+export function unless(
+  predicate: RequestPredicate,
+  middleware: AnyMiddleware
+): unknown {
+  return when(not(predicate), middleware as Middleware);
+}
+
+/**
+ * Run middleware only for requests with one of the given HTTP methods
+ */
+export function forMethods<
+  M extends Middleware<NextApiRequest, NextApiResponse, any>
+>(methods: HttpMethod | HttpMethod[], middleware: M): ConditionalMiddleware<M>;
+export function forMethods<M extends WebMiddleware<any, any>>(
+  methods: HttpMethod | HttpMethod[],
+  middleware: M
+): ConditionalMiddleware<M>;
+export function forMethods(
+  methods: HttpMethod | HttpMethod[],
+  middleware: AnyMiddleware
+): unknown {
+  return when(
+    isMethod(...(Array.isArray(methods) ? methods : [methods])),
+    middleware as Middleware
+  );
+}
+
+/**
+ * Run middleware only for requests whose path matches one of the patterns
+ */
+export function forPaths<
+  M extends Middleware<NextApiRequest, NextApiResponse, any>
+>(
+  patterns: PathPattern | PathPattern[],
+  middleware: M
+): ConditionalMiddleware<M>;
+export function forPaths<M extends WebMiddleware<any, any>>(
+  patterns: PathPattern | PathPattern[],
+  middleware: M
+): ConditionalMiddleware<M>;
+export function forPaths(
+  patterns: PathPattern | PathPattern[],
+  middleware: AnyMiddleware
+): unknown {
+  return when(
+    matchesPath(...(Array.isArray(patterns) ? patterns : [patterns])),
+    middleware as Middleware
+  );
+}
+
+/**
+ * Match requests with one of the given HTTP methods
+ */
+export function isMethod(...methods: HttpMethod[]): RequestPredicate {
+  return (req) => methods.includes(req.method?.toUpperCase() as HttpMethod);
+}
+
+/**
+ * Match requests whose path (without the query string) matches one
+ * of the patterns. In string patterns, `:name` matches a single path
+ * segment and `*` matches anything.
+ */
+export function matchesPath(...patterns: PathPattern[]): RequestPredicate {
+  const expressions = patterns.map((pattern) =>
+    typeof pattern === "string" ? pathToRegExp(pattern) : pattern
+  );
+
+  return (req) => {
+    const path = new URL(req.url || "/", "http://localhost").pathname;
+    return expressions.some((expression) => expression.test(path));
+  };
+}
+
+/**
+ * Match requests that include a header
+ */
+export function hasHeader(name: string): RequestPredicate {
+  return (req) =>
+    isWebRequest(req)
+      ? req.headers.has(name)
+      : req.headers[name.toLowerCase()] !== undefined;
+}
+
+/**
+ * Invert a predicate
+ */
+export function not(predicate: RequestPredicate): RequestPredicate {
+  return (req) => {
+    const matches = predicate(req);
+    return isPromise<boolean>(matches)
+      ? matches.then((matched) => !matched)
+      : !matches;
+  };
+}
+
+/**
+ * Call the middleware, or continue straight to the rest of the chain
+ */
+function run(
+  matched: boolean,
+  middleware: AnyMiddleware,
+  req: any,
+  resOrContext: any,
+  next: (...args: any[]) => any
+) {
+  if (!matched) {
+    return next();
+  }
+
+  let downstream: unknown;
+  const result = (middleware as Function)(
+    req,
+    resOrContext,
+    (...args: any[]) => {
+      downstream = next(...args);
+      return downstream;
+    }
+  );
+
+  // Synchronous middleware settles with the rest of the chain, so
+  // the wrapper does not finish early when the predicate is async
+  return result ?? downstream;
+}
+
+function pathToRegExp(pattern: string): RegExp {
+  const segments = pattern.replace(/\/+$/, "").split("/");
+
+  // A trailing `/*` also matches the path itself (`"/x/*"` matches `"/x"`)
+  const anyRest = segments.length > 1 && segments[segments.length - 1] === "*";
+
+  if (anyRest) {
+    segments.pop();
+  }
+
+  const source = segments
+    .map((segment) =>
+      segment === "*"
+        ? ".*"
+        : segment.startsWith(":")
+        ? "[^/]+"
+        : segment.replace(/[.+?^${}()|[\]\\*]/g, "\\$&")
+    )
+    .join("/");
+
+  return new RegExp(`^${source}${anyRest ? "(?:/.*)?" : ""}/?$`);
+}
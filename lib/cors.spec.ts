@@ -0,0 +1,246 @@
+import { cors, webCors } from "./cors";
+import { isNodeOnlyMiddleware } from "./runtime";
+import { runMiddleware } from "./testing";
+import { use } from "./use";
+
+const preflight = (origin: string, headers: Record<string, string> = {}) => ({
+  method: "OPTIONS",
+  headers: {
+    Origin: origin,
+    "Access-Control-Request-Method": "POST",
+    ...headers,
+  },
+});
+
+describe("cors", () => {
+  it("allows any origin by default", async () => {
+    const { res, handlerCalled } = await runMiddleware(
+      cors(),
+      (_req, res) => res.json({}),
+      { headers: { Origin: "https://example.com" } }
+    );
+
+    expect(handlerCalled).toBe(true);
+    expect(res.getHeader("Access-Control-Allow-Origin")).toBe("*");
+    expect(res.getHeader("Vary")).toBeUndefined();
+  });
+
+  it("reflects allowed origins and varies on Origin", async () => {
+    const middleware = cors({
+      origin: ["https://example.com", /\.example\.org$/],
+    });
+
+    for (const origin of ["https://example.com", "https://app.example.org"]) {
+      const { res } = await runMiddleware(
+        middleware,
+        (_req, res) => res.end(),
+        {
+          headers: { Origin: origin },
+        }
+      );
+
+      expect(res.getHeader("Access-Control-Allow-Origin")).toBe(origin);
+      expect(res.getHeader("Vary")).toBe("Origin");
+    }
+  });
+
+  it("matches global and sticky patterns on every request", async () => {
+    for (const pattern of [/\.example\.org$/g, /https:\/\/app\./y]) {
+      const middleware = cors({ origin: pattern });
+
+      for (let i = 0; i < 2; i++) {
+        const { res } = await runMiddleware(
+          middleware,
+          (_req, res) => res.end(),
+          { headers: { Origin: "https://app.example.org" } }
+        );
+
+        expect(res.getHeader("Access-Control-Allow-Origin")).toBe(
+          "https://app.example.org"
+        );
+      }
+    }
+  });
+
+  it("leaves out CORS headers for other origins", async () => {
+    const { res, handlerCalled } = await runMiddleware(
+      cors({ origin: "https://example.com" }),
+      (_req, res) => res.end(),
+      { headers: { Origin: "https://evil.example" } }
+    );
+
+    expect(handlerCalled).toBe(true);
+    expect(res.getHeader("Access-Control-Allow-Origin")).toBeUndefined();
+    expect(res.getHeader("Vary")).toBe("Origin");
+  });
+
+  it("checks origins with async functions", async () => {
+    const isAllowed = jest.fn(async (origin: string) =>
+      origin.endsWith(".test")
+    );
+    const middleware = cors({ origin: isAllowed });
+
+    const allowed = await runMiddleware(middleware, (_req, res) => res.end(), {
+      headers: { Origin: "https://a.test" },
+    });
+    const denied = await runMiddleware(middleware, (_req, res) => res.end(), {
+      headers: { Origin: "https://a.example" },
+    });
+
+    expect(isAllowed).toHaveBeenCalledWith("https://a.test", allowed.req);
+    expect(allowed.res.getHeader("Access-Control-Allow-Origin")).toBe(
+      "https://a.test"
+    );
+    expect(denied.res.getHeader("Access-Control-Allow-Origin")).toBeUndefined();
+  });
+
+  it("adds credentials and exposed headers", async () => {
+    const { res } = await runMiddleware(
+      cors({
+        origin: "https://example.com",
+        credentials: true,
+        exposedHeaders: ["X-Request-ID", "X-Total-Count"],
+      }),
+      (_req, res) => res.end(),
+      { headers: { Origin: "https://example.com" } }
+    );
+
+    expect(res.getHeader("Access-Control-Allow-Credentials")).toBe("true");
+    expect(res.getHeader("Access-Control-Expose-Headers")).toBe(
+      "X-Request-ID, X-Total-Count"
+    );
+  });
+
+  it("refuses credentials for every origin", () => {
+    expect(() => cors({ credentials: true })).toThrow(
+      'CORS credentials cannot be allowed for every origin ("*")'
+    );
+  });
+
+  it("keeps existing Vary fields", async () => {
+    const { res } = await runMiddleware(
+      [
+        async function varyOnEncoding(_req, res, next) {
+          res.setHeader("Vary", "Accept-Encoding");
+          await next();
+        },
+        cors({ origin: "https://example.com" }),
+      ],
+      (_req, res) => res.end()
+    );
+
+    expect(res.getHeader("Vary")).toBe("Accept-Encoding, Origin");
+  });
+
+  it("is marked as Node.js only", () => {
+    expect(isNodeOnlyMiddleware(cors())).toBe(true);
+  });
+
+  describe("preflight requests", () => {
+    it("are answered without running the rest of the chain", async () => {
+      const after = jest.fn(async (_req, _res, next) => next());
+
+      const { res, trace, handlerCalled } = await runMiddleware(
+        [cors({ maxAge: 600 }), after],
+        undefined,
+        preflight("https://example.com", {
+          "Access-Control-Request-Headers": "Content-Type, Authorization",
+        })
+      );
+
+      expect(handlerCalled).toBe(false);
+      expect(after).not.toHaveBeenCalled();
+      expect(trace).toEqual([
+        { name: "cors", stackPosition: 1, phase: "setup" },
+      ]);
+      expect(res.statusCode).toBe(204);
+      expect(res.writableEnded).toBe(true);
+      expect(res.getHeaders()).toMatchObject({
+        "access-control-allow-origin": "*",
+        "access-control-allow-methods": "GET, HEAD, PUT, PATCH, POST, DELETE",
+        "access-control-allow-headers": "Content-Type, Authorization",
+        "access-control-max-age": "600",
+        vary: "Access-Control-Request-Headers",
+      });
+    });
+
+    it("allow the configured methods and headers", async () => {
+      const { res } = await runMiddleware(
+        cors({
+          origin: "https://example.com",
+          methods: ["GET", "POST"],
+          allowedHeaders: ["Content-Type"],
+        }),
+        undefined,
+        preflight("https://example.com", {
+          "Access-Control-Request-Headers": "X-Anything",
+        })
+      );
+
+      expect(res.getHeader("Access-Control-Allow-Methods")).toBe("GET, POST");
+      expect(res.getHeader("Access-Control-Allow-Headers")).toBe(
+        "Content-Type"
+      );
+      expect(res.getHeader("Vary")).toBe("Origin");
+    });
+
+    it("from other origins are answered without CORS headers", async () => {
+      const { res, handlerCalled } = await runMiddleware(
+        cors({ origin: "https://example.com" }),
+        undefined,
+        preflight("https://evil.example")
+      );
+
+      expect(handlerCalled).toBe(false);
+      expect(res.statusCode).toBe(204);
+      expect(res.getHeader("Access-Control-Allow-Origin")).toBeUndefined();
+      expect(res.getHeader("Access-Control-Allow-Methods")).toBeUndefined();
+    });
+
+    it("do not include plain OPTIONS requests", async () => {
+      const { handlerCalled } = await runMiddleware(
+        cors(),
+        (_req, res) => res.end(),
+        { method: "OPTIONS", headers: { Origin: "https://example.com" } }
+      );
+
+      expect(handlerCalled).toBe(true);
+    });
+  });
+});
+
+describe("webCors", () => {
+  const call = (middleware: ReturnType<typeof webCors>, init: RequestInit) =>
+    use(middleware)(async () =>
+      Response.redirect("https://example.com/elsewhere")
+    )(new Request("https://example.com/api", init), {});
+
+  it("adds CORS headers to a copy of the response", async () => {
+    const response = await call(
+      webCors({ origin: "https://example.com", exposedHeaders: ["ETag"] }),
+      { headers: { Origin: "https://example.com" } }
+    );
+
+    expect(response.status).toBe(302);
+    expect(response.headers.get("Access-Control-Allow-Origin")).toBe(
+      "https://example.com"
+    );
+    expect(response.headers.get("Access-Control-Expose-Headers")).toBe("ETag");
+    expect(response.headers.get("Vary")).toBe("Origin");
+  });
+
+  it("answers preflight requests", async () => {
+    const response = await call(
+      webCors({ maxAge: 600 }),
+      preflight("https://example.com")
+    );
+
+    expect(response.status).toBe(204);
+    expect(response.headers.get("Access-Control-Allow-Origin")).toBe("*");
+    expect(response.headers.get("Access-Control-Max-Age")).toBe("600");
+  });
+
+  it("is not marked as Node.js only", () => {
+    expect(isNodeOnlyMiddleware(webCors())).toBe(false);
+  });
+});
@@ -0,0 +1,282 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { appendVary, appendWebVary } from "./headers";
+import { HttpMethod } from "./methods";
+import { nodeOnly } from "./runtime";
+import { Middleware, WebMiddleware } from "./types";
+
+/**
+ * Decides whether a request origin may read responses
+ */
+export type OriginCheck<Req = NextApiRequest> = (
+  origin: string,
+  req: Req
+) => boolean | Promise<boolean>;
+
+/**
+ * The origins allowed by `cors`: `"*"` for any origin, an exact origin
+ * such as `"https://example.com"`, a regular expression, a function,
+ * or a list of strings and regular expressions
+ */
+export type CorsOrigin<Req = NextApiRequest> =
+  | string
+  | RegExp
+  | (string | RegExp)[]
+  | OriginCheck<Req>;
+
+export type CorsOptions<Req = NextApiRequest> = {
+  /**
+   * Defaults to `"*"`
+   */
+  origin?: CorsOrigin<Req>;
+
+  /**
+   * Methods allowed in preflight responses
+   * (defaults to every method except `OPTIONS`)
+   */
+  methods?: HttpMethod[];
+
+  /**
+   * Request headers allowed in preflight responses (defaults
+   * to the headers the preflight request asks for)
+   */
+  allowedHeaders?: string[];
+
+  /**
+   * Response headers that the browser may expose to scripts
+   */
+  exposedHeaders?: string[];
+
+  /**
+   * Allow cookies and other credentials (requires specific origins)
+   */
+  credentials?: boolean;
+
+  /**
+   * Seconds the browser may cache preflight responses
+   */
+  maxAge?: number;
+};
+
+const defaultMethods: HttpMethod[] = [
+  "GET",
+  "HEAD",
+  "PUT",
+  "PATCH",
+  "POST",
+  "DELETE",
+];
+
+/**
+ * What `cors` and `webCors` do for a request
+ */
+type CorsDecision = {
+  /**
+   * Whether to answer with `204 No Content` instead
+   * of running the rest of the chain
+   */
+  preflight: boolean;
+
+  headers: [name: string, value: string][];
+
+  /**
+   * Fields to add to the `Vary` header
+   */
+  vary: string[];
+};
+
+/**
+ * The parts of a request that CORS depends on
+ */
+type CorsRequest = {
+  method?: string;
+  header(name: string): string | undefined;
+};
+
+/**
+ * Create middleware that adds CORS headers for allowed origins.
+ *
+ * Preflight requests (`OPTIONS` requests with an
+ * `Access-Control-Request-Method` header) are answered with
+ * `204 No Content`, without running the rest of the chain.
+ * Requests from other origins continue without CORS headers,
+ * so the browser keeps their responses from scripts.
+ */
+export function cors(
+  options: CorsOptions = {}
+): Middleware<NextApiRequest, NextApiResponse> {
+  const decide = corsPolicy(options);
+
+  return nodeOnly(async function cors(req, res, next) {
+    const decision = await decide(
+      {
+        method: req.method,
+        header: (name) => {
+          const value = req.headers[name.toLowerCase()];
+          return Array.isArray(value) ? value.join(", ") : value;
+        },
+      },
+      req
+    );
+
+    for (const field of decision.vary) {
+      appendVary(res, field);
+    }
+    for (const [name, value] of decision.headers) {
+      res.setHeader(name, value);
+    }
+
+    if (!decision.preflight) {
+      await next();
+      return;
+    }
+
+    // Preflight requests never reach the API route handler
+    res.statusCode = 204;
+    res.setHeader("Content-Length", "0");
+    res.end();
+  });
+}
+
+/**
+ * Create middleware for App Router route handlers (in either runtime)
+ * that adds CORS headers for allowed origins, like `cors`
+ */
+export function webCors<Context = any>(
+  options: CorsOptions<Request> = {}
+): WebMiddleware<Context> {
+  const decide = corsPolicy(options);
+
+  return async function cors(request, _context, next) {
+    const decision = await decide(
+      {
+        method: request.method,
+        header: (name) => request.headers.get(name) ?? undefined,
+      },
+      request
+    );
+
+    // Copy the response, whose headers may be immutable
+    const downstream = decision.preflight ? undefined : await next();
+    const response = downstream
+      ? new Response(downstream.body, downstream)
+      : new Response(null, { status: 204 });
+
+    for (const field of decision.vary) {
+      appendWebVary(response.headers, field);
+    }
+    for (const [name, value] of decision.headers) {
+      response.headers.set(name, value);
+    }
+
+    return response;
+  };
+}
+
+/**
+ * Check CORS options, returning a function that decides
+ * which headers a request gets
+ */
+function corsPolicy<Req>(options: CorsOptions<Req>) {
+  const { origin = "*", credentials = false } = options;
+
+  if (origin === "*" && credentials) {
+    throw new Error(
+      'CORS credentials cannot be allowed for every origin ("*"); list the allowed origins instead'
+    );
+  }
+
+  const isAllowed = originCheck(origin);
+  const methods = (options.methods || defaultMethods).join(", ");
+
+  return async function decide(
+    request: CorsRequest,
+    req: Req
+  ): Promise<CorsDecision> {
+    const requestOrigin = request.header("Origin");
+    const decision: CorsDecision = { preflight: false, headers: [], vary: [] };
+
+    if (origin !== "*") {
+      // The response depends on the origin, so caches must keep them apart
+      decision.vary.push("Origin");
+    }
+
+    const allowed =
+      typeof requestOrigin === "string" &&
+      (await isAllowed(requestOrigin, req));
+
+    decision.preflight =
+      request.method?.toUpperCase() === "OPTIONS" &&
+      request.header("Access-Control-Request-Method") !== undefined;
+
+    if (allowed) {
+      decision.headers.push([
+        "Access-Control-Allow-Origin",
+        origin === "*" ? "*" : requestOrigin,
+      ]);
+
+      if (credentials) {
+        decision.headers.push(["Access-Control-Allow-Credentials", "true"]);
+      }
+    }
+
+    if (!decision.preflight) {
+      if (allowed && options.exposedHeaders?.length) {
+        decision.headers.push([
+          "Access-Control-Expose-Headers",
+          options.exposedHeaders.join(", "),
+        ]);
+      }
+
+      return decision;
+    }
+
+    if (allowed) {
+      decision.headers.push(["Access-Control-Allow-Methods", methods]);
+
+      const allowedHeaders = options.allowedHeaders
+        ? options.allowedHeaders.join(", ")
+        : request.header("Access-Control-Request-Headers");
+
+      if (!options.allowedHeaders) {
+        decision.vary.push("Access-Control-Request-Headers");
+      }
+
+      if (allowedHeaders) {
+        decision.headers.push(["Access-Control-Allow-Headers", allowedHeaders]);
+      }
+
+      if (options.maxAge !== undefined) {
+        decision.headers.push([
+          "Access-Control-Max-Age",
+          String(options.maxAge),
+        ]);
+      }
+    }
+
+    return decision;
+  };
+}
+
+function originCheck<Req>(origin: CorsOrigin<Req>): OriginCheck<Req> {
+  if (typeof origin === "function") {
+    return origin;
+  }
+
+  if (origin === "*") {
+    return () => true;
+  }
+
+  // Without the `g` and `y` flags, `test` keeps no state between requests
+  const allowlist = (Array.isArray(origin) ? origin : [origin]).map((allowed) =>
+    typeof allowed === "string"
+      ? allowed
+      : new RegExp(allowed.source, allowed.flags.replace(/[gy]/g, ""))
+  );
+
+  return (requestOrigin) =>
+    allowlist.some((allowed) =>
+      typeof allowed === "string"
+        ? allowed === requestOrigin
+        : allowed.test(requestOrigin)
+    );
+}
@@ -0,0 +1,101 @@
+import { defineMiddleware } from "./define-middleware";
+import { label } from "./label";
+import { runMiddleware } from "./testing";
+
+function definePool() {
+  const pool = { end: jest.fn() };
+  const init = jest.fn(async (options: { url: string }) => pool);
+  const database = defineMiddleware<
+    { url: string },
+    typeof pool,
+    { pool: typeof pool }
+  >({
+    name: "database",
+    options: { url: "postgres://localhost" },
+    init,
+    handler: async (req, res, next, { resource }) => {
+      req.locals.pool = resource;
+      await next();
+    },
+    dispose: (pool) => pool.end(),
+  });
+
+  return { pool, init, database };
+}
+
+describe("defineMiddleware", () => {
+  it("initializes once, on the first request", async () => {
+    const { pool, init, database } = definePool();
+
+    expect(init).not.toBeCalled();
+
+    const results = await Promise.all(
+      [1, 2, 3].map(() => runMiddleware(database, (req, res) => res.end(), {}))
+    );
+
+    expect(init).toBeCalledTimes(1);
+    expect(init).toBeCalledWith({ url: "postgres://localhost" });
+    expect(results.map(({ req }) => req.locals.pool)).toEqual([
+      pool,
+      pool,
+      pool,
+    ]);
+  });
+
+  it("retries a failed init on the next request", async () => {
+    const init = jest
+      .fn()
+      .mockRejectedValueOnce(new Error("Connection refused"))
+      .mockResolvedValueOnce("connected");
+    const database = defineMiddleware({
+      name: "database",
+      init,
+      handler: async (req, res, next, { resource }) => {
+        res.setHeader("X-Resource", resource);
+        await next();
+      },
+    });
+
+    await expect(
+      runMiddleware(database, (_req, res) => res.end())
+    ).rejects.toThrowError("Connection refused");
+
+    const { res } = await runMiddleware(database, (_req, res) => res.end());
+
+    expect(init).toBeCalledTimes(2);
+    expect(res.getHeader("X-Resource")).toBe("connected");
+  });
+
+  it("disposes of the setup, which runs again afterwards", async () => {
+    const { pool, init, database } = definePool();
+
+    await database.dispose();
+    expect(pool.end).not.toBeCalled();
+
+    await runMiddleware(database, (_req, res) => res.end());
+    await database.dispose();
+
+    expect(pool.end).toBeCalledTimes(1);
+
+    await runMiddleware(database, (_req, res) => res.end());
+
+    expect(init).toBeCalledTimes(2);
+  });
+
+  it("has a stable name and exposes its options", () => {
+    const { database } = definePool();
+    const withMiddleware = label({ database });
+
+    expect(database.name).toBe("database");
+    expect(database.length).toBe(3);
+    expect(withMiddleware.middleware.database.options).toEqual({
+      url: "postgres://localhost",
+    });
+  });
+
+  it("requires a name", () => {
+    expect(() =>
+      defineMiddleware({ name: "", handler: async (req, res, next) => next() })
+    ).toThrowError("defineMiddleware() needs a name");
+  });
+});
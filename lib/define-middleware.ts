@@ -0,0 +1,142 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { Middleware, RequestWithLocals } from "./types";
+
+/**
+ * What `defineMiddleware` passes to the handler
+ */
+export type MiddlewareSetup<Options, Resource> = {
+  /**
+   * The result of `init`, shared by every request
+   */
+  resource: Resource;
+
+  options: Options;
+};
+
+export type MiddlewareDefinition<
+  Options,
+  Resource,
+  Added extends object = {}
+> = {
+  /**
+   * The name of the middleware in errors and instrumentation hooks,
+   * which survives minification
+   */
+  name: string;
+
+  options?: Options;
+
+  /**
+   * One-time setup (e.g. creating a database pool), run on the first
+   * request rather than at import time. When it fails, the request
+   * fails and the next request tries again.
+   */
+  init?: (options: Options) => Resource | Promise<Resource>;
+
+  handler: (
+    req: RequestWithLocals<NextApiRequest, Partial<Added>>,
+    res: NextApiResponse,
+    next: () => Promise<void>,
+    setup: MiddlewareSetup<Options, Resource>
+  ) => Promise<void>;
+
+  /**
+   * Release what `init` created, e.g. close a database pool
+   */
+  dispose?: (resource: Resource) => void | Promise<void>;
+};
+
+/**
+ * Middleware created with `defineMiddleware`
+ */
+export type DefinedMiddleware<
+  Options = undefined,
+  Added extends object = {}
+> = Middleware<NextApiRequest, NextApiResponse, Added> & {
+  /**
+   * The options the middleware was defined with
+   */
+  readonly options: Options;
+
+  /**
+   * Tear down the shared setup (waiting for it, if it is in progress).
+   * The next request runs `init` again.
+   */
+  dispose(): Promise<void>;
+};
+
+/**
+ * Define middleware with a stable name and options, whose expensive
+ * setup runs once, on the first request that needs it
+ */
+export function defineMiddleware<
+  Options = undefined,
+  Resource = undefined,
+  Added extends object = {}
+>(
+  definition: MiddlewareDefinition<Options, Resource, Added>
+): DefinedMiddleware<Options, Added> {
+  const { name, init, handler } = definition;
+  const options = definition.options as Options;
+
+  if (typeof name !== "string" || name === "") {
+    throw new TypeError("defineMiddleware() needs a name");
+  }
+
+  // Shared by concurrent requests while it is in progress
+  let setup: Promise<Resource> | undefined;
+
+  function initialize(): Promise<Resource> {
+    if (!setup) {
+      const started = Promise.resolve().then(() =>
+        init ? init(options) : (undefined as Resource)
+      );
+
+      // Let the next request try again when setup fails
+      started.catch(() => {
+        if (setup === started) {
+          setup = undefined;
+        }
+      });
+
+      setup = started;
+    }
+
+    return setup;
+  }
+
+  // Name the function after the definition, for diagnostics
+  const middleware = {
+    [name]: async function (
+      req: RequestWithLocals<NextApiRequest, Partial<Added>>,
+      res: NextApiResponse,
+      next: () => Promise<void>
+    ) {
+      const resource = await initialize();
+      await handler(req, res, next, { resource, options });
+    },
+  }[name];
+
+  return Object.assign(middleware, {
+    options,
+
+    async dispose() {
+      const current = setup;
+      setup = undefined;
+
+      if (!current || !definition.dispose) {
+        return;
+      }
+
+      let resource: Resource;
+      try {
+        resource = await current;
+      } catch {
+        // Nothing was set up
+        return;
+      }
+
+      await definition.dispose(resource);
+    },
+  }) as DefinedMiddleware<Options, Added>;
+}
@@ -0,0 +1,116 @@
+import { NextApiRequest, NextApiResponse } from "next";
+import { keyed, middlewareKey } from "./duplicates";
+import { label } from "./label";
+import { Middleware } from "./types";
+import { use } from "./use";
+
+const noop = () =>
+  jest.fn<Promise<void>, Parameters<Middleware>>((req, res, next) => next());
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe("keyed", () => {
+  it("gives middleware a key", () => {
+    const fn = keyed("cors", noop());
+
+    expect(middlewareKey(fn)).toBe("cors");
+    expect(middlewareKey(noop())).toBeUndefined();
+  });
+});
+
+describe("duplicates", () => {
+  it("allows duplicates by default", async () => {
+    const timing = noop();
+
+    await use(timing, [timing])(jest.fn())(
+      {} as NextApiRequest,
+      {} as NextApiResponse
+    );
+
+    expect(timing).toBeCalledTimes(2);
+  });
+
+  it("keeps the first or last copy", async () => {
+    const warn = jest.spyOn(console, "warn").mockImplementation(() => {});
+    const log: string[] = [];
+    const named = (name: string) =>
+      keyed("timing", async (req: any, res: any, next: () => Promise<void>) => {
+        log.push(name);
+        await next();
+      });
+    const [first, second] = [named("first"), named("second")];
+    const other = noop();
+
+    await use({ duplicates: "keep-first" }, first, other, second)(jest.fn())(
+      {} as NextApiRequest,
+      {} as NextApiResponse
+    );
+    await use({ duplicates: "keep-last" }, first, other, second)(jest.fn())(
+      {} as NextApiRequest,
+      {} as NextApiResponse
+    );
+
+    expect(log).toEqual(["first", "second"]);
+    expect(other).toBeCalledTimes(2);
+    expect(warn).toBeCalledWith(
+      '[next-api-middleware] Middleware "timing" is included more than once (argument 1, argument 3); only the first copy runs'
+    );
+  });
+
+  it("reports the labels that included each duplicate", () => {
+    const timing = async function addRequestTiming(
+      req: any,
+      res: any,
+      next: () => Promise<void>
+    ) {
+      await next();
+    };
+    const withMiddleware = label({ all: [noop(), timing], timing }, [], {
+      duplicates: "throw",
+    });
+
+    expect(() => withMiddleware("all", "timing")).toThrowError(
+      'Middleware "addRequestTiming" is included more than once (label "all", label "timing")'
+    );
+    expect(() => use({ duplicates: "throw" }, timing, [timing])).toThrowError(
+      "(argument 1, argument 2, index 0)"
+    );
+  });
+
+  it("reports labels to hooks for the copies that run", async () => {
+    const timing = noop();
+    const onEnter = jest.fn();
+    const withMiddleware = label({ all: [noop(), timing], timing }, [], {
+      duplicates: "keep-last",
+      hooks: { onEnter },
+    });
+    jest.spyOn(console, "warn").mockImplementation(() => {});
+
+    await withMiddleware("all", "timing")(jest.fn())(
+      {} as NextApiRequest,
+      {} as NextApiResponse
+    );
+
+    expect(timing).toBeCalledTimes(1);
+    expect(onEnter.mock.calls.map(([event]) => event.label)).toEqual([
+      "all",
+      "timing",
+    ]);
+  });
+
+  it("rejects copies that would run before their dependencies", () => {
+    const session = noop();
+    const withMiddleware = label({ session, auth: noop() }, [], {
+      duplicates: "keep-last",
+      dependencies: { auth: { requires: ["session"] } },
+    });
+    jest.spyOn(console, "warn").mockImplementation(() => {});
+
+    expect(() => withMiddleware("auth", session)).toThrowError(
+      'Label "auth" depends on "session", but the duplicates policy keeps copies that run in the wrong order (argument 2, then label "auth")'
+    );
+    expect(() => withMiddleware(session, "auth")).not.toThrow();
+  });
+});
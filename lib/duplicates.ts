@@ -0,0 +1,115 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { warnInDevelopment } from "./env";
+import {
+  AnyMiddleware,
+  DuplicatePolicy,
+  Middleware,
+  WebMiddleware,
+} from "./types";
+
+const keyMarker = Symbol.for("next-api-middleware.key");
+
+/**
+ * Give middleware a key, so that the `duplicates` option treats
+ * middleware with the same key as the same middleware (e.g. when
+ * a factory is called more than once)
+ */
+export function keyed<
+  M extends Middleware<NextApiRequest, NextApiResponse, any>
+>(key: string, middleware: M): M;
+export function keyed<M extends WebMiddleware<any, any>>(
+  key: string,
+  middleware: M
+): M;
+export function keyed<M extends AnyMiddleware>(key: string, middleware: M): M {
+  Object.defineProperty(middleware, keyMarker, {
+    value: key,
+    configurable: true,
+  });
+  return middleware;
+}
+
+/**
+ * The key given to middleware with `keyed`, if any
+ */
+export function middlewareKey(input: unknown): string | undefined {
+  return typeof input === "function"
+    ? (input as { [keyMarker]?: string })[keyMarker]
+    : undefined;
+}
+
+/**
+ * What makes copies of middleware the same: their key, if any,
+ * or else the function itself
+ */
+export function middlewareIdentity(fn: AnyMiddleware): unknown {
+  return middlewareKey(fn) || fn;
+}
+
+/**
+ * A middleware function in a composed chain
+ */
+export type ChainEntry = {
+  fn: AnyMiddleware;
+
+  /**
+   * The label it was chosen with, reported to instrumentation hooks
+   */
+  label?: string;
+
+  /**
+   * Where it was included, e.g. `label "auth"` or `argument 2`
+   */
+  location: string;
+};
+
+/**
+ * Apply a policy to middleware included more than once in a chain,
+ * reporting where each copy was included
+ */
+export function removeDuplicates(
+  chain: ChainEntry[],
+  policy: DuplicatePolicy = "allow"
+): ChainEntry[] {
+  if (policy === "allow") {
+    return chain;
+  }
+
+  // Copies of the same middleware
+  const copies = new Map<unknown, ChainEntry[]>();
+  for (const entry of chain) {
+    const id = middlewareIdentity(entry.fn);
+    copies.set(id, [...(copies.get(id) || []), entry]);
+  }
+
+  const removed = new Set<ChainEntry>();
+  for (const entries of copies.values()) {
+    if (entries.length < 2) {
+      continue;
+    }
+
+    const { fn } = entries[0];
+    const description = `Middleware "${
+      middlewareKey(fn) || fn.name || "anonymous"
+    }" is included more than once (${entries
+      .map((entry) => entry.location)
+      .join(", ")})`;
+
+    if (policy === "throw") {
+      throw new Error(description);
+    }
+
+    const kept = entries[policy === "keep-first" ? 0 : entries.length - 1];
+    entries
+      .filter((entry) => entry !== kept)
+      .forEach((entry) => removed.add(entry));
+
+    warnInDevelopment(
+      `${description}; only the ${
+        policy === "keep-first" ? "first" : "last"
+      } copy runs`
+    );
+  }
+
+  return chain.filter((entry) => !removed.has(entry));
+}
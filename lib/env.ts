@@ -0,0 +1,18 @@
+/**
+ * Whether the app is running in production, which hides details
+ * meant for developers (works without `process` in the Edge runtime)
+ */
+export function isProduction(): boolean {
+  return (
+    typeof process !== "undefined" && process.env.NODE_ENV === "production"
+  );
+}
+
+/**
+ * Warn about likely mistakes, outside of production
+ */
+export function warnInDevelopment(message: string) {
+  if (!isProduction()) {
+    console.warn(`[next-api-middleware] ${message}`);
+  }
+}
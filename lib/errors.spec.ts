@@ -0,0 +1,202 @@
+import { NextApiResponse } from "next";
+import {
+  BadRequestError,
+  ConflictError,
+  HttpError,
+  InternalServerError,
+  isHttpError,
+  NotFoundError,
+  problemResponse,
+  sendProblem,
+  toProblem,
+  TooManyRequestsError,
+  UnauthorizedError,
+} from "./errors";
+
+function mockResponse(headersSent = false) {
+  const headers: Record<string, unknown> = {};
+
+  return {
+    statusCode: 200,
+    headersSent,
+    writableEnded: false,
+    headers,
+    body: undefined as unknown,
+    setHeader: jest.fn((name: string, value: unknown) => {
+      headers[name.toLowerCase()] = value;
+    }),
+    end: jest.fn(function (this: any, body?: unknown) {
+      this.body = body;
+      this.headersSent = true;
+      this.writableEnded = true;
+    }),
+  };
+}
+
+describe("HttpError", () => {
+  it("uses the status title as the default message", () => {
+    const error = new NotFoundError();
+
+    expect(error).toBeInstanceOf(HttpError);
+    expect(error).toBeInstanceOf(Error);
+    expect(error.name).toBe("NotFoundError");
+    expect(error.status).toBe(404);
+    expect(error.message).toBe("Not Found");
+  });
+
+  it("exposes client errors but not server errors by default", () => {
+    expect(new BadRequestError().expose).toBe(true);
+    expect(new InternalServerError().expose).toBe(false);
+    expect(new HttpError(502).expose).toBe(false);
+    expect(new InternalServerError("Oops", { expose: true }).expose).toBe(true);
+  });
+
+  it("accepts a code, details, headers and a cause", () => {
+    const cause = new Error("Duplicate key");
+    const error = new ConflictError("Email already registered", {
+      code: "email_taken",
+      details: { field: "email" },
+      headers: { "X-Conflict": "email" },
+      cause,
+    });
+
+    expect(error.code).toBe("email_taken");
+    expect(error.details).toEqual({ field: "email" });
+    expect(error.headers).toEqual({ "X-Conflict": "email" });
+    expect(error.cause).toBe(cause);
+  });
+});
+
+describe("isHttpError", () => {
+  it("recognizes HTTP errors", () => {
+    expect(isHttpError(new UnauthorizedError())).toBe(true);
+    expect(isHttpError(new Error())).toBe(false);
+    expect(isHttpError({ status: 400 })).toBe(false);
+  });
+
+  it("recognizes HTTP errors from another copy of the module", () => {
+    let copy: typeof import("./errors") | undefined;
+    jest.isolateModules(() => {
+      copy = require("./errors");
+    });
+
+    const error = new copy!.UnauthorizedError("Sign in first");
+
+    expect(error).not.toBeInstanceOf(UnauthorizedError);
+    expect(isHttpError(error)).toBe(true);
+    expect(toProblem(error).status).toBe(401);
+  });
+});
+
+describe("toProblem", () => {
+  it("describes exposed HTTP errors", () => {
+    expect(
+      toProblem(
+        new BadRequestError("Name is required", {
+          code: "invalid_body",
+          details: [{ path: "name" }],
+        }),
+        false
+      )
+    ).toEqual({
+      type: "about:blank",
+      title: "Bad Request",
+      status: 400,
+      detail: "Name is required",
+      code: "invalid_body",
+      details: [{ path: "name" }],
+    });
+  });
+
+  it("hides internal messages unless internals are exposed", () => {
+    const error = new Error("connect ECONNREFUSED 10.0.0.1:5432");
+
+    expect(toProblem(error, false)).toEqual({
+      type: "about:blank",
+      title: "Internal Server Error",
+      status: 500,
+    });
+    expect(toProblem(error, true).detail).toBe(
+      "connect ECONNREFUSED 10.0.0.1:5432"
+    );
+  });
+
+  it("hides internal messages in production", () => {
+    const env = process.env.NODE_ENV;
+    Object.assign(process.env, { NODE_ENV: "production" });
+
+    try {
+      expect(toProblem(new Error("Secret")).detail).toBeUndefined();
+    } finally {
+      Object.assign(process.env, { NODE_ENV: env });
+    }
+
+    expect(toProblem(new Error("Secret")).detail).toBe("Secret");
+  });
+
+  it("uses generic titles for unknown status codes", () => {
+    expect(toProblem(new HttpError(418)).title).toBe("Error");
+    expect(toProblem(new HttpError(599)).title).toBe("Server Error");
+  });
+});
+
+describe("sendProblem", () => {
+  it("writes a problem response", () => {
+    const res = mockResponse();
+
+    sendProblem(
+      res as unknown as NextApiResponse,
+      new TooManyRequestsError(undefined, { headers: { "Retry-After": "30" } })
+    );
+
+    expect(res.statusCode).toBe(429);
+    expect(res.headers).toEqual({
+      "retry-after": "30",
+      "content-type": "application/problem+json",
+    });
+    expect(JSON.parse(res.body as string)).toEqual({
+      type: "about:blank",
+      title: "Too Many Requests",
+      status: 429,
+    });
+  });
+
+  it("never writes twice if headers were already sent", () => {
+    const res = mockResponse(true);
+
+    sendProblem(res as unknown as NextApiResponse, new NotFoundError());
+
+    expect(res.setHeader).not.toHaveBeenCalled();
+    expect(res.end).toHaveBeenCalledWith();
+    expect(res.statusCode).toBe(200);
+
+    sendProblem(res as unknown as NextApiResponse, new NotFoundError());
+    expect(res.end).toHaveBeenCalledTimes(1);
+  });
+});
+
+// The Fetch API is only available globally in Node.js 18+
+const describeWithFetch =
+  typeof Request === "undefined" ? describe.skip : describe;
+
+describeWithFetch("problemResponse", () => {
+  it("creates a problem response", async () => {
+    const response = problemResponse(
+      new UnauthorizedError("Token expired", {
+        headers: { "WWW-Authenticate": "Bearer" },
+      })
+    );
+
+    expect(response.status).toBe(401);
+    expect(response.headers.get("Content-Type")).toBe(
+      "application/problem+json"
+    );
+    expect(response.headers.get("WWW-Authenticate")).toBe("Bearer");
+    expect(await response.json()).toEqual({
+      type: "about:blank",
+      title: "Unauthorized",
+      status: 401,
+      detail: "Token expired",
+    });
+  });
+});
@@ -0,0 +1,272 @@
+import type { NextApiResponse } from "next";
+import { isProduction } from "./env";
+
+const statusTitles: Record<number, string> = {
+  400: "Bad Request",
+  401: "Unauthorized",
+  403: "Forbidden",
+  404: "Not Found",
+  405: "Method Not Allowed",
+  406: "Not Acceptable",
+  408: "Request Timeout",
+  409: "Conflict",
+  410: "Gone",
+  413: "Payload Too Large",
+  415: "Unsupported Media Type",
+  422: "Unprocessable Entity",
+  429: "Too Many Requests",
+  500: "Internal Server Error",
+  501: "Not Implemented",
+  502: "Bad Gateway",
+  503: "Service Unavailable",
+  504: "Gateway Timeout",
+};
+
+export type HttpErrorOptions = {
+  /**
+   * Whether the message and details may be sent to the client
+   * (defaults to `true` for 4xx errors and `false` for 5xx errors)
+   */
+  expose?: boolean;
+
+  /**
+   * A machine-readable error code, e.g. `"user_not_found"`
+   */
+  code?: string;
+
+  /**
+   * Additional information about the error, e.g. field-level issues
+   */
+  details?: unknown;
+
+  /**
+   * Headers to send with the error response, e.g. `Retry-After`
+   */
+  headers?: Record<string, string>;
+
+  /**
+   * The error that caused this one
+   */
+  cause?: unknown;
+};
+
+// Shared by every copy of this module (e.g. in separately bundled entry points)
+const httpErrorMarker = Symbol.for("next-api-middleware.http-error");
+
+export class HttpError extends Error {
+  name = "HttpError";
+  status: number;
+  expose: boolean;
+  code?: string;
+  details?: unknown;
+  headers: Record<string, string>;
+  cause?: unknown;
+
+  constructor(
+    status: number,
+    message = statusTitle(status),
+    options: HttpErrorOptions = {}
+  ) {
+    super(message);
+    this.status = status;
+    this.expose = options.expose ?? status < 500;
+    this.code = options.code;
+    this.details = options.details;
+    this.headers = options.headers || {};
+    this.cause = options.cause;
+
+    Object.defineProperty(this, httpErrorMarker, { value: true });
+  }
+}
+
+export class BadRequestError extends HttpError {
+  name = "BadRequestError";
+  constructor(message?: string, options?: HttpErrorOptions) {
+    super(400, message, options);
+  }
+}
+
+export class UnauthorizedError extends HttpError {
+  name = "UnauthorizedError";
+  constructor(message?: string, options?: HttpErrorOptions) {
+    super(401, message, options);
+  }
+}
+
+export class ForbiddenError extends HttpError {
+  name = "ForbiddenError";
+  constructor(message?: string, options?: HttpErrorOptions) {
+    super(403, message, options);
+  }
+}
+
+export class NotFoundError extends HttpError {
+  name = "NotFoundError";
+  constructor(message?: string, options?: HttpErrorOptions) {
+    super(404, message, options);
+  }
+}
+
+export class MethodNotAllowedError extends HttpError {
+  name = "MethodNotAllowedError";
+  constructor(message?: string, options?: HttpErrorOptions) {
+    super(405, message, options);
+  }
+}
+
+export class ConflictError extends HttpError {
+  name = "ConflictError";
+  constructor(message?: string, options?: HttpErrorOptions) {
+    super(409, message, options);
+  }
+}
+
+export class PayloadTooLargeError extends HttpError {
+  name = "PayloadTooLargeError";
+  constructor(message?: string, options?: HttpErrorOptions) {
+    super(413, message, options);
+  }
+}
+
+export class UnsupportedMediaTypeError extends HttpError {
+  name = "UnsupportedMediaTypeError";
+  constructor(message?: string, options?: HttpErrorOptions) {
+    super(415, message, options);
+  }
+}
+
+export class UnprocessableEntityError extends HttpError {
+  name = "UnprocessableEntityError";
+  constructor(message?: string, options?: HttpErrorOptions) {
+    super(422, message, options);
+  }
+}
+
+export class TooManyRequestsError extends HttpError {
+  name = "TooManyRequestsError";
+  constructor(message?: string, options?: HttpErrorOptions) {
+    super(429, message, options);
+  }
+}
+
+export class InternalServerError extends HttpError {
+  name = "InternalServerError";
+  constructor(message?: string, options?: HttpErrorOptions) {
+    super(500, message, options);
+  }
+}
+
+export class ServiceUnavailableError extends HttpError {
+  name = "ServiceUnavailableError";
+  constructor(message?: string, options?: HttpErrorOptions) {
+    super(503, message, options);
+  }
+}
+
+/**
+ * Thrown when the middleware chain (or a single middleware)
+ * takes longer than the `timeout` or `middlewareTimeout` option
+ */
+export class TimeoutError extends HttpError {
+  name = "TimeoutError";
+  constructor(message?: string, options: HttpErrorOptions = {}) {
+    super(503, message, { code: "timeout", ...options });
+  }
+}
+
+export function isHttpError(input: unknown): input is HttpError {
+  return (
+    typeof input === "object" &&
+    input !== null &&
+    (input as { [httpErrorMarker]?: boolean })[httpErrorMarker] === true
+  );
+}
+
+/**
+ * An RFC 9457 "problem details" object
+ */
+export type Problem = {
+  type: string;
+  title: string;
+  status: number;
+  detail?: string;
+  code?: string;
+  details?: unknown;
+};
+
+/**
+ * Describe an error as a problem details object. Messages of errors
+ * that are not exposed (including anything that is not an `HttpError`)
+ * are only included outside of production.
+ */
+export function toProblem(
+  error: unknown,
+  exposeInternals = !isProduction()
+): Problem {
+  const status = isHttpError(error) ? error.status : 500;
+  const problem: Problem = {
+    type: "about:blank",
+    title: statusTitle(status),
+    status,
+  };
+
+  const expose = (isHttpError(error) && error.expose) || exposeInternals;
+
+  if (expose && error instanceof Error && error.message !== problem.title) {
+    problem.detail = error.message;
+  }
+
+  if (isHttpError(error)) {
+    problem.code = error.code;
+
+    if (expose) {
+      problem.details = error.details;
+    }
+  }
+
+  return problem;
+}
+
+/**
+ * Write an error to a Node.js response as `application/problem+json`.
+ * If headers were already sent, the response is ended instead.
+ */
+export function sendProblem(res: NextApiResponse, error: unknown) {
+  if (res.headersSent) {
+    if (!res.writableEnded) {
+      res.end();
+    }
+    return;
+  }
+
+  const problem = toProblem(error);
+
+  res.statusCode = problem.status;
+  for (const [name, value] of Object.entries(errorHeaders(error))) {
+    res.setHeader(name, value);
+  }
+  res.setHeader("Content-Type", "application/problem+json");
+  res.end(JSON.stringify(problem));
+}
+
+/**
+ * Create an `application/problem+json` response for an error
+ */
+export function problemResponse(error: unknown): Response {
+  const problem = toProblem(error);
+  const headers = new Headers(errorHeaders(error));
+  headers.set("Content-Type", "application/problem+json");
+
+  return new Response(JSON.stringify(problem), {
+    status: problem.status,
+    headers,
+  });
+}
+
+function errorHeaders(error: unknown): Record<string, string> {
+  return isHttpError(error) ? error.headers : {};
+}
+
+function statusTitle(status: number): string {
+  return statusTitles[status] || (status < 500 ? "Error" : "Server Error");
+}
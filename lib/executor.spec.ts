@@ -1,7 +1,10 @@
 import "jest-extended";
+import { EventEmitter } from "events";
 import { NextApiHandler, NextApiRequest, NextApiResponse } from "next";
-import { Middleware } from "./types";
+import { ApiHandler, Middleware, WebHandler, WebMiddleware } from "./types";
 import { makeMiddlewareExecutor } from "./executor";
+import { NotFoundError } from "./errors";
+import { controlledPromise } from "./promises";
 
 async function callExecutor(executor: NextApiHandler) {
   const req = {} as NextApiRequest;
@@ -270,4 +273,704 @@ describe("makeMiddlewareExecutor", () => {
       expect(caughtError).toBeCalled();
     });
   });
+
+  describe("Short-circuiting", () => {
+    function mockResponse() {
+      const res = {
+        headersSent: false,
+        writableEnded: false,
+        end: jest.fn(() => {
+          res.headersSent = true;
+          res.writableEnded = true;
+        }),
+      };
+      return res;
+    }
+
+    let warn: jest.SpyInstance;
+
+    beforeEach(() => {
+      warn = jest.spyOn(console, "warn").mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+      warn.mockRestore();
+    });
+
+    it("stops the chain when middleware finishes without calling next", async () => {
+      const log: string[] = [];
+
+      const outer = async (_req: any, _res: any, next: any) => {
+        log.push("setup outer");
+        await next();
+        log.push("teardown outer");
+      };
+
+      const stopsSync = jest.fn((_req, res, _next) => {
+        res.end();
+      });
+
+      const stopsAsync = jest.fn(async (_req, res, _next) => {
+        res.end();
+      });
+
+      for (const stops of [stopsSync, stopsAsync]) {
+        const remaining = jest.fn((_req, _res, next) => next());
+        const handler = jest.fn();
+
+        await makeMiddlewareExecutor([outer, stops, remaining])(handler)(
+          {} as NextApiRequest,
+          mockResponse() as unknown as NextApiResponse
+        );
+
+        expect(stops).toHaveBeenCalled();
+        expect(remaining).not.toHaveBeenCalled();
+        expect(handler).not.toHaveBeenCalled();
+      }
+
+      expect(log).toEqual([
+        "setup outer",
+        "teardown outer",
+        "setup outer",
+        "teardown outer",
+      ]);
+      expect(warn).not.toHaveBeenCalled();
+    });
+
+    it("waits for callback-style middleware that calls next later", async () => {
+      const handler = jest.fn((_req, res) => res.end());
+
+      function defers(_req: any, _res: any, next: any) {
+        setTimeout(() => next(), 10);
+      }
+
+      await makeMiddlewareExecutor([defers])(handler)(
+        {} as NextApiRequest,
+        mockResponse() as unknown as NextApiResponse
+      );
+
+      expect(handler).toHaveBeenCalledTimes(1);
+      expect(warn).not.toHaveBeenCalled();
+    });
+
+    it("warns about callback-style middleware that neither calls next nor ends the response", async () => {
+      jest.useFakeTimers();
+
+      try {
+        for (const withEvents of [true, false]) {
+          const handler = jest.fn();
+          const res = mockResponse();
+          const events = new EventEmitter();
+          const called = controlledPromise();
+
+          function forgetsNext(_req: unknown, _res: unknown, _next: unknown) {
+            called.resolve();
+          }
+
+          const done = makeMiddlewareExecutor([forgetsNext])(handler)(
+            {} as NextApiRequest,
+            (withEvents
+              ? Object.assign(events, res)
+              : res) as unknown as NextApiResponse
+          );
+
+          await called.promise;
+          jest.advanceTimersByTime(5000);
+
+          expect(warn).toHaveBeenLastCalledWith(
+            '[next-api-middleware] Middleware "forgetsNext" at position 1 neither called next() nor ended the response within 5000ms'
+          );
+
+          if (withEvents) {
+            // Without events, the chain has already stopped
+            events.emit("close");
+          }
+
+          await done;
+          expect(handler).not.toHaveBeenCalled();
+        }
+      } finally {
+        jest.useRealTimers();
+      }
+    });
+
+    it("stops the chain when next is called after ending the response", async () => {
+      const log: string[] = [];
+      const handler = jest.fn();
+
+      async function forgetsToReturn(_req: any, res: any, next: any) {
+        res.end();
+        await next();
+        log.push("teardown forgetsToReturn");
+      }
+
+      await makeMiddlewareExecutor([forgetsToReturn])(handler)(
+        {} as NextApiRequest,
+        mockResponse() as unknown as NextApiResponse
+      );
+
+      expect(handler).not.toHaveBeenCalled();
+      expect(log).toEqual(["teardown forgetsToReturn"]);
+      expect(warn).toHaveBeenCalledWith(
+        '[next-api-middleware] Middleware "forgetsToReturn" at position 1 called next() after ending the response; the rest of the chain was skipped'
+      );
+    });
+
+    it("warns when the chain finishes without a response", async () => {
+      async function passes(_req: any, _res: any, next: any) {
+        await next();
+      }
+
+      async function stops(_req: any, _res: any, _next: any) {}
+
+      await makeMiddlewareExecutor([passes, stops])(jest.fn())(
+        {} as NextApiRequest,
+        mockResponse() as unknown as NextApiResponse
+      );
+
+      expect(warn).toHaveBeenLastCalledWith(
+        '[next-api-middleware] Middleware "stops" at position 2 stopped the chain without sending a response'
+      );
+
+      for (const middleware of [[], [passes]]) {
+        await makeMiddlewareExecutor(middleware)(jest.fn())(
+          {} as NextApiRequest,
+          mockResponse() as unknown as NextApiResponse
+        );
+
+        expect(warn).toHaveBeenLastCalledWith(
+          "[next-api-middleware] The API route handler finished without sending a response"
+        );
+      }
+
+      expect(warn).toHaveBeenCalledTimes(3);
+    });
+
+    it("does not warn in production", async () => {
+      const env = process.env.NODE_ENV;
+      Object.assign(process.env, { NODE_ENV: "production" });
+
+      try {
+        await makeMiddlewareExecutor([])(jest.fn())(
+          {} as NextApiRequest,
+          mockResponse() as unknown as NextApiResponse
+        );
+      } finally {
+        Object.assign(process.env, { NODE_ENV: env });
+      }
+
+      expect(warn).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("Misuse of next", () => {
+    let warn: jest.SpyInstance;
+
+    beforeEach(() => {
+      warn = jest.spyOn(console, "warn").mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+      warn.mockRestore();
+    });
+
+    it("rejects repeated calls without running the rest of the chain again", async () => {
+      const handler = jest.fn();
+      const second = jest.fn();
+
+      async function callsTwice(_req: any, _res: any, next: any) {
+        await next();
+        await next().catch(second);
+      }
+
+      function callsTwiceSync(_req: any, _res: any, next: any) {
+        next();
+        next();
+      }
+
+      await callExecutor(
+        makeMiddlewareExecutor([
+          async (_req: unknown, _res: unknown, next: () => Promise<void>) =>
+            next(),
+          callsTwice,
+          callsTwiceSync,
+        ])(handler)
+      );
+
+      expect(handler).toHaveBeenCalledTimes(1);
+      expect(second).toHaveBeenCalledWith(
+        new Error(
+          'Middleware "callsTwice" at position 2 called next() more than once'
+        )
+      );
+      expect(warn.mock.calls).toEqual([
+        [
+          '[next-api-middleware] Middleware "callsTwiceSync" at position 3 called next() more than once',
+        ],
+        [
+          '[next-api-middleware] Middleware "callsTwice" at position 2 called next() more than once',
+        ],
+      ]);
+    });
+
+    it("rejects calls after the chain finished", async () => {
+      let lateNext: () => Promise<void> = async () => {};
+      const handler = jest.fn();
+
+      await callExecutor(
+        makeMiddlewareExecutor([
+          async function keepsNext(
+            _req: unknown,
+            _res: unknown,
+            next: () => Promise<void>
+          ) {
+            lateNext = next;
+            await next();
+          },
+        ])(handler)
+      );
+
+      await expect(lateNext()).rejects.toThrow(
+        'Middleware "keepsNext" at position 1 called next() after the chain finished'
+      );
+      expect(handler).toHaveBeenCalledTimes(1);
+    });
+
+    it("fails the chain in strict mode", async () => {
+      const handler = jest.fn();
+
+      await expect(
+        callExecutor(
+          makeMiddlewareExecutor(
+            [
+              async function swallowsErrors(
+                _req: unknown,
+                _res: unknown,
+                next: () => Promise<void>
+              ) {
+                await next();
+                await next().catch(() => {});
+              },
+            ],
+            { strict: true }
+          )(handler)
+        )
+      ).rejects.toThrow(
+        'Middleware "swallowsErrors" at position 1 called next() more than once'
+      );
+
+      let lateNext: () => Promise<void> = async () => {};
+
+      await callExecutor(
+        makeMiddlewareExecutor(
+          [
+            async (_req: unknown, _res: unknown, next: () => Promise<void>) => {
+              lateNext = next;
+              await next();
+            },
+          ],
+          { strict: true }
+        )(handler)
+      );
+
+      await expect(lateNext()).rejects.toThrow(
+        "called next() after the chain finished"
+      );
+      expect(handler).toHaveBeenCalledTimes(2);
+      expect(warn).toHaveBeenCalledTimes(1);
+    });
+
+    it("reports late calls from timers in strict mode without throwing", async () => {
+      const onError = jest.fn();
+      let late: Promise<void> | undefined;
+
+      await callExecutor(
+        makeMiddlewareExecutor(
+          [
+            async function schedulesNext(
+              _req: unknown,
+              _res: unknown,
+              next: () => Promise<void>
+            ) {
+              setTimeout(() => {
+                late = next();
+              }, 5);
+              await next();
+            },
+          ],
+          { strict: true, onError }
+        )(jest.fn())
+      );
+
+      await new Promise((resolve) => setTimeout(resolve, 10));
+
+      await expect(late).rejects.toThrow(
+        'Middleware "schedulesNext" at position 1 called next() after the chain finished'
+      );
+      expect(onError).toHaveBeenCalledWith(
+        new Error(
+          'Middleware "schedulesNext" at position 1 called next() after the chain finished'
+        ),
+        expect.anything()
+      );
+      expect(warn).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("Locals", () => {
+    it("shares a locals object between middleware and the handler", async () => {
+      const middleware: Middleware<NextApiRequest, NextApiResponse, any>[] = [
+        async (req, _, next) => {
+          req.locals.user = { name: "Ada" };
+          await next();
+        },
+        async (req, _, next) => {
+          req.locals.greeting = `Hello, ${req.locals.user.name}`;
+          await next();
+        },
+      ];
+
+      const handler = jest.fn(async (_, __) => {});
+
+      await callExecutor(makeMiddlewareExecutor(middleware)(handler));
+
+      expect(handler.mock.calls[0][0].locals).toEqual({
+        user: { name: "Ada" },
+        greeting: "Hello, Ada",
+      });
+    });
+
+    it("provides locals when there is no middleware", async () => {
+      const handler = jest.fn(async (_, __) => {});
+
+      await callExecutor(makeMiddlewareExecutor([])(handler));
+
+      expect(handler.mock.calls[0][0].locals).toEqual({});
+    });
+
+    it("reuses an existing locals object", async () => {
+      const locals = { existing: true };
+      const handler = jest.fn(async (_, __) => {});
+
+      await makeMiddlewareExecutor([
+        async (_: unknown, __: unknown, next: () => Promise<void>) => next(),
+      ])(handler)(
+        Object.assign({} as NextApiRequest, { locals }),
+        {} as NextApiResponse
+      );
+
+      expect(handler.mock.calls[0][0].locals).toBe(locals);
+    });
+  });
+
+  describe("onError", () => {
+    function mockResponse() {
+      return {
+        statusCode: 200,
+        headersSent: false,
+        writableEnded: false,
+        setHeader: jest.fn(),
+        end: jest.fn(),
+      };
+    }
+
+    it("rethrows errors by default", async () => {
+      const handler = jest.fn(async () => {
+        throw new NotFoundError();
+      });
+
+      await expect(
+        callExecutor(makeMiddlewareExecutor([])(handler))
+      ).rejects.toThrow("Not Found");
+    });
+
+    it("responds with problem details for errors from middleware and the handler", async () => {
+      const failingMiddleware = jest.fn((_req, _res, next) => {
+        next(new NotFoundError("No such user"));
+      });
+
+      const cases: [Middleware[], ApiHandler][] = [
+        [[failingMiddleware], jest.fn()],
+        [
+          [async (_req, _res, next) => next()],
+          jest.fn(async () => {
+            throw new NotFoundError("No such user");
+          }),
+        ],
+      ];
+
+      for (const [middleware, handler] of cases) {
+        const res = mockResponse();
+
+        await makeMiddlewareExecutor(middleware, { onError: true })(handler)(
+          {} as NextApiRequest,
+          res as unknown as NextApiResponse
+        );
+
+        expect(res.statusCode).toBe(404);
+        expect(res.setHeader).toHaveBeenCalledWith(
+          "Content-Type",
+          "application/problem+json"
+        );
+        expect(JSON.parse(res.end.mock.calls[0][0])).toEqual({
+          type: "about:blank",
+          title: "Not Found",
+          status: 404,
+          detail: "No such user",
+        });
+      }
+    });
+
+    it("reports errors before responding", async () => {
+      const error = new Error("Failed");
+      const onError = jest.fn();
+      const req = {} as NextApiRequest;
+      const res = mockResponse();
+
+      await makeMiddlewareExecutor([], { onError })(async () => {
+        throw error;
+      })(req, res as unknown as NextApiResponse);
+
+      expect(onError).toHaveBeenCalledWith(error, req);
+      expect(onError).toHaveBeenCalledBefore(res.end);
+      expect(res.statusCode).toBe(500);
+    });
+
+    it("does not write twice if headers were already sent", async () => {
+      const res = mockResponse();
+
+      await makeMiddlewareExecutor([], { onError: true })(async () => {
+        res.headersSent = true;
+        throw new Error("Failed after streaming");
+      })({} as NextApiRequest, res as unknown as NextApiResponse);
+
+      expect(res.setHeader).not.toHaveBeenCalled();
+      expect(res.end).toHaveBeenCalledWith();
+    });
+  });
+
+  // The Fetch API is only available globally in Node.js 18+
+  const describeWithFetch =
+    typeof Request === "undefined" ? describe.skip : describe;
+
+  describeWithFetch("App Router route handlers", () => {
+    const request = () => new Request("https://example.com/api/test");
+
+    // Handlers returning `any`, or taking no parameters, would be
+    // taken for API route handlers
+    const webHandler = <Locals = {}>(fn: WebHandler<Locals>) =>
+      jest.fn<Promise<Response>, Parameters<WebHandler<Locals>>>(
+        async (...args) => fn(...args)
+      );
+    const respond = (body: string) => webHandler(() => new Response(body));
+
+    it("winds and unwinds web middleware around the route handler", async () => {
+      const log: string[] = [];
+
+      const middleware: WebMiddleware[] = [1, 2, 3].map(
+        (n) => async (_request, _context, next) => {
+          log.push(`setup ${n}`);
+          await next();
+          log.push(`teardown ${n}`);
+        }
+      );
+
+      const handler = webHandler(() => {
+        log.push("handler");
+        return new Response("ok");
+      });
+
+      const response = await makeMiddlewareExecutor(middleware)(handler)(
+        request(),
+        { params: {} }
+      );
+
+      expect(await response.text()).toBe("ok");
+      expect(handler).toHaveBeenCalledWith(expect.any(Request), {
+        params: {},
+      });
+      expect(log).toEqual([
+        "setup 1",
+        "setup 2",
+        "setup 3",
+        "handler",
+        "teardown 3",
+        "teardown 2",
+        "teardown 1",
+      ]);
+    });
+
+    it("lets middleware short-circuit by returning a response", async () => {
+      const after = jest.fn<Promise<Response>, Parameters<WebMiddleware>>(
+        async (_request, _context, next) => next()
+      );
+      const handler = respond("ok");
+
+      const response = await makeMiddlewareExecutor([
+        async () => new Response("Unauthorized", { status: 401 }),
+        after,
+      ])(handler)(request(), {});
+
+      expect(response.status).toBe(401);
+      expect(after).not.toHaveBeenCalled();
+      expect(handler).not.toHaveBeenCalled();
+    });
+
+    it("lets middleware rewrite the response during teardown", async () => {
+      const middleware: WebMiddleware[] = [
+        async (_request, _context, next) => {
+          const response = await next();
+          response.headers.set("X-Request-ID", "abc");
+        },
+        async (_request, _context, next) => {
+          const response = await next();
+          return new Response(`${await response.text()}!`, {
+            status: 201,
+            headers: response.headers,
+          });
+        },
+      ];
+
+      const response = await makeMiddlewareExecutor(middleware)(
+        respond("created")
+      )(request(), {});
+
+      expect(response.status).toBe(201);
+      expect(response.headers.get("X-Request-ID")).toBe("abc");
+      expect(await response.text()).toBe("created!");
+    });
+
+    it("shares locals between web middleware and the route handler", async () => {
+      type Locals = { user: string };
+      const handler = webHandler<Locals>(
+        (request) => new Response(request.locals.user)
+      );
+      const addUser: WebMiddleware<any, Locals> = async (
+        request,
+        _context,
+        next
+      ) => {
+        request.locals.user = "Ada";
+        return next();
+      };
+
+      const response = await makeMiddlewareExecutor<Locals>([addUser])(handler)(
+        request(),
+        {}
+      );
+
+      expect(await response.text()).toBe("Ada");
+    });
+
+    it("enables web middleware to capture errors", async () => {
+      const failing = jest.fn(async () => {
+        throw new Error("Failed");
+      });
+      const handler = respond("ok");
+      const captureErrors: WebMiddleware = async (_request, _context, next) => {
+        try {
+          return await next();
+        } catch (err) {
+          return new Response((err as Error).message, { status: 500 });
+        }
+      };
+
+      const response = await makeMiddlewareExecutor([captureErrors, failing])(
+        handler
+      )(request(), {});
+
+      expect(response.status).toBe(500);
+      expect(await response.text()).toBe("Failed");
+      expect(handler).not.toHaveBeenCalled();
+    });
+
+    it("rejects when a web middleware fails", async () => {
+      await expect(
+        makeMiddlewareExecutor([
+          async () => {
+            throw new Error("Failed");
+          },
+        ])(respond("ok"))(request(), {})
+      ).rejects.toThrow("Failed");
+    });
+
+    it("rejects when a web middleware neither calls next() nor returns a response", async () => {
+      await expect(
+        makeMiddlewareExecutor([async () => {}])(respond("ok"))(request(), {})
+      ).rejects.toThrow(
+        'Middleware "anonymous" at position 1 neither called next() nor returned a Response'
+      );
+    });
+
+    it("rejects repeated calls of next() from web middleware", async () => {
+      const warn = jest.spyOn(console, "warn").mockImplementation(() => {});
+      const handler = respond("ok");
+      const second = jest.fn();
+
+      async function callsTwice(
+        _request: Request,
+        _context: unknown,
+        next: () => Promise<Response>
+      ) {
+        await next();
+        await next().catch(second);
+      }
+
+      const response = await makeMiddlewareExecutor([callsTwice])(handler)(
+        request(),
+        {}
+      );
+
+      expect(await response.text()).toBe("ok");
+      expect(handler).toHaveBeenCalledTimes(1);
+      expect(second).toHaveBeenCalledWith(
+        new Error(
+          'Middleware "callsTwice" at position 1 called next() more than once'
+        )
+      );
+
+      await expect(
+        makeMiddlewareExecutor([callsTwice], { strict: true })(handler)(
+          request(),
+          {}
+        )
+      ).rejects.toThrow("called next() more than once");
+
+      warn.mockRestore();
+    });
+
+    it("responds with problem details when onError is enabled", async () => {
+      const onError = jest.fn();
+
+      const response = await makeMiddlewareExecutor(
+        [
+          async () => {
+            throw new NotFoundError("No such user");
+          },
+        ],
+        { onError }
+      )(respond("ok"))(request(), {});
+
+      expect(onError).toHaveBeenCalledWith(
+        expect.any(NotFoundError),
+        expect.any(Request)
+      );
+      expect(response.status).toBe(404);
+      expect(await response.json()).toEqual({
+        type: "about:blank",
+        title: "Not Found",
+        status: 404,
+        detail: "No such user",
+      });
+    });
+
+    it("executes the route handler when there is no middleware", async () => {
+      const response = await makeMiddlewareExecutor([])(respond("ok"))(
+        request(),
+        {}
+      );
+
+      expect(await response.text()).toBe("ok");
+    });
+  });
 });
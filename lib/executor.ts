@@ -1,30 +1,167 @@
-import { NextApiHandler, NextApiRequest, NextApiResponse } from "next";
+import type { NextApiHandler, NextApiRequest, NextApiResponse } from "next";
+import { warnInDevelopment } from "./env";
+import { problemResponse, sendProblem, TimeoutError } from "./errors";
 import { controlledPromise, isPromise } from "./promises";
-import { Middleware } from "./types";
+import { MiddlewareSpan, MiddlewareTracer } from "./spans";
+import {
+  attachSignal,
+  Cancellation,
+  startTimer,
+  withDeadline,
+} from "./timeouts";
+import {
+  AnyMiddleware,
+  ApiHandler,
+  ApiRouteWrapper,
+  Middleware,
+  MiddlewareOptions,
+  RouteHandlerWrapper,
+  WebHandler,
+  WebMiddleware,
+} from "./types";
+
+/**
+ * How long callback-style middleware may go without calling `next`
+ * or ending the response before it is reported as stalled
+ */
+const STALLED_MIDDLEWARE_DELAY = 5000;
 
 // This gets invoked internally by `use` and `label`
-export function makeMiddlewareExecutor(middlewareFns: Middleware[]) {
-  // This curried function receives an API route
-  return function curryApiHandler(apiRouteFn: NextApiHandler): NextApiHandler {
-    // The final function returned is a Next API handler that
-    // is responsible for executing all the middleware provided,
+export function makeMiddlewareExecutor<Locals = {}>(
+  middlewareFns: AnyMiddleware[],
+  options: MiddlewareOptions = {},
+  labels: (string | undefined)[] = []
+): ApiRouteWrapper<Locals> & RouteHandlerWrapper<Locals> {
+  const settings: ExecutorSettings = {
+    tracer: options.hooks
+      ? new MiddlewareTracer([options.hooks].flat(), labels)
+      : undefined,
+    strict: options.strict,
+    middlewareTimeout: options.middlewareTimeout,
+  };
+
+  // This curried function receives an API route (or an App Router route handler)
+  function curryApiHandler(
+    routeFn: ApiHandler<Locals> | WebHandler<Locals>
+  ): (req: any, res: any) => Promise<any> {
+    // The final function returned is a Next API handler (or route handler)
+    // that is responsible for executing all the middleware provided,
     // as well as the API route handler
     return async function finalRouteHandler(req, res) {
-      await new Executor(middlewareFns, apiRouteFn, req, res).run();
+      if (isWebRequest(req)) {
+        const cancellation = attachSignal(req);
+
+        try {
+          // App Router route handlers receive a Fetch `Request` and a context
+          return await withDeadline(
+            new WebExecutor(
+              middlewareFns as WebMiddleware[],
+              routeFn as WebHandler,
+              req,
+              res,
+              undefined,
+              { ...settings, cancellation, report: reporter(req) }
+            ).run(),
+            options.timeout,
+            cancellation
+          );
+        } catch (err) {
+          await handleError(err, req);
+          return problemResponse(err);
+        } finally {
+          cancellation.release();
+        }
+      }
+
+      if (options.runtime === "edge") {
+        // Node.js requests never reach Edge route handlers
+        throw new TypeError(
+          "Middleware composed for the Edge runtime can only wrap App Router route handlers"
+        );
+      }
+
+      const apiRouteFn = routeFn as NextApiHandler;
+      const cancellation = attachSignal(req, res);
+
+      try {
+        if (middlewareFns.length === 0) {
+          // Nothing to execute besides the API route handler
+          attachLocals(req);
+          await withDeadline(
+            Promise.resolve(apiRouteFn(req, res)),
+            options.timeout,
+            cancellation
+          );
+          warnIfNoResponse(res);
+          return;
+        }
+
+        const executor = new Executor(
+          middlewareFns as Middleware<any, any, any>[],
+          apiRouteFn,
+          req,
+          res,
+          undefined,
+          { ...settings, cancellation, report: reporter(req) }
+        );
+
+        await withDeadline(executor.run(), options.timeout, cancellation);
+        warnIfNoResponse(res, executor.stoppedBy);
+      } catch (err) {
+        await handleError(err, req);
+        sendProblem(res, err);
+      } finally {
+        cancellation.release();
+      }
     };
-  };
+  }
+
+  /**
+   * Rethrow errors that reach the top of the stack, unless
+   * the `onError` option is enabled
+   */
+  async function handleError(error: unknown, req: NextApiRequest | Request) {
+    if (!options.onError) {
+      throw error;
+    }
+
+    if (typeof options.onError === "function") {
+      await options.onError(error, req);
+    }
+  }
+
+  /**
+   * Report errors that can no longer fail the chain with the
+   * `onError` function, or as a warning outside of production
+   */
+  function reporter(req: NextApiRequest | Request) {
+    return (error: Error) => {
+      const { onError } = options;
+
+      if (typeof onError !== "function") {
+        warnInDevelopment(error.message);
+        return;
+      }
+
+      Promise.resolve()
+        .then(() => onError(error, req))
+        .catch((err) => warnInDevelopment(String(err)));
+    };
+  }
+
+  return curryApiHandler;
 }
 
 export class Executor {
   /**
    * The first middleware function in the queue
    */
-  currentFn: Middleware;
+  currentFn: Middleware<any, any, any>;
 
   /**
    * Middleware remaining in the queue
    */
-  remaining: Middleware[];
+  remaining: Middleware<any, any, any>[];
 
   /**
    * The return value of `currentFn`
@@ -52,16 +189,46 @@ export class Executor {
    */
   stackPosition: number;
 
+  /**
+   * Values added by middleware, shared by every executor in
+   * the chain and exposed to middleware as `req.locals`
+   */
+  locals: Record<PropertyKey, unknown>;
+
+  /**
+   * Timing of `currentFn`, when instrumentation hooks are used
+   */
+  span?: MiddlewareSpan;
+
+  /**
+   * The executor whose middleware stopped the chain without
+   * calling `next` (this one or one further down the stack)
+   */
+  stoppedBy?: Executor;
+
+  /**
+   * Whether `currentFn` has finished, after which
+   * calling `next` is a mistake
+   */
+  finished = false;
+
+  /**
+   * Stops the `middlewareTimeout` timer of the current phase
+   */
+  stopTimeout = () => {};
+
   constructor(
-    [currentFn, ...remaining]: Middleware[],
+    [currentFn, ...remaining]: Middleware<any, any, any>[],
     public apiRouteFn: NextApiHandler,
     public req: NextApiRequest,
     public res: NextApiResponse,
-    previousStackPosition?: number
+    previousStackPosition?: number,
+    public settings: ExecutorSettings = {}
   ) {
     this.currentFn = currentFn;
     this.remaining = remaining;
     this.stackPosition = 1 + (previousStackPosition || 0);
+    this.locals = attachLocals(req);
   }
 
   /**
@@ -77,9 +244,49 @@ export class Executor {
     try {
       const cleanupPromise = controlledPromise();
 
+      this.span = this.settings.tracer?.start(
+        this.currentFn,
+        this.stackPosition,
+        this.req,
+        this.res
+      );
+
+      let nextCalled = false;
+      let responseEnded = false;
+
+      // Resolved to run the rest of the queue
+      const proceed = controlledPromise();
+
+      const markFinished = () => {
+        this.finished = true;
+      };
+      this.internalPromise.promise.then(markFinished, markFinished);
+
       // Call the current function
       this.result = this.currentFn(this.req, this.res, (error?: any) => {
+        if (this.finished && this.settings.cancellation?.signal?.aborted) {
+          // The chain was cancelled (e.g. by a timeout) before this call
+          return rejectedNext(this.settings.cancellation.signal.reason);
+        }
+
+        if (this.finished || nextCalled) {
+          // Never run the rest of the queue again
+          return this.rejectNext(
+            this.finished
+              ? "called next() after the chain finished"
+              : "called next() more than once"
+          );
+        }
+
+        nextCalled = true;
+        responseEnded = Boolean(this.res?.writableEnded);
+        this.stopTimeout();
         cleanupPromise.resolve();
+        this.span?.next();
+
+        // Continue in the async context `next` was called from, so that
+        // e.g. `AsyncLocalStorage.run(value, next)` reaches the rest of the chain
+        proceed.promise.then(() => this.runRemaining());
 
         // Look for errors from synchronous middleware
         if (error) {
@@ -92,36 +299,124 @@ export class Executor {
       });
 
       let asyncMiddlewareFailed = false;
+      let shortCircuited = false;
+
+      // Middleware that finishes without calling `next` deliberately
+      // stops the chain, so the rest of the queue is skipped
+      const shortCircuit = () => {
+        shortCircuited = true;
+        this.stoppedBy = this;
+        cleanupPromise.resolve();
+        this.succeed();
+      };
 
       // Add handlers to async middleware, if available
       if (isPromise(this.result)) {
+        if (!nextCalled) {
+          this.stopTimeout = this.startTimeout("setup", (error) => {
+            asyncMiddlewareFailed = true;
+            cleanupPromise.resolve();
+            this.fail(error);
+          });
+        }
+
         this.result.then(
           () => {
-            this.succeed();
+            this.stopTimeout();
+
+            if (nextCalled) {
+              this.succeed();
+            } else {
+              shortCircuit();
+            }
           },
           (err) => {
+            this.stopTimeout();
             asyncMiddlewareFailed = true;
             cleanupPromise.resolve();
             this.fail(err);
           }
         );
+      } else if (!nextCalled) {
+        // Callback-style middleware may call `next` later (e.g. from a
+        // timer), so it only stops the chain once the response ends
+        const stopSetupTimeout = this.startTimeout("setup", (error) => {
+          asyncMiddlewareFailed = true;
+          cleanupPromise.resolve();
+          this.fail(error);
+        });
+
+        // Point out middleware that forgot to call `next`. Without
+        // response events, this is also where the chain stops.
+        const stopStallCheck = startTimer(STALLED_MIDDLEWARE_DELAY, () => {
+          if (nextCalled || asyncMiddlewareFailed) {
+            return;
+          }
+
+          if (!this.res?.writableEnded) {
+            warnInDevelopment(
+              `${this.describe()} neither called next() nor ended the response within ${STALLED_MIDDLEWARE_DELAY}ms`
+            );
+          }
+
+          if (typeof this.res?.once !== "function") {
+            this.stopTimeout();
+            shortCircuit();
+          }
+        });
+
+        this.stopTimeout = () => {
+          stopSetupTimeout();
+          stopStallCheck();
+        };
+
+        this.whenResponseEnds(() => {
+          if (!nextCalled && !asyncMiddlewareFailed) {
+            this.stopTimeout();
+            shortCircuit();
+          }
+        });
       }
 
       await cleanupPromise.promise;
 
       // Use a microtask to give async middleware a chance to fail
       queueMicrotask(() => {
-        if (!asyncMiddlewareFailed) {
-          // Things look good so far – execute the rest of the queue
-          this.runRemaining();
+        if (asyncMiddlewareFailed || shortCircuited) {
+          return;
         }
+
+        if (responseEnded) {
+          // The middleware ended the response but still called `next`
+          // (e.g. it forgot to return), so skip the rest of the queue
+          warnInDevelopment(
+            `${this.describe()} called next() after ending the response; the rest of the chain was skipped`
+          );
+          this.stoppedBy = this;
+          this.finish();
+          return;
+        }
+
+        // Things look good so far – execute the rest of the queue
+        proceed.resolve();
       });
     } catch (err) {
       // Catches errors from synchronous middleware
       this.fail(err);
     }
 
-    return this.internalPromise.promise;
+    if (!this.span) {
+      return this.internalPromise.promise;
+    }
+
+    const span = this.span;
+    return this.internalPromise.promise.then(
+      () => span.exit(),
+      (err) => {
+        span.fail(err);
+        throw err;
+      }
+    );
   }
 
   /**
@@ -140,10 +435,12 @@ export class Executor {
           this.apiRouteFn,
           this.req,
           this.res,
-          this.stackPosition
+          this.stackPosition,
+          this.settings
         );
 
         await remainingExecutor.run();
+        this.stoppedBy = remainingExecutor.stoppedBy;
       }
 
       // The remaining queue is now empty
@@ -153,6 +450,72 @@ export class Executor {
     }
   }
 
+  /**
+   * Call back once the response has ended, right away if it already has
+   */
+  whenResponseEnds(callback: () => void) {
+    if (this.res?.writableEnded) {
+      callback();
+      return;
+    }
+
+    if (typeof this.res?.once !== "function") {
+      // Without events, only a call of `next` or the stall check
+      // in `run` settles the middleware
+      return;
+    }
+
+    let called = false;
+    const once = () => {
+      if (!called) {
+        called = true;
+        callback();
+      }
+    };
+
+    this.res.once("finish", once);
+    this.res.once("close", once);
+  }
+
+  /**
+   * Reject a repeated or late call of `next` with a descriptive error.
+   * In strict mode, the error also fails the chain.
+   */
+  rejectNext(problem: string): Promise<never> {
+    const error = new Error(`${this.describe()} ${problem}`);
+
+    if (this.settings.strict && !this.finished) {
+      this.fail(error);
+    }
+
+    return misusedNext(error, this.settings, this.finished);
+  }
+
+  /**
+   * Fail with a `TimeoutError` if the current middleware spends
+   * longer than the `middlewareTimeout` option in this phase
+   */
+  startTimeout(
+    phase: "setup" | "teardown",
+    onTimeout: (error: TimeoutError) => void
+  ): () => void {
+    return startMiddlewareTimeout(
+      this.settings,
+      this.describe(),
+      phase,
+      onTimeout
+    );
+  }
+
+  /**
+   * Identify the current middleware in diagnostics
+   */
+  describe(): string {
+    return `Middleware "${this.currentFn.name || "anonymous"}" at position ${
+      this.stackPosition
+    }`;
+  }
+
   /**
    * Ensure this executor finishes by handling errors
    * correctly, resuming async middleware (if the current
@@ -160,8 +523,12 @@ export class Executor {
    * promise as a success.
    */
   finish(error?: any) {
+    this.span?.settled();
+
     if (isPromise(this.result)) {
       // Current middleware is async
+      this.stopTimeout = this.startTimeout("teardown", this.fail);
+
       if (error) {
         // Let the result have a chance to handle the error
         this.teardownPromise.reject(error);
@@ -181,3 +548,327 @@ export class Executor {
     }
   }
 }
+
+export class WebExecutor {
+  /**
+   * The first middleware function in the queue
+   */
+  currentFn?: WebMiddleware;
+
+  /**
+   * Middleware remaining in the queue
+   */
+  remaining: WebMiddleware[];
+
+  /**
+   * Integer representing the position of the executor in
+   * the "stack" of all middleware, starting at `1`
+   */
+  stackPosition: number;
+
+  /**
+   * Values added by middleware, shared by every executor in
+   * the chain and exposed to middleware as `request.locals`
+   */
+  locals: Record<PropertyKey, unknown>;
+
+  constructor(
+    [currentFn, ...remaining]: WebMiddleware[],
+    public routeFn: WebHandler,
+    public request: Request,
+    public context: unknown,
+    previousStackPosition?: number,
+    public settings: ExecutorSettings = {}
+  ) {
+    this.currentFn = currentFn;
+    this.remaining = remaining;
+    this.stackPosition = 1 + (previousStackPosition || 0);
+    this.locals = attachLocals(request);
+  }
+
+  /**
+   * Execute the current middleware function and resolve
+   * with the response for this part of the chain.
+   *
+   * Errors are not caught here: they reject the promise
+   * returned by `next` in the previous middleware, which
+   * may handle them or let them continue up the stack.
+   */
+  async run(): Promise<Response> {
+    if (!this.currentFn) {
+      // No middleware, execute the route handler
+      return this.routeFn(
+        this.request as Request & { locals: {} },
+        this.context
+      );
+    }
+
+    const span = this.settings.tracer?.start(
+      this.currentFn,
+      this.stackPosition,
+      this.request
+    );
+
+    try {
+      const response = await this.runCurrent(this.currentFn, span);
+      span?.exit(response);
+      return response;
+    } catch (err) {
+      span?.fail(err);
+      throw err;
+    }
+  }
+
+  /**
+   * Execute the current middleware function, which produces
+   * a response or lets the downstream response through
+   */
+  async runCurrent(
+    currentFn: WebMiddleware,
+    span?: MiddlewareSpan
+  ): Promise<Response> {
+    let downstream: Promise<Response> | undefined;
+    let finished = false;
+    let misuse: Error | undefined;
+
+    // Settles only when the current phase takes too long
+    let rejectTimeout: (error: TimeoutError) => void = () => {};
+    const timedOut = new Promise<never>((_, reject) => {
+      rejectTimeout = reject;
+    });
+    let stopTimeout = () => {};
+    const startTimeout = (phase: "setup" | "teardown") => {
+      stopTimeout = startMiddlewareTimeout(
+        this.settings,
+        this.describe(),
+        phase,
+        rejectTimeout
+      );
+    };
+
+    let result: Response | void;
+    try {
+      startTimeout("setup");
+      result = await Promise.race([
+        currentFn(
+          this.request as Request & { locals: {} },
+          this.context,
+          () => {
+            if (finished && this.settings.cancellation?.signal?.aborted) {
+              // The chain was cancelled (e.g. by a timeout) before this call
+              return rejectedNext(this.settings.cancellation.signal.reason);
+            }
+
+            if (finished || downstream) {
+              // Never run the rest of the queue again
+              misuse = new Error(
+                `${this.describe()} ${
+                  finished
+                    ? "called next() after the chain finished"
+                    : "called next() more than once"
+                }`
+              );
+              return misusedNext(misuse, this.settings, finished);
+            }
+
+            stopTimeout();
+            span?.next();
+            downstream = this.runRemaining();
+
+            const settled = () => {
+              span?.settled();
+
+              if (!finished) {
+                startTimeout("teardown");
+              }
+            };
+            downstream.then(settled, settled);
+
+            return downstream;
+          }
+        ),
+        timedOut,
+      ]);
+    } finally {
+      finished = true;
+      stopTimeout();
+    }
+
+    if (misuse && this.settings.strict) {
+      // Fail even if the middleware caught the error
+      throw misuse;
+    }
+
+    if (result) {
+      // The middleware produced (or replaced) the response
+      return result;
+    }
+
+    if (downstream) {
+      // The middleware let the downstream response through
+      return downstream;
+    }
+
+    throw new Error(
+      `${this.describe()} neither called next() nor returned a Response`
+    );
+  }
+
+  /**
+   * Identify the current middleware in diagnostics
+   */
+  describe(): string {
+    return `Middleware "${this.currentFn?.name || "anonymous"}" at position ${
+      this.stackPosition
+    }`;
+  }
+
+  /**
+   * Execute the remaining middleware, or the route
+   * handler if the queue is empty
+   */
+  runRemaining(): Promise<Response> {
+    return new WebExecutor(
+      this.remaining,
+      this.routeFn,
+      this.request,
+      this.context,
+      this.stackPosition,
+      this.settings
+    ).run();
+  }
+}
+
+/**
+ * Settings shared by every executor in a chain
+ */
+type ExecutorSettings = {
+  /**
+   * Reports timing to instrumentation hooks
+   */
+  tracer?: MiddlewareTracer;
+
+  /**
+   * Whether misuse of `next` fails the chain
+   */
+  strict?: boolean;
+
+  /**
+   * Milliseconds each middleware may spend in setup or teardown
+   */
+  middlewareTimeout?: number;
+
+  /**
+   * The signal of the current run of the chain
+   */
+  cancellation?: Cancellation;
+
+  /**
+   * Reports errors that can no longer fail the chain
+   */
+  report?: (error: Error) => void;
+};
+
+/**
+ * Respond to a repeated or late call of `next` with a rejected promise
+ * (or, in strict mode while the chain runs, by throwing the error).
+ * Once the chain has finished, throwing would only reach whatever
+ * called `next` (such as a timer), so the error is reported instead.
+ */
+function misusedNext(
+  error: Error,
+  settings: ExecutorSettings,
+  chainFinished: boolean
+): Promise<never> {
+  if (settings.strict && !chainFinished) {
+    throw error;
+  }
+
+  if (chainFinished && settings.report) {
+    settings.report(error);
+  } else {
+    warnInDevelopment(error.message);
+  }
+
+  return rejectedNext(error);
+}
+
+/**
+ * Reject a call of `next` that can no longer run the rest of the chain
+ */
+function rejectedNext(reason: unknown): Promise<never> {
+  const rejection = Promise.reject(reason);
+  // Avoid an unhandled rejection when the call is not awaited
+  rejection.catch(() => {});
+  return rejection;
+}
+
+/**
+ * Call back with a `TimeoutError` (after aborting the signal of the
+ * chain) if a phase of a middleware call outlasts `middlewareTimeout`,
+ * returning a function that stops the timer
+ */
+function startMiddlewareTimeout(
+  settings: ExecutorSettings,
+  description: string,
+  phase: "setup" | "teardown",
+  onTimeout: (error: TimeoutError) => void
+): () => void {
+  const timeout = settings.middlewareTimeout;
+
+  return startTimer(timeout, () => {
+    const error = new TimeoutError(
+      `${description} timed out after ${timeout}ms during ${phase}`
+    );
+    settings.cancellation?.abort(error);
+    onTimeout(error);
+  });
+}
+
+/**
+ * Check whether a route was invoked with a Fetch `Request`
+ * (App Router) rather than a Node.js request (Pages Router)
+ */
+export function isWebRequest(input: unknown): input is Request {
+  return typeof Request !== "undefined" && input instanceof Request;
+}
+
+/**
+ * Warn when a chain finishes without a response, which leaves
+ * the request hanging
+ */
+function warnIfNoResponse(res: NextApiResponse, stoppedBy?: Executor) {
+  // Only check real responses (not partial test doubles)
+  if (
+    typeof res?.headersSent !== "boolean" ||
+    typeof res?.writableEnded !== "boolean" ||
+    res.headersSent ||
+    res.writableEnded
+  ) {
+    return;
+  }
+
+  warnInDevelopment(
+    stoppedBy
+      ? `${stoppedBy.describe()} stopped the chain without sending a response`
+      : "The API route handler finished without sending a response"
+  );
+}
+
+/**
+ * Ensure the request has a `locals` object, reusing one
+ * that already exists (e.g. from an outer chain)
+ */
+function attachLocals(
+  req: NextApiRequest | Request
+): Record<PropertyKey, unknown> {
+  const target = req as (NextApiRequest | Request) & {
+    locals?: Record<PropertyKey, unknown>;
+  };
+
+  if (typeof target.locals !== "object" || target.locals === null) {
+    target.locals = {};
+  }
+
+  return target.locals;
+}
@@ -0,0 +1,258 @@
+import { EventEmitter } from "events";
+import { NextApiRequest, NextApiResponse } from "next";
+import { ExpressErrorMiddleware, fromExpress, toExpress } from "./express";
+import { isNodeOnlyMiddleware } from "./runtime";
+import { Middleware } from "./types";
+import { use } from "./use";
+import { isValidMiddleware } from "./validation";
+
+class MockResponse extends EventEmitter {
+  statusCode = 200;
+  writableEnded = false;
+  body?: string;
+
+  end(body?: string) {
+    this.body = body;
+    this.writableEnded = true;
+    setImmediate(() => this.emit("finish"));
+  }
+}
+
+function run(
+  middleware: Middleware[],
+  handler = jest.fn(),
+  res = new MockResponse()
+) {
+  return use(...middleware)(handler)(
+    {} as NextApiRequest,
+    res as unknown as NextApiResponse
+  );
+}
+
+describe("fromExpress", () => {
+  it("creates valid, Node-only middleware", () => {
+    const middleware = fromExpress((req, res, next) => next());
+
+    expect(isValidMiddleware(middleware)).toBe(true);
+    expect(isNodeOnlyMiddleware(middleware)).toBe(true);
+    expect(isValidMiddleware(fromExpress(() => {}))).toBe(true);
+  });
+
+  it("continues the chain when next is called", async () => {
+    const handler = jest.fn();
+
+    await run(
+      [
+        fromExpress((req, res, next) => {
+          req.seen = true;
+          setImmediate(next);
+        }),
+      ],
+      handler
+    );
+
+    expect(handler).toHaveBeenCalled();
+    expect(handler.mock.calls[0][0].seen).toBe(true);
+  });
+
+  it("continues the chain when next is called with route", async () => {
+    const handler = jest.fn();
+
+    await run([fromExpress((req, res, next) => next("route"))], handler);
+
+    expect(handler).toHaveBeenCalled();
+  });
+
+  it("throws errors passed to next", async () => {
+    const error = new Error("Failed");
+
+    await expect(
+      run([fromExpress((req, res, next) => next(error))])
+    ).rejects.toBe(error);
+  });
+
+  it("throws errors thrown by the middleware", async () => {
+    const error = new Error("Failed");
+
+    await expect(
+      run([
+        fromExpress(() => {
+          throw error;
+        }),
+      ])
+    ).rejects.toBe(error);
+
+    await expect(
+      run([
+        fromExpress(async () => {
+          throw error;
+        }),
+      ])
+    ).rejects.toBe(error);
+  });
+
+  it("stops the chain when the response is ended", async () => {
+    const log: string[] = [];
+    const handler = jest.fn();
+
+    const outer = async (req: any, res: any, next: any) => {
+      log.push("setup outer");
+      await next();
+      log.push("teardown outer");
+    };
+
+    for (const end of [
+      (res: MockResponse) => res.end("Sync"),
+      (res: MockResponse) => setImmediate(() => res.end("Async")),
+    ]) {
+      await run([outer, fromExpress((req, res) => end(res))], handler);
+    }
+
+    expect(handler).not.toHaveBeenCalled();
+    expect(log).toEqual([
+      "setup outer",
+      "teardown outer",
+      "setup outer",
+      "teardown outer",
+    ]);
+  });
+
+  describe("with error middleware", () => {
+    it("handles errors from the rest of the chain", async () => {
+      const res = new MockResponse();
+      const errorMiddleware = jest.fn((err, req, res, next) => {
+        res.statusCode = 500;
+        res.end(err.message);
+      });
+
+      await run(
+        [fromExpress(errorMiddleware)],
+        jest.fn(() => {
+          throw new Error("Handler failed");
+        }),
+        res
+      );
+
+      expect(res.statusCode).toBe(500);
+      expect(res.body).toBe("Handler failed");
+    });
+
+    it("rethrows errors passed to next", async () => {
+      const error = new Error("Handler failed");
+      const replacement = new Error("Replaced");
+      const replace: ExpressErrorMiddleware = (err, req, res, next) =>
+        next(replacement);
+
+      await expect(
+        run(
+          [fromExpress(replace)],
+          jest.fn(() => {
+            throw error;
+          })
+        )
+      ).rejects.toBe(replacement);
+    });
+
+    it("is not called without errors", async () => {
+      const errorMiddleware = jest.fn((err, req, res, next) => next());
+      const handler = jest.fn();
+
+      await run([fromExpress(errorMiddleware)], handler);
+
+      expect(handler).toHaveBeenCalled();
+      expect(errorMiddleware).not.toHaveBeenCalled();
+    });
+  });
+});
+
+describe("toExpress", () => {
+  it("runs the Express stack in place of the API route handler", async () => {
+    const log: string[] = [];
+    const res = new MockResponse();
+
+    const middleware = toExpress(
+      use(async (req, res, next) => {
+        log.push("setup");
+        await next();
+        log.push("teardown");
+      })
+    );
+
+    await new Promise<void>((resolve) => {
+      middleware({}, res, () => {
+        log.push("express");
+        res.end("OK");
+        res.once("finish", () => setImmediate(resolve));
+      });
+    });
+
+    expect(log).toEqual(["setup", "express", "teardown"]);
+  });
+
+  it("passes errors to next", async () => {
+    const error = new Error("Failed");
+
+    const next = await new Promise((resolve) => {
+      toExpress(
+        use(async (req, res, next) => {
+          throw error;
+        })
+      )({}, new MockResponse(), resolve);
+    });
+
+    expect(next).toBe(error);
+  });
+
+  it("does not call next when the chain stops early", async () => {
+    const next = jest.fn();
+    const res = new MockResponse();
+
+    toExpress(
+      use(async (req, res, next) => {
+        res.end("Unauthorized");
+      })
+    )({}, res, next);
+
+    await new Promise((resolve) => res.once("finish", resolve));
+
+    expect(next).not.toHaveBeenCalled();
+  });
+
+  it("finishes the chain for responses that do not emit events", async () => {
+    const teardown = jest.fn();
+    const next = jest.fn();
+
+    toExpress(
+      use(async (req, res, next) => {
+        await next();
+        teardown();
+      })
+    )({}, { writableEnded: false }, next);
+    await new Promise((resolve) => setImmediate(resolve));
+
+    expect(next).toHaveBeenCalledTimes(1);
+    expect(teardown).toHaveBeenCalled();
+  });
+
+  it("calls next once when teardown fails", async () => {
+    const warn = jest.spyOn(console, "warn").mockImplementation(() => {});
+    const res = new MockResponse();
+    const next = jest.fn(() => res.end("OK"));
+
+    toExpress(
+      use(async (req, res, next) => {
+        await next();
+        throw new Error("Teardown failed");
+      })
+    )({}, res, next);
+    await new Promise((resolve) => res.once("finish", resolve));
+    await new Promise((resolve) => setImmediate(resolve));
+
+    expect(next).toHaveBeenCalledTimes(1);
+    expect(next).toHaveBeenCalledWith();
+    expect(warn).toHaveBeenCalledWith(
+      "[next-api-middleware] Middleware failed after the Express stack continued: Teardown failed"
+    );
+    warn.mockRestore();
+  });
+});
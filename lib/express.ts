@@ -0,0 +1,178 @@
+import type { IncomingMessage, ServerResponse } from "http";
+import type { NextApiRequest, NextApiResponse } from "next";
+import { warnInDevelopment } from "./env";
+import { nodeOnly } from "./runtime";
+import { ApiRouteWrapper, Middleware } from "./types";
+
+/**
+ * Express/Connect middleware, which calls `next` (optionally with
+ * an error) or ends the response
+ */
+export type ExpressMiddleware<
+  Request = IncomingMessage,
+  Response = ServerResponse
+> = (req: Request, res: Response, next: (error?: unknown) => void) => unknown;
+
+/**
+ * Express error-handling middleware, recognized by its four parameters
+ */
+export type ExpressErrorMiddleware<
+  Request = IncomingMessage,
+  Response = ServerResponse
+> = (
+  error: unknown,
+  req: Request,
+  res: Response,
+  next: (error?: unknown) => void
+) => unknown;
+
+/**
+ * Adapt Express/Connect middleware (such as `helmet()` or `morgan()`)
+ * for use with `use` and `label`.
+ *
+ * Middleware that ends the response without calling `next` stops the
+ * chain. Error-handling middleware (with four parameters) handles errors
+ * thrown by the middleware and API route handler after it, so it should
+ * be placed at the start of the chain.
+ */
+export function fromExpress(
+  middleware: ExpressMiddleware<any, any>
+): Middleware<NextApiRequest, NextApiResponse>;
+export function fromExpress(
+  middleware: ExpressErrorMiddleware<any, any>
+): Middleware<NextApiRequest, NextApiResponse>;
+export function fromExpress(
+  middleware: ExpressMiddleware<any, any> | ExpressErrorMiddleware<any, any>
+): Middleware<NextApiRequest, NextApiResponse> {
+  if (middleware.length === 4) {
+    return nodeOnly(
+      adaptErrorMiddleware(middleware as ExpressErrorMiddleware<any, any>)
+    );
+  }
+
+  return nodeOnly(async function expressMiddleware(req, res, next) {
+    const called = await callExpressMiddleware(res, (done) =>
+      (middleware as ExpressMiddleware<any, any>)(req, res, done)
+    );
+
+    if (called) {
+      await next();
+    }
+  });
+}
+
+/**
+ * Convert a middleware wrapper (returned by `use` or `label`) into
+ * Express middleware. The rest of the Express stack runs in place
+ * of the API route handler, and teardown runs once it has responded
+ * (or straight away, for responses that do not emit events).
+ */
+export function toExpress(
+  wrapper: ApiRouteWrapper<any>
+): ExpressMiddleware<any, any> {
+  return function expressMiddleware(req, res, next) {
+    let continued = false;
+
+    const apiRoute = wrapper(
+      () =>
+        new Promise<void>((resolve) => {
+          if (!onResponseEnd(res, resolve)) {
+            resolve();
+          }
+
+          continued = true;
+          next();
+        })
+    );
+
+    Promise.resolve(apiRoute(req, res)).catch((err) => {
+      if (!continued) {
+        next(err);
+        return;
+      }
+
+      // The Express stack has moved on, and cannot receive the error
+      warnInDevelopment(
+        `Middleware failed after the Express stack continued: ${
+          err instanceof Error ? err.message : String(err)
+        }`
+      );
+    });
+  };
+}
+
+function adaptErrorMiddleware(
+  middleware: ExpressErrorMiddleware<any, any>
+): Middleware<NextApiRequest, NextApiResponse> {
+  return async function expressErrorMiddleware(req, res, next) {
+    try {
+      await next();
+    } catch (err) {
+      // Errors passed on by the error middleware are rethrown
+      await callExpressMiddleware(res, (done) =>
+        middleware(err, req, res, done)
+      );
+    }
+  };
+}
+
+/**
+ * Call Express middleware, resolving with `true` if it called `next`
+ * or `false` if it ended the response instead
+ */
+function callExpressMiddleware(
+  res: ServerResponse,
+  call: (done: (error?: unknown) => void) => unknown
+): Promise<boolean> {
+  return new Promise((resolve, reject) => {
+    const stopListening =
+      onResponseEnd(res, () => resolve(false)) || (() => {});
+
+    const done = (error?: unknown) => {
+      stopListening();
+
+      // Express uses `next("route")` and `next("router")` to skip routes
+      if (error && error !== "route" && error !== "router") {
+        reject(error);
+      } else {
+        resolve(true);
+      }
+    };
+
+    try {
+      const result = call(done);
+
+      // Express 5 supports async middleware
+      if (result instanceof Promise) {
+        result.catch(done);
+      }
+    } catch (err) {
+      done(err);
+    }
+
+    if (res.writableEnded) {
+      // The response was ended synchronously
+      stopListening();
+      resolve(false);
+    }
+  });
+}
+
+/**
+ * Call back once the response has been sent (or the connection closed),
+ * returning a function that stops listening, or `undefined` if the
+ * response does not emit events
+ */
+function onResponseEnd(res: ServerResponse, callback: () => void) {
+  if (typeof res.once !== "function") {
+    return undefined;
+  }
+
+  res.once("finish", callback);
+  res.once("close", callback);
+
+  return () => {
+    res.off("finish", callback);
+    res.off("close", callback);
+  };
+}
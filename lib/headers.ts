@@ -0,0 +1,41 @@
+import type { NextApiResponse } from "next";
+
+/**
+ * Add a field to the `Vary` header, keeping any already listed
+ */
+export function appendVary(res: NextApiResponse, field: string) {
+  const vary = addVaryField(res.getHeader("Vary"), field);
+  if (vary) {
+    res.setHeader("Vary", vary);
+  }
+}
+
+/**
+ * Add a field to the `Vary` header of a web response
+ */
+export function appendWebVary(headers: Headers, field: string) {
+  const vary = addVaryField(headers.get("Vary"), field);
+  if (vary) {
+    headers.set("Vary", vary);
+  }
+}
+
+/**
+ * A `Vary` header value with a field added, or `undefined`
+ * when the field is already covered
+ */
+function addVaryField(value: unknown, field: string): string | undefined {
+  const fields = String(value || "")
+    .split(",")
+    .map((value) => value.trim())
+    .filter(Boolean);
+
+  if (
+    fields.includes("*") ||
+    fields.some((value) => value.toLowerCase() === field.toLowerCase())
+  ) {
+    return undefined;
+  }
+
+  return [...fields, field].join(", ");
+}
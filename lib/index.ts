@@ -1,3 +1,18 @@
+export * from "./access-log";
+export * from "./conditions";
+export * from "./cors";
+export * from "./define-middleware";
+export { keyed, middlewareKey } from "./duplicates";
+export * from "./errors";
+export * from "./express";
 export * from "./label";
+export * from "./methods";
+export * from "./parallel";
+export * from "./rate-limit";
+export { getRequestId, webRequestId } from "./request-id";
+export type { RequestIdLocals, RequestIdOptions } from "./request-id";
+export * from "./runtime";
+export * from "./schema";
+export * from "./tracing";
 export * from "./use";
 export * from "./types";
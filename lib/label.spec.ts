@@ -1,5 +1,10 @@
-import { Middleware } from "./types";
-import { label } from "./label";
+import { NextApiRequest, NextApiResponse } from "next";
+import { Middleware, WebMiddleware } from "./types";
+import { label, LabelDependencies } from "./label";
+
+// Mocks returning `any` would be taken for web middleware
+const mockMiddleware = (fn: Middleware) =>
+  jest.fn<ReturnType<Middleware>, Parameters<Middleware>>(fn);
 
 describe("label", () => {
   it("throws an error for invalid middleware", () => {
@@ -11,19 +16,19 @@ describe("label", () => {
     const log: string[] = [];
 
     // Setup middleware
-    const middleware1 = jest.fn((req, res, next) => next());
-    const middleware2 = jest.fn(async (req, res, next) => {
+    const middleware1 = mockMiddleware((req, res, next) => next());
+    const middleware2 = mockMiddleware(async (req, res, next) => {
       log.push("setup middleware2");
       await next();
       log.push("teardown middleware2");
     });
-    const middleware3 = jest.fn((req, res, next) => next());
-    const groupMiddleware1 = jest.fn(async (req, res, next) => {
+    const middleware3 = mockMiddleware((req, res, next) => next());
+    const groupMiddleware1 = mockMiddleware(async (req, res, next) => {
       log.push("setup groupMiddleware1");
       await next();
       log.push("teardown groupMiddleware1");
     });
-    const groupMiddleware2 = jest.fn(async (req, res, next) => {
+    const groupMiddleware2 = mockMiddleware(async (req, res, next) => {
       log.push("setup groupMiddleware2");
       await next();
       log.push("teardown groupMiddleware2");
@@ -38,7 +43,10 @@ describe("label", () => {
 
     const handler = jest.fn();
 
-    await withMiddleware("sampleGroup", "two")(handler)({} as any, {} as any);
+    await withMiddleware("sampleGroup", "two")(handler)(
+      {} as NextApiRequest,
+      {} as NextApiResponse
+    );
 
     expect(middleware2).toBeCalled();
     expect(groupMiddleware1).toBeCalled();
@@ -57,7 +65,7 @@ describe("label", () => {
   });
 
   it("calls default middleware", async () => {
-    const middleware1 = jest.fn((req, res, next) => next());
+    const middleware1 = mockMiddleware((req, res, next) => next());
 
     const middlewareWithDefaults = label(
       {
@@ -68,7 +76,10 @@ describe("label", () => {
 
     const handler = jest.fn();
 
-    await middlewareWithDefaults()(handler)({} as any, {} as any);
+    await middlewareWithDefaults()(handler)(
+      {} as NextApiRequest,
+      {} as NextApiResponse
+    );
 
     expect(middleware1).toBeCalled();
     expect(handler).toBeCalled();
@@ -93,16 +104,67 @@ describe("label", () => {
     );
   });
 
+  it("reports where invalid middleware was found", () => {
+    expect(() =>
+      // @ts-expect-error
+      label({ auth: (req, res, next) => next(), cors: undefined })
+    ).toThrowError('Invalid middleware (label "cors"): ');
+
+    expect(() =>
+      label({ group: [(req, res, next) => next(), (req, res) => {}] })
+    ).toThrowError('Invalid middleware (label "group", index 1): ');
+
+    const middleware = label({ normal: (req, res, next) => next() }, [
+      "normal",
+    ]);
+
+    expect(() =>
+      middleware(
+        (req, res, next) => next(),
+        (a, b) => {}
+      )
+    ).toThrowError("Invalid middleware (argument 2): ");
+  });
+
+  it("suggests labels for misspelled names", () => {
+    const middleware = label({
+      auth: (req, res, next) => next(),
+      cors: (req, res, next) => next(),
+    });
+
+    // @ts-expect-error
+    expect(() => middleware("atuh")).toThrowError(
+      'Middleware "atuh" not available. Did you mean "auth"?'
+    );
+  });
+
+  it("accepts middleware with any arity when allowAnyArity is enabled", async () => {
+    const withDefault = jest.fn<ReturnType<Middleware>, Parameters<Middleware>>(
+      (req, res, next = async () => {}) => next()
+    );
+    const withMiddleware = label({ withDefault }, [], { allowAnyArity: true });
+
+    await withMiddleware("withDefault")(jest.fn())(
+      {} as NextApiRequest,
+      {} as NextApiResponse
+    );
+
+    expect(withDefault).toBeCalled();
+  });
+
   it("adds groups to final executed middleware", async () => {
-    const m0: Middleware = jest.fn((req, res, next) => next());
-    const m1: Middleware = jest.fn((req, res, next) => next());
-    const m2: Middleware = jest.fn((req, res, next) => next());
+    const m0: Middleware = mockMiddleware((req, res, next) => next());
+    const m1: Middleware = mockMiddleware((req, res, next) => next());
+    const m2: Middleware = mockMiddleware((req, res, next) => next());
 
     const middleware = label({
       m0,
     });
 
-    await middleware([m1, m2], "m0")(jest.fn())({} as any, {} as any);
+    await middleware([m1, m2], "m0")(jest.fn())(
+      {} as NextApiRequest,
+      {} as NextApiResponse
+    );
     expect(m1).toBeCalled();
     expect(m2).toBeCalled();
     expect(m0).toBeCalled();
@@ -111,13 +173,320 @@ describe("label", () => {
   it("executes inline middleware", async () => {
     const middleware = label({});
 
-    const inlineFn = jest.fn((req, res, next) => next());
+    const inlineFn = mockMiddleware((req, res, next) => next());
 
     await middleware(inlineFn, inlineFn, inlineFn)(jest.fn())(
-      {} as any,
-      {} as any
+      {} as NextApiRequest,
+      {} as NextApiResponse
     );
 
     expect(inlineFn).toBeCalledTimes(3);
   });
+
+  describe("registries", () => {
+    const noop = () => mockMiddleware((req, res, next) => next());
+
+    it("lists registered labels and defaults", () => {
+      const auth = noop();
+      const withMiddleware = label({ auth, logErrors: noop() }, ["logErrors"]);
+
+      expect(withMiddleware.labels).toEqual(["auth", "logErrors"]);
+      expect(withMiddleware.defaults).toEqual(["logErrors"]);
+      expect(withMiddleware.middleware.auth).toBe(auth);
+    });
+
+    it("extends labels without changing the original", async () => {
+      const logErrors = noop();
+      const cors = noop();
+      const shared = label({ logErrors }, ["logErrors"]);
+      const app = shared.extend({ cors }, ["cors"]);
+
+      await app()(jest.fn())({} as NextApiRequest, {} as NextApiResponse);
+
+      expect(logErrors).toBeCalledTimes(1);
+      expect(cors).toBeCalledTimes(1);
+      expect(app.defaults).toEqual(["logErrors", "cors"]);
+      expect(shared.labels).toEqual(["logErrors"]);
+    });
+
+    it("refuses to extend registered labels", () => {
+      const shared = label({ logErrors: noop() });
+
+      // @ts-expect-error
+      expect(() => shared.extend({ logErrors: noop() })).toThrowError(
+        'Cannot extend labels that are already registered ("logErrors"); use override() to replace them'
+      );
+    });
+
+    it("overrides registered labels", async () => {
+      const original = noop();
+      const replacement = noop();
+      const app = label({ logErrors: original }, ["logErrors"]).override({
+        logErrors: replacement,
+      });
+
+      await app()(jest.fn())({} as NextApiRequest, {} as NextApiResponse);
+
+      expect(original).not.toBeCalled();
+      expect(replacement).toBeCalled();
+    });
+
+    it("refuses to override labels that are not registered", () => {
+      const shared = label({ logErrors: noop() });
+
+      // @ts-expect-error
+      expect(() => shared.override({ logError: noop() })).toThrowError(
+        'Cannot override label "logError", which is not registered. Did you mean "logErrors"?'
+      );
+    });
+
+    it("merges registries", async () => {
+      const logErrors = noop();
+      const cors = noop();
+      const merged = label({ logErrors }, ["logErrors"]).merge(
+        label({ logErrors, cors }, ["logErrors", "cors"])
+      );
+
+      await merged()(jest.fn())({} as NextApiRequest, {} as NextApiResponse);
+
+      expect(merged.labels).toEqual(["logErrors", "cors"]);
+      expect(merged.defaults).toEqual(["logErrors", "cors"]);
+      expect(logErrors).toBeCalledTimes(1);
+      expect(cors).toBeCalledTimes(1);
+    });
+
+    it("refuses to merge conflicting labels", () => {
+      const a = label({ logErrors: noop(), group: [noop()] });
+      const b = label({ logErrors: noop(), group: a.middleware.group });
+
+      expect(() => a.merge(b)).toThrowError(
+        'Cannot merge labels that refer to different middleware ("logErrors")'
+      );
+    });
+
+    it("validates added middleware", () => {
+      // @ts-expect-error
+      expect(() => label({}).extend({ broken: NaN })).toThrowError(
+        'Invalid middleware (label "broken")'
+      );
+    });
+  });
+
+  describe("exclusions and dependencies", () => {
+    const named = (log: string[], name: string) =>
+      mockMiddleware(async (req, res, next) => {
+        log.push(name);
+        await next();
+      });
+
+    it("skips excluded defaults", async () => {
+      const log: string[] = [];
+      const withMiddleware = label(
+        { auth: named(log, "auth"), cors: named(log, "cors") },
+        ["auth", "cors"]
+      );
+
+      await withMiddleware("!auth")(jest.fn())(
+        {} as NextApiRequest,
+        {} as NextApiResponse
+      );
+
+      expect(log).toEqual(["cors"]);
+    });
+
+    it("refuses to choose and exclude a label", () => {
+      const withMiddleware = label({ auth: named([], "auth") });
+
+      expect(() => withMiddleware("auth", "!auth")).toThrowError(
+        'Label "auth" is both chosen and excluded'
+      );
+      // @ts-expect-error
+      expect(() => withMiddleware("!atuh")).toThrowError(
+        'Middleware "atuh" not available. Did you mean "auth"?'
+      );
+    });
+
+    it("runs required labels first, once", async () => {
+      const log: string[] = [];
+      const withMiddleware = label(
+        {
+          connectDatabase: named(log, "connectDatabase"),
+          loadUser: named(log, "loadUser"),
+          loadTeam: named(log, "loadTeam"),
+        },
+        [],
+        {
+          dependencies: {
+            loadUser: { requires: ["connectDatabase"] },
+            loadTeam: { requires: ["connectDatabase", "loadUser"] },
+          },
+        }
+      );
+
+      await withMiddleware(
+        "loadTeam",
+        "loadUser",
+        "connectDatabase"
+      )(jest.fn())({} as NextApiRequest, {} as NextApiResponse);
+
+      expect(log).toEqual(["connectDatabase", "loadUser", "loadTeam"]);
+    });
+
+    it("applies the duplicates policy to labels chosen again", async () => {
+      const log: string[] = [];
+      const middleware = {
+        connectDatabase: named(log, "connectDatabase"),
+        auth: named(log, "auth"),
+      };
+      const dependencies: LabelDependencies<typeof middleware> = {
+        auth: { requires: ["connectDatabase"] },
+      };
+
+      await label(middleware, ["auth"], { dependencies })(
+        "auth",
+        "connectDatabase"
+      )(jest.fn())({} as NextApiRequest, {} as NextApiResponse);
+
+      expect(log).toEqual(["connectDatabase", "auth", "auth"]);
+      expect(() =>
+        label(middleware, ["auth"], { dependencies, duplicates: "throw" })(
+          "auth"
+        )
+      ).toThrowError('is included more than once (label "auth", label "auth")');
+    });
+
+    it("orders labels after others only when both are chosen", async () => {
+      const log: string[] = [];
+      const withMiddleware = label(
+        { auth: named(log, "auth"), logErrors: named(log, "logErrors") },
+        [],
+        { dependencies: { auth: { after: ["logErrors"] } } }
+      );
+
+      await withMiddleware("auth")(jest.fn())(
+        {} as NextApiRequest,
+        {} as NextApiResponse
+      );
+      await withMiddleware("auth", "logErrors")(jest.fn())(
+        {} as NextApiRequest,
+        {} as NextApiResponse
+      );
+
+      expect(log).toEqual(["auth", "logErrors", "auth"]);
+    });
+
+    it("refuses to exclude required labels", () => {
+      const withMiddleware = label(
+        { connectDatabase: named([], "db"), loadUser: named([], "user") },
+        ["connectDatabase"],
+        { dependencies: { loadUser: { requires: ["connectDatabase"] } } }
+      );
+
+      expect(() => withMiddleware("!connectDatabase", "loadUser")).toThrowError(
+        'Label "loadUser" requires "connectDatabase", which is excluded'
+      );
+    });
+
+    it("refuses dependencies on labels that are not registered", () => {
+      expect(() =>
+        label({ loadUser: named([], "user") }, [], {
+          // @ts-expect-error
+          dependencies: { loadUser: { requires: ["loadUsr"] } },
+        })
+      ).toThrowError(
+        'Label "loadUser" depends on "loadUsr", which is not registered. Did you mean "loadUser"?'
+      );
+    });
+
+    it("refuses dependencies that form a cycle", () => {
+      const a = named([], "a");
+      const b = named([], "b");
+      const c = named([], "c");
+
+      expect(() =>
+        label({ a, b, c }, [], {
+          dependencies: {
+            a: { requires: ["b"] },
+            b: { after: ["c"] },
+            c: { requires: ["a"] },
+          },
+        })
+      ).toThrowError(
+        'Label dependencies form a cycle ("a" -> "b" -> "c" -> "a")'
+      );
+    });
+
+    it("keeps dependencies when extending and merging", async () => {
+      const log: string[] = [];
+      const connectDatabase = named(log, "connectDatabase");
+      const shared = label({ connectDatabase });
+      const app = shared
+        .extend({ loadUser: named(log, "loadUser") }, [], {
+          loadUser: { requires: ["connectDatabase"] },
+        })
+        .merge(
+          label({ connectDatabase, loadTeam: named(log, "loadTeam") }, [], {
+            dependencies: { loadTeam: { requires: ["connectDatabase"] } },
+          })
+        );
+
+      await app("loadUser", "loadTeam")(jest.fn())(
+        {} as NextApiRequest,
+        {} as NextApiResponse
+      );
+
+      expect(log).toEqual(["connectDatabase", "loadUser", "loadTeam"]);
+      expect(app.dependencies).toEqual({
+        loadUser: { requires: ["connectDatabase"], after: [] },
+        loadTeam: { requires: ["connectDatabase"], after: [] },
+      });
+    });
+  });
+
+  // The Fetch API is only available globally in Node.js 18+
+  const itWithFetch = typeof Request === "undefined" ? it.skip : it;
+
+  itWithFetch("wraps App Router route handlers", async () => {
+    const poweredBy: WebMiddleware = async (request, context, next) => {
+      const response = await next();
+      response.headers.set("X-Powered-By", "next-api-middleware");
+    };
+    const withMiddleware = label({ poweredBy });
+
+    const response = await withMiddleware("poweredBy")(
+      async () => new Response("ok")
+    )(new Request("https://example.com"), {});
+
+    expect(response.headers.get("X-Powered-By")).toBe("next-api-middleware");
+  });
+
+  it("types the locals of chosen labels, defaults and inline middleware", () => {
+    const withLocals = <Added extends object>(added: Added) =>
+      (async (req, res, next) => {
+        Object.assign(req.locals, added);
+        await next();
+      }) as Middleware<NextApiRequest, NextApiResponse, Added>;
+
+    const withMiddleware = label(
+      {
+        user: withLocals({ user: "Ada" }),
+        tenant: withLocals({ tenant: "acme" }),
+        session: withLocals({ session: "abc" }),
+      },
+      ["tenant"]
+    );
+
+    withMiddleware(
+      "user",
+      withLocals({ flags: ["beta"] })
+    )((req, res) => {
+      const user: string = req.locals.user;
+      const tenant: string = req.locals.tenant;
+      const flags: string[] = req.locals.flags;
+      // @ts-expect-error
+      req.locals.session;
+
+      res.json({ user, tenant, flags });
+    });
+  });
 });
@@ -1,48 +1,638 @@
-import { LabeledMiddleware, Middleware } from "./types";
+import type { NextApiRequest, NextApiResponse } from "next";
+import {
+  AnyLabeledMiddleware,
+  AnyMiddleware,
+  EdgeMiddlewareOptions,
+  Flatten,
+  LabeledMiddleware,
+  LabeledWebMiddleware,
+  LocalsOf,
+  MergeLocals,
+  Middleware,
+  MiddlewareGroup,
+  MiddlewareOptions,
+  MiddlewareRuntime,
+  MiddlewareWrapper,
+  WebMiddleware,
+  WebMiddlewareGroup,
+} from "./types";
+import { ChainEntry, middlewareIdentity, removeDuplicates } from "./duplicates";
 import { makeMiddlewareExecutor } from "./executor";
-import { isValidMiddleware, isValidMiddlewareArray } from "./validation";
+import { isEdgeMiddlewareArray } from "./runtime";
+import {
+  closestMatch,
+  isValidMiddleware,
+  isValidMiddlewareArray,
+} from "./validation";
 
-export function label<T extends LabeledMiddleware>(
+/**
+ * A registered label prefixed with `!`, which is skipped
+ * even when it is a default
+ */
+export type LabelExclusion<T extends AnyLabeledMiddleware> = `!${keyof T &
+  string}`;
+
+/**
+ * A label registered with `label`, or middleware passed inline
+ */
+export type MiddlewareChoice<T extends AnyLabeledMiddleware> =
+  | keyof T
+  | LabelExclusion<T>
+  | Middleware<NextApiRequest, NextApiResponse, any>
+  | MiddlewareGroup;
+
+/**
+ * A label registered with `label`, or web middleware passed inline
+ */
+export type WebMiddlewareChoice<T extends AnyLabeledMiddleware> =
+  | keyof T
+  | LabelExclusion<T>
+  | WebMiddleware<any, any>
+  | WebMiddlewareGroup;
+
+/**
+ * The labels that must run before a label. Required labels are added
+ * to the chain whenever the label is; labels it runs `after` are only
+ * ordered before it when they are chosen too.
+ */
+export type LabelDependency<Name> = {
+  requires?: Name[];
+  after?: Name[];
+};
+
+/**
+ * Dependencies between registered labels
+ */
+export type LabelDependencies<T extends AnyLabeledMiddleware> = {
+  [Name in keyof T]?: LabelDependency<keyof T>;
+};
+
+export type LabelOptions<T extends AnyLabeledMiddleware> = {
+  /**
+   * Labels that must run before others, which decide the order
+   * that chosen labels run in
+   */
+  dependencies?: LabelDependencies<T>;
+};
+
+/**
+ * The chosen labels and middleware, without exclusions
+ */
+type Included<Choice> = Choice extends `!${string}` ? never : Choice;
+
+/**
+ * The labels excluded by a union of choices
+ */
+type Excluded<Choice> = Choice extends `!${infer Name}` ? Name : never;
+
+/**
+ * The defaults that were not excluded, and everything chosen
+ */
+type Chosen<Defaults, Choice> =
+  | Exclude<Defaults, Excluded<Choice>>
+  | Included<Choice>;
+
+/**
+ * The middleware functions behind a union of labels and inline middleware
+ */
+type ChoiceMiddleware<
+  T extends AnyLabeledMiddleware,
+  Choice
+> = Choice extends keyof T ? Flatten<T[Choice]> : Flatten<Choice>;
+
+/**
+ * The wrapper for a union of defaults and chosen middleware
+ */
+export type LabeledWrapper<
+  T extends AnyLabeledMiddleware,
+  Choice
+> = MiddlewareWrapper<ChoiceMiddleware<T, Choice>, LabeledLocals<T, Choice>>;
+
+/**
+ * What a chosen label (or inline middleware) adds to `req.locals`
+ */
+type ChoiceLocals<
+  T extends AnyLabeledMiddleware,
+  Choice
+> = Choice extends keyof T ? LocalsOf<T[Choice]> : LocalsOf<Choice>;
+
+/**
+ * The intersection of everything added to `req.locals` by
+ * a union of defaults and chosen middleware
+ */
+export type LabeledLocals<T extends AnyLabeledMiddleware, Choice> = MergeLocals<
+  ChoiceLocals<T, Choice>
+>;
+
+/**
+ * Choosing Pages Router middleware, which is not accepted by
+ * choosers for the Edge runtime
+ */
+type NodeChoice<
+  T extends AnyLabeledMiddleware,
+  Defaults extends keyof T,
+  Runtime extends MiddlewareRuntime
+> = Runtime extends "edge"
+  ? unknown
+  : {
+      <Choices extends MiddlewareChoice<T>[]>(
+        ...chosenMiddleware: Choices
+      ): LabeledWrapper<T, Chosen<Defaults, Choices[number]>>;
+    };
+
+/**
+ * The function returned by `label`, which receives the names of
+ * labeled middleware (and inline middleware) to invoke
+ */
+export type MiddlewareChooser<
+  T extends AnyLabeledMiddleware,
+  Defaults extends keyof T = never,
+  Runtime extends MiddlewareRuntime = "nodejs"
+> = NodeChoice<T, Defaults, Runtime> & {
+  <Choices extends WebMiddlewareChoice<T>[]>(
+    ...chosenMiddleware: Choices
+  ): LabeledWrapper<T, Chosen<Defaults, Choices[number]>>;
+
+  /**
+   * The registered middleware, by label
+   */
+  readonly middleware: Readonly<T>;
+
+  /**
+   * The registered labels
+   */
+  readonly labels: Array<keyof T & string>;
+
+  /**
+   * The labels invoked for every route
+   */
+  readonly defaults: Defaults[];
+
+  /**
+   * The dependencies declared between labels
+   */
+  readonly dependencies: LabelDependencies<T>;
+
+  /**
+   * Create a chooser with additional labels (and defaults and
+   * dependencies). Labels that are already registered are rejected;
+   * use `override` to replace them.
+   */
+  extend<
+    U extends AnyLabeledMiddleware,
+    MoreDefaults extends keyof (T & U) = never
+  >(
+    middleware: U & { [Name in keyof T & keyof U]: never },
+    defaults?: MoreDefaults[],
+    dependencies?: LabelDependencies<T & U>
+  ): MiddlewareChooser<T & U, Defaults | MoreDefaults, Runtime>;
+
+  /**
+   * Create a chooser that replaces the middleware of registered
+   * labels. Labels that are not registered are rejected.
+   */
+  override<U extends { [Name in keyof T]?: AnyMiddleware | AnyMiddleware[] }>(
+    middleware: U & { [Name in Exclude<keyof U, keyof T>]: never }
+  ): MiddlewareChooser<Omit<T, keyof U> & U, Defaults, Runtime>;
+
+  /**
+   * Create a chooser with the labels, defaults and dependencies of
+   * both choosers (and the other options of this one). Labels
+   * registered by both must refer to the same middleware.
+   */
+  merge<U extends AnyLabeledMiddleware, OtherDefaults extends keyof U = never>(
+    other: MiddlewareChooser<U, OtherDefaults, MiddlewareRuntime>
+  ): MiddlewareChooser<T & U, Defaults | OtherDefaults, Runtime>;
+};
+
+export function label<
+  T extends LabeledWebMiddleware,
+  Defaults extends keyof T = never
+>(
   middleware: T,
-  defaults: (keyof T)[] = []
-) {
-  // Check signatures
-  isValidMiddlewareArray(Object.values(middleware).flat(), true);
+  defaults: Defaults[] | undefined,
+  options: EdgeMiddlewareOptions & LabelOptions<T>
+): MiddlewareChooser<T, Defaults, "edge">;
+export function label<
+  T extends LabeledMiddleware,
+  Defaults extends keyof T = never
+>(
+  middleware: T,
+  defaults?: Defaults[],
+  options?: MiddlewareOptions & LabelOptions<T> & { runtime?: "nodejs" }
+): MiddlewareChooser<T, Defaults>;
+export function label<
+  T extends LabeledWebMiddleware,
+  Defaults extends keyof T = never
+>(
+  middleware: T,
+  defaults?: Defaults[],
+  options?: MiddlewareOptions & LabelOptions<T>
+): MiddlewareChooser<T, Defaults>;
+export function label<
+  T extends AnyLabeledMiddleware,
+  Defaults extends keyof T = never
+>(
+  middleware: T,
+  defaults?: Defaults[],
+  options?: MiddlewareOptions & LabelOptions<T> & { runtime?: "nodejs" }
+): MiddlewareChooser<T, Defaults>;
+export function label<T extends AnyLabeledMiddleware>(
+  middleware: T,
+  defaults: (keyof T)[] = [],
+  options: MiddlewareOptions & LabelOptions<T> = {}
+): MiddlewareChooser<T, keyof T> {
+  const { allowAnyArity } = options;
+  const dependencies = (options.dependencies || {}) as unknown as Dependencies;
+
+  // Check signatures, reporting the label of invalid middleware
+  for (const [name, fn] of Object.entries(middleware)) {
+    const location = `label "${name}"`;
+
+    if (Array.isArray(fn)) {
+      isValidMiddlewareArray(fn, true, { location, allowAnyArity });
+    } else {
+      isValidMiddleware(fn, true, { location, allowAnyArity });
+    }
+  }
+
+  checkDependencies(Object.keys(middleware), dependencies);
+
+  if (options.runtime === "edge") {
+    // Reject middleware that can only run on Node.js
+    isEdgeMiddlewareArray(Object.values(middleware).flat(), true, options);
+  }
+
+  // Get the name of a registered label, suggesting one for misspelled names
+  function registered(name: string): string {
+    if (!middleware[name]) {
+      const suggestion = closestMatch(name, Object.keys(middleware));
+      throw new Error(
+        suggestion
+          ? `Middleware "${name}" not available. Did you mean "${suggestion}"?`
+          : `Middleware "${name}" not available`
+      );
+    }
+
+    return name;
+  }
 
   // Receive chosen middleware (either names or literal middleware functions)
-  return function curryMiddlewareChoices(
-    ...chosenMiddleware: (keyof T | Middleware | Middleware[])[]
-  ) {
-    const middlewareFns: Middleware[] = [];
+  function curryMiddlewareChoices(
+    ...chosenMiddleware: (keyof T | AnyMiddleware | AnyMiddleware[])[]
+  ): unknown {
+    // Each function, with the label it was chosen with
+    const chain: ChainEntry[] = [];
+
+    // Labels prefixed with "!" are skipped, even when they are defaults
+    const excluded = new Set<string>();
+    for (const choice of chosenMiddleware) {
+      if (typeof choice === "string" && choice.startsWith("!")) {
+        excluded.add(registered(choice.slice(1)));
+      }
+    }
+
+    for (const choice of chosenMiddleware) {
+      if (typeof choice === "string" && excluded.has(choice)) {
+        throw new Error(`Label "${choice}" is both chosen and excluded`);
+      }
+    }
+
+    const choices = [...defaults, ...chosenMiddleware];
+    const isSkipped = (choice: string) =>
+      choice.startsWith("!") || excluded.has(choice);
+
+    // Every chosen label, with the labels they require
+    const included = new Set<string>();
+    const include = (name: string, requiredBy?: string) => {
+      if (included.has(name)) {
+        return;
+      }
+
+      if (excluded.has(name)) {
+        throw new Error(
+          `Label "${requiredBy}" requires "${name}", which is excluded`
+        );
+      }
+
+      included.add(name);
+      const { requires = [] } = dependencies[name] || {};
+      for (const requirement of requires) {
+        include(requirement, name);
+      }
+    };
+
+    for (const choice of choices) {
+      if (typeof choice === "string" && !isSkipped(choice)) {
+        include(registered(choice));
+      }
+    }
+
+    // Add each label after the labels it depends on. Labels that are
+    // chosen again are added again, for the `duplicates` option.
+    const added = new Set<string>();
+    const chosen = new Set<string>();
+    const add = (name: string, isChoice = false) => {
+      const repeated = isChoice && chosen.has(name);
+      if (isChoice) {
+        chosen.add(name);
+      }
+
+      if (added.has(name) && !repeated) {
+        return;
+      }
+
+      added.add(name);
+      for (const dependency of dependenciesOf(dependencies, name)) {
+        if (included.has(dependency)) {
+          add(dependency);
+        }
+      }
+
+      // Add middleware function or group to array
+      const fn = middleware[name];
+      const fns = Array.isArray(fn) ? fn : [fn];
+      chain.push(
+        ...fns.map((fn) => ({ fn, label: name, location: `label "${name}"` }))
+      );
+    };
 
     // Load middleware for each choice
-    for (const choice of [...defaults, ...chosenMiddleware]) {
+    for (const [index, choice] of choices.entries()) {
       // Choice is the name of a registered function, get from registered middleware
       if (typeof choice === "string") {
-        const fn = middleware[choice];
-        if (!fn) {
-          throw new Error(`Middleware "${choice}" not available`);
+        if (!isSkipped(choice)) {
+          add(choice, true);
         }
-
-        // Add middleware function or group to array
-        middlewareFns.push(...(Array.isArray(fn) ? fn : [fn]));
         continue;
       }
 
-      if (Array.isArray(choice) && isValidMiddlewareArray(choice, true)) {
+      const location = `argument ${index - defaults.length + 1}`;
+
+      if (
+        Array.isArray(choice) &&
+        isValidMiddlewareArray(choice, true, { location, allowAnyArity })
+      ) {
         // Choice is an array of middleware functions
-        middlewareFns.push(...choice);
+        chain.push(...choice.map((fn) => ({ fn, location })));
         continue;
       }
 
-      if (isValidMiddleware(choice, true)) {
+      if (isValidMiddleware(choice, true, { location, allowAnyArity })) {
         // Choice is a middleware function, add directly to array
-        middlewareFns.push(choice);
+        chain.push({ fn: choice, location });
         continue;
       }
     }
 
+    const deduplicated = removeDuplicates(chain, options.duplicates);
+    if (deduplicated.length < chain.length) {
+      checkKeptOrder(chain, deduplicated, dependencies, included);
+    }
+    const middlewareFns = deduplicated.map((entry) => entry.fn);
+
+    // The label each function was chosen with, reported to instrumentation hooks
+    const labels = deduplicated.map((entry) => entry.label);
+
+    if (options.runtime === "edge") {
+      // Reject inline middleware that can only run on Node.js
+      isEdgeMiddlewareArray(middlewareFns, true, options);
+    }
+
     // Make executor
-    return makeMiddlewareExecutor(middlewareFns);
+    return makeMiddlewareExecutor(middlewareFns, options, labels);
+  }
+
+  // Expose the registry, so that choosers can be built on
+  const defaultLabels = defaults as string[];
+  const chooser = Object.assign(curryMiddlewareChoices, {
+    middleware,
+    labels: Object.keys(middleware),
+    defaults,
+    dependencies,
+
+    extend(
+      more: AnyLabeledMiddleware,
+      moreDefaults: string[] = [],
+      moreDependencies: Dependencies = {}
+    ) {
+      const existing = Object.keys(more).filter((name) => name in middleware);
+
+      if (existing.length > 0) {
+        throw new Error(
+          `Cannot extend labels that are already registered (${quoteList(
+            existing
+          )}); use override() to replace them`
+        );
+      }
+
+      return relabel(
+        { ...middleware, ...more },
+        [...defaultLabels, ...moreDefaults],
+        {
+          ...options,
+          dependencies: mergeDependencies(dependencies, moreDependencies),
+        }
+      );
+    },
+
+    override(replacements: AnyLabeledMiddleware) {
+      for (const name of Object.keys(replacements)) {
+        if (!(name in middleware)) {
+          const suggestion = closestMatch(name, Object.keys(middleware));
+          throw new Error(
+            suggestion
+              ? `Cannot override label "${name}", which is not registered. Did you mean "${suggestion}"?`
+              : `Cannot override label "${name}", which is not registered; use extend() to add it`
+          );
+        }
+      }
+
+      return relabel({ ...middleware, ...replacements }, defaultLabels, {
+        ...options,
+        dependencies,
+      });
+    },
+
+    merge(other: MiddlewareChooser<AnyLabeledMiddleware, string>) {
+      const conflicts = Object.keys(other.middleware).filter(
+        (name) =>
+          name in middleware &&
+          !isSameMiddleware(middleware[name], other.middleware[name])
+      );
+
+      if (conflicts.length > 0) {
+        throw new Error(
+          `Cannot merge labels that refer to different middleware (${quoteList(
+            conflicts
+          )})`
+        );
+      }
+
+      return relabel(
+        { ...middleware, ...other.middleware },
+        [
+          ...defaultLabels,
+          ...other.defaults.filter((name) => !defaultLabels.includes(name)),
+        ],
+        {
+          ...options,
+          dependencies: mergeDependencies(
+            dependencies,
+            other.dependencies as Dependencies
+          ),
+        }
+      );
+    },
+  });
+
+  return chooser as unknown as MiddlewareChooser<T, keyof T>;
+}
+
+/**
+ * `label` without its overloads, for choosers created from choosers
+ */
+const relabel = label as (
+  middleware: AnyLabeledMiddleware,
+  defaults: string[],
+  options: MiddlewareOptions & { dependencies: Dependencies }
+) => MiddlewareChooser<AnyLabeledMiddleware, string>;
+
+type Dependencies = { [name: string]: LabelDependency<string> | undefined };
+
+/**
+ * The labels that run before a label, when they are chosen
+ */
+function dependenciesOf(dependencies: Dependencies, name: string): string[] {
+  const { requires = [], after = [] } = dependencies[name] || {};
+  return [...requires, ...after];
+}
+
+/**
+ * Check that the copies kept by the `duplicates` policy still run
+ * after the labels they depend on, which dropping a copy can undo
+ */
+function checkKeptOrder(
+  chain: ChainEntry[],
+  kept: ChainEntry[],
+  dependencies: Dependencies,
+  included: Set<string>
+) {
+  const positions = new Map(
+    kept.map((entry, index) => [middlewareIdentity(entry.fn), index])
+  );
+  const keptAt = (entry: ChainEntry) =>
+    positions.get(middlewareIdentity(entry.fn)) as number;
+
+  for (const entry of chain) {
+    const runsAfter = entry.label
+      ? dependenciesOf(dependencies, entry.label).filter((name) =>
+          included.has(name)
+        )
+      : [];
+
+    for (const dependency of chain) {
+      if (
+        dependency.label &&
+        runsAfter.includes(dependency.label) &&
+        keptAt(dependency) > keptAt(entry)
+      ) {
+        throw new Error(
+          `Label "${entry.label}" depends on "${
+            dependency.label
+          }", but the duplicates policy keeps copies that run in the wrong order (${
+            kept[keptAt(dependency)].location
+          }, then ${kept[keptAt(entry)].location})`
+        );
+      }
+    }
+  }
+}
+
+/**
+ * Check that dependencies refer to registered labels and can be ordered
+ */
+function checkDependencies(names: string[], dependencies: Dependencies) {
+  for (const name of Object.keys(dependencies)) {
+    if (!names.includes(name)) {
+      throw new Error(
+        `Cannot declare dependencies of label "${name}", which is not registered`
+      );
+    }
+
+    for (const dependency of dependenciesOf(dependencies, name)) {
+      if (!names.includes(dependency)) {
+        const suggestion = closestMatch(dependency, names);
+        throw new Error(
+          suggestion
+            ? `Label "${name}" depends on "${dependency}", which is not registered. Did you mean "${suggestion}"?`
+            : `Label "${name}" depends on "${dependency}", which is not registered`
+        );
+      }
+    }
+  }
+
+  // Walk the dependencies of each label, looking for a way back to it
+  const checked = new Set<string>();
+  const path: string[] = [];
+  const visit = (name: string) => {
+    if (checked.has(name)) {
+      return;
+    }
+
+    if (path.includes(name)) {
+      const cycle = [...path.slice(path.indexOf(name)), name];
+      throw new Error(
+        `Label dependencies form a cycle (${cycle
+          .map((label) => `"${label}"`)
+          .join(" -> ")})`
+      );
+    }
+
+    path.push(name);
+    dependenciesOf(dependencies, name).forEach(visit);
+    path.pop();
+    checked.add(name);
   };
+
+  names.forEach(visit);
+}
+
+/**
+ * Combine the dependencies declared for each label
+ */
+function mergeDependencies(a: Dependencies, b: Dependencies): Dependencies {
+  const merged: Dependencies = { ...a };
+
+  for (const [name, { requires = [], after = [] } = {}] of Object.entries(b)) {
+    const existing = merged[name] || {};
+    merged[name] = {
+      requires: union(existing.requires || [], requires),
+      after: union(existing.after || [], after),
+    };
+  }
+
+  return merged;
+}
+
+function union<T>(a: T[], b: T[]): T[] {
+  return [...a, ...b.filter((item) => !a.includes(item))];
+}
+
+/**
+ * Whether two labels refer to the same middleware function or group
+ */
+function isSameMiddleware(
+  a: AnyMiddleware | AnyMiddleware[],
+  b: AnyMiddleware | AnyMiddleware[]
+): boolean {
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((fn, index) => fn === b[index]);
+  }
+
+  return a === b;
+}
+
+function quoteList(names: string[]): string {
+  return names.map((name) => `"${name}"`).join(", ");
 }
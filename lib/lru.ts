@@ -0,0 +1,39 @@
+/**
+ * A map that forgets values once they expire, and drops the least
+ * recently used keys once it holds more than `maxKeys`
+ */
+export class ExpiringLru<Value> {
+  private entries = new Map<string, { value: Value; expiresAt: number }>();
+
+  constructor(public maxKeys: number) {}
+
+  get(key: string): Value | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return undefined;
+    }
+
+    if (entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+
+    // Reinsert the key to mark it as the most recently used
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return entry.value;
+  }
+
+  set(key: string, value: Value, ttl: number) {
+    this.entries.delete(key);
+    this.entries.set(key, { value, expiresAt: Date.now() + ttl });
+
+    if (this.entries.size > this.maxKeys) {
+      this.entries.delete(this.entries.keys().next().value);
+    }
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+}
@@ -0,0 +1,252 @@
+import { NextApiRequest, NextApiResponse } from "next";
+import { methods } from "./methods";
+import { createMockRequest, createMockResponse } from "./testing";
+import { Middleware } from "./types";
+import { use } from "./use";
+
+function mockRequest(method?: string) {
+  return Object.assign(createMockRequest(), {
+    method,
+    locals: {},
+    signal: new AbortController().signal,
+  });
+}
+
+// Handlers and middleware returning `any` would be taken for App
+// Router handlers and web middleware
+const apiHandler = () => jest.fn<void, [NextApiRequest, NextApiResponse]>();
+const apiMiddleware = (fn: Middleware) =>
+  jest.fn<ReturnType<Middleware>, Parameters<Middleware>>(fn);
+
+describe("methods", () => {
+  it("calls the handler for the request method", async () => {
+    const get = apiHandler();
+    const post = apiHandler();
+    const handler = methods({ GET: get, POST: post });
+
+    const req = mockRequest("POST");
+    const res = createMockResponse();
+
+    await handler(req, res);
+
+    expect(post).toHaveBeenCalledWith(req, res);
+    expect(get).not.toHaveBeenCalled();
+  });
+
+  it("treats requests without a method as GET requests", async () => {
+    const get = apiHandler();
+
+    await methods({ GET: get })(mockRequest(), createMockResponse());
+
+    expect(get).toHaveBeenCalled();
+  });
+
+  it("falls back to the GET handler for HEAD requests", async () => {
+    const get = apiHandler();
+    const head = apiHandler();
+
+    await methods({ GET: get })(mockRequest("HEAD"), createMockResponse());
+    expect(get).toHaveBeenCalledTimes(1);
+
+    await methods({ GET: get, HEAD: head })(
+      mockRequest("HEAD"),
+      createMockResponse()
+    );
+    expect(head).toHaveBeenCalledTimes(1);
+    expect(get).toHaveBeenCalledTimes(1);
+  });
+
+  it("answers OPTIONS requests with the allowed methods", async () => {
+    const res = createMockResponse();
+
+    await methods({ POST: apiHandler(), GET: apiHandler() })(
+      mockRequest("OPTIONS"),
+      res
+    );
+
+    expect(res.statusCode).toBe(204);
+    expect(res.getHeader("Allow")).toBe("GET, HEAD, POST, OPTIONS");
+    expect(res.writableEnded).toBe(true);
+  });
+
+  it("lets an OPTIONS handler replace the generated response", async () => {
+    const options = apiHandler();
+    const res = createMockResponse();
+
+    await methods({ OPTIONS: options })(mockRequest("OPTIONS"), res);
+
+    expect(options).toHaveBeenCalled();
+    expect(res.getHeader("Allow")).toBeUndefined();
+  });
+
+  it("responds with 405 Method Not Allowed for other methods", async () => {
+    const res = createMockResponse();
+
+    await methods({ DELETE: apiHandler(), PUT: apiHandler() })(
+      mockRequest("patch"),
+      res
+    );
+
+    expect(res.statusCode).toBe(405);
+    expect(res.getHeader("Allow")).toBe("PUT, DELETE, OPTIONS");
+    expect(res.jsonBody()).toEqual({
+      type: "about:blank",
+      title: "Method Not Allowed",
+      status: 405,
+    });
+  });
+
+  it("throws an error for unsupported methods or invalid handlers", () => {
+    // @ts-expect-error
+    expect(() => methods({ FETCH: jest.fn() })).toThrowError(
+      'Unsupported HTTP method "FETCH"'
+    );
+    // @ts-expect-error
+    expect(() => methods({ GET: "handler" })).toThrowError(
+      'Invalid handler for HTTP method "GET"'
+    );
+  });
+
+  it("runs shared middleware for every method and method middleware only for its method", async () => {
+    const log: string[] = [];
+
+    const middleware = (name: string) =>
+      apiMiddleware(async (_req, _res, next) => {
+        log.push(`setup ${name}`);
+        await next();
+        log.push(`teardown ${name}`);
+      });
+
+    const shared = middleware("shared");
+    const validate = middleware("validate");
+
+    const handler = use(shared)(
+      methods({
+        GET: async () => {
+          log.push("GET");
+        },
+        POST: use(validate)(async () => {
+          log.push("POST");
+        }),
+      })
+    );
+
+    await handler(mockRequest("GET"), createMockResponse());
+    expect(validate).not.toHaveBeenCalled();
+    expect(log).toEqual(["setup shared", "GET", "teardown shared"]);
+
+    log.length = 0;
+    await handler(mockRequest("POST"), createMockResponse());
+    expect(log).toEqual([
+      "setup shared",
+      "setup validate",
+      "POST",
+      "teardown validate",
+      "teardown shared",
+    ]);
+  });
+
+  it("runs middleware given for a method only for that method", async () => {
+    const log: string[] = [];
+    const validate = apiMiddleware(async (_req, _res, next) => {
+      log.push("validate");
+      await next();
+    });
+    const handler = methods(
+      {
+        GET: async () => {
+          log.push("GET");
+        },
+        POST: async () => {
+          log.push("POST");
+        },
+      },
+      { middleware: { POST: [validate] } }
+    );
+
+    await handler(mockRequest("GET"), createMockResponse());
+    await handler(mockRequest("POST"), createMockResponse());
+
+    expect(log).toEqual(["GET", "validate", "POST"]);
+  });
+
+  it("rejects method middleware without a handler or of the wrong kind", () => {
+    expect(() =>
+      methods({ GET: apiHandler() }, { middleware: { PUT: [] } })
+    ).toThrowError(
+      'Cannot add middleware for HTTP method "PUT", which has no handler'
+    );
+    expect(() =>
+      methods(
+        { GET: apiHandler() },
+        { middleware: { GET: [(_req: unknown) => {}] } }
+      )
+    ).toThrowError('Invalid middleware (HTTP method "GET", index 0)');
+  });
+
+  describe("App Router", () => {
+    const request = (method: string) =>
+      Object.assign(new Request("https://example.com/api/posts", { method }), {
+        locals: {},
+      });
+
+    it("calls the handler and middleware for the request method", async () => {
+      const handler = methods(
+        {
+          GET: async (request) => new Response(request.method),
+          POST: async (request) =>
+            new Response(request.headers.get("X-Validated"), { status: 201 }),
+        },
+        {
+          middleware: {
+            POST: [
+              async (request, _context, next) => {
+                request.headers.set("X-Validated", "yes");
+                return next();
+              },
+            ],
+          },
+        }
+      );
+
+      const get = await handler(request("GET"), {});
+      const head = await handler(request("HEAD"), {});
+      const post = await handler(request("POST"), {});
+
+      expect(await get.text()).toBe("GET");
+      expect(head.status).toBe(200);
+      expect(post.status).toBe(201);
+      expect(await post.text()).toBe("yes");
+    });
+
+    it("answers OPTIONS and other methods with the allowed methods", async () => {
+      const handler = methods({ GET: async () => new Response("ok") });
+
+      const options = await handler(request("OPTIONS"), {});
+      const notAllowed = await handler(request("DELETE"), {});
+
+      expect(options.status).toBe(204);
+      expect(options.headers.get("Allow")).toBe("GET, HEAD, OPTIONS");
+      expect(notAllowed.status).toBe(405);
+      expect(notAllowed.headers.get("Allow")).toBe("GET, HEAD, OPTIONS");
+      expect(await notAllowed.json()).toEqual({
+        type: "about:blank",
+        title: "Method Not Allowed",
+        status: 405,
+      });
+    });
+  });
+
+  it("runs shared middleware for 405 responses", async () => {
+    const shared = apiMiddleware(async (_req, _res, next) => next());
+    const res = createMockResponse();
+
+    await use(shared)(methods({ GET: apiHandler() }))(
+      mockRequest("DELETE"),
+      res
+    );
+
+    expect(shared).toHaveBeenCalled();
+    expect(res.statusCode).toBe(405);
+  });
+});
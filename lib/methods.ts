@@ -0,0 +1,141 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { MethodNotAllowedError, problemResponse, sendProblem } from "./errors";
+import { isWebRequest } from "./executor";
+import {
+  AnyMiddleware,
+  ApiHandler,
+  Middleware,
+  WebHandler,
+  WebMiddleware,
+} from "./types";
+import { use } from "./use";
+import { isValidMiddlewareArray } from "./validation";
+
+export const httpMethods = [
+  "GET",
+  "HEAD",
+  "POST",
+  "PUT",
+  "PATCH",
+  "DELETE",
+  "OPTIONS",
+] as const;
+
+export type HttpMethod = (typeof httpMethods)[number];
+
+/**
+ * API route handlers for each HTTP method
+ */
+export type MethodHandlers<Locals = {}> = {
+  [Method in HttpMethod]?: ApiHandler<Locals>;
+};
+
+/**
+ * App Router route handlers for each HTTP method
+ */
+export type WebMethodHandlers<Locals = {}, Context = any> = {
+  [Method in HttpMethod]?: WebHandler<Locals, Context>;
+};
+
+export type MethodOptions<M> = {
+  /**
+   * Middleware that only runs for some HTTP methods, before their
+   * handlers (e.g. `{ POST: [validateBody] }`)
+   */
+  middleware?: { [Method in HttpMethod]?: M[] };
+};
+
+/**
+ * Create an API route handler (or App Router route handler) that
+ * calls the handler for the request's HTTP method, after the
+ * middleware given for that method, if any. `HEAD` requests fall back
+ * to the `GET` handler, `OPTIONS` requests are answered automatically
+ * and any other method receives a `405 Method Not Allowed` response
+ * with an `Allow` header.
+ */
+export function methods<Locals = {}, Context = any>(
+  handlers: WebMethodHandlers<Locals, Context>,
+  options?: MethodOptions<WebMiddleware<Context, any>>
+): WebHandler<Locals, Context>;
+export function methods<Locals = {}>(
+  handlers: MethodHandlers<Locals>,
+  options?: MethodOptions<Middleware<NextApiRequest, NextApiResponse, any>>
+): ApiHandler<Locals>;
+export function methods(
+  handlers: MethodHandlers<any> | WebMethodHandlers<any>,
+  options: MethodOptions<AnyMiddleware> = {}
+): (input: any, output: any) => Promise<any> {
+  const routes: Partial<Record<HttpMethod, (input: any, output: any) => any>> =
+    { ...handlers };
+
+  for (const [method, handler] of Object.entries(handlers)) {
+    if (!httpMethods.includes(method as HttpMethod)) {
+      throw new Error(`Unsupported HTTP method "${method}"`);
+    }
+    if (typeof handler !== "function") {
+      throw new Error(`Invalid handler for HTTP method "${method}"`);
+    }
+  }
+
+  for (const [method, middleware = []] of Object.entries(
+    options.middleware || {}
+  )) {
+    const handler = routes[method as HttpMethod];
+    if (!handler) {
+      throw new Error(
+        `Cannot add middleware for HTTP method "${method}", which has no handler`
+      );
+    }
+
+    isValidMiddlewareArray(middleware, true, {
+      location: `HTTP method "${method}"`,
+    });
+
+    // Run the middleware for this method only
+    routes[method as HttpMethod] = (
+      use as (...middleware: AnyMiddleware[]) => (handler: unknown) => any
+    )(...middleware)(handler);
+  }
+
+  const allow = allowedMethods(handlers).join(", ");
+
+  return async function callMethodHandler(input, output) {
+    const method = (input.method || "GET").toUpperCase();
+
+    const route =
+      routes[method as HttpMethod] ||
+      (method === "HEAD" ? routes.GET : undefined);
+
+    if (route) {
+      return route(input, output);
+    }
+
+    if (isWebRequest(input)) {
+      return method === "OPTIONS"
+        ? new Response(null, { status: 204, headers: { Allow: allow } })
+        : problemResponse(
+            new MethodNotAllowedError(undefined, { headers: { Allow: allow } })
+          );
+    }
+
+    const res = output as NextApiResponse;
+    res.setHeader("Allow", allow);
+
+    if (method === "OPTIONS") {
+      res.statusCode = 204;
+      res.end();
+      return;
+    }
+
+    sendProblem(res, new MethodNotAllowedError());
+  };
+}
+
+function allowedMethods(handlers: object): HttpMethod[] {
+  return httpMethods.filter(
+    (method) =>
+      method in handlers ||
+      (method === "HEAD" && "GET" in handlers) ||
+      method === "OPTIONS"
+  );
+}
@@ -0,0 +1,45 @@
+import { requestId } from "./node-request-id";
+import { isNodeOnlyMiddleware } from "./runtime";
+import { runMiddleware } from "./testing";
+
+const uuid = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+
+describe("requestId", () => {
+  it("generates an ID and echoes it in the response", async () => {
+    const { req, res } = await runMiddleware(requestId(), (req, res) =>
+      res.json({ id: req.locals.requestId })
+    );
+
+    expect(req.locals.requestId).toMatch(uuid);
+    expect(res.getHeader("X-Request-ID")).toBe(req.locals.requestId);
+    expect(res.jsonBody()).toEqual({ id: req.locals.requestId });
+  });
+
+  it("accepts valid IDs from the request", async () => {
+    const { res } = await runMiddleware(
+      requestId({ header: "X-Correlation-ID" }),
+      (_req, res) => res.end(),
+      { headers: { "X-Correlation-ID": "abc-123" } }
+    );
+
+    expect(res.getHeader("X-Correlation-ID")).toBe("abc-123");
+  });
+
+  it("replaces invalid or untrusted IDs", async () => {
+    const invalid = await runMiddleware(requestId(), (_req, res) => res.end(), {
+      headers: { "X-Request-ID": "line\nbreak" },
+    });
+    const untrusted = await runMiddleware(
+      requestId({ trustHeader: false, generate: () => "generated" }),
+      (_req, res) => res.end(),
+      { headers: { "X-Request-ID": "abc-123" } }
+    );
+
+    expect(invalid.res.getHeader("X-Request-ID")).toMatch(uuid);
+    expect(untrusted.res.getHeader("X-Request-ID")).toBe("generated");
+  });
+
+  it("is marked as Node.js only", () => {
+    expect(isNodeOnlyMiddleware(requestId())).toBe(true);
+  });
+});
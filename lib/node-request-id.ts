@@ -0,0 +1,38 @@
+import { randomUUID } from "crypto";
+import type { NextApiRequest, NextApiResponse } from "next";
+import {
+  RequestIdLocals,
+  RequestIdOptions,
+  requestIds,
+  validId,
+} from "./request-id";
+import { nodeOnly } from "./runtime";
+import { Middleware } from "./types";
+
+/**
+ * Create middleware that gives each request an ID, adding it to
+ * `req.locals.requestId` and the response headers. The rest of the
+ * chain runs with the ID available from `getRequestId`.
+ */
+export function requestId(
+  options: RequestIdOptions = {}
+): Middleware<NextApiRequest, NextApiResponse, RequestIdLocals> {
+  const {
+    header = "X-Request-ID",
+    trustHeader = true,
+    generate = randomUUID,
+  } = options;
+
+  return nodeOnly(async function requestId(req, res, next) {
+    const received = req.headers[header.toLowerCase()];
+    const id =
+      trustHeader && typeof received === "string" && validId.test(received)
+        ? received
+        : generate();
+
+    req.locals.requestId = id;
+    res.setHeader(header, id);
+
+    await requestIds.run(id, next);
+  });
+}
@@ -0,0 +1,4 @@
+export * from "./auth";
+export * from "./body";
+export * from "./cache";
+export * from "./node-request-id";
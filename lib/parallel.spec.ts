@@ -0,0 +1,190 @@
+import { ForbiddenError } from "./errors";
+import { parallel, ParallelMiddlewareError } from "./parallel";
+import { isNodeOnlyMiddleware, nodeOnly } from "./runtime";
+import { runMiddleware } from "./testing";
+import { Middleware, WebMiddleware } from "./types";
+import { use } from "./use";
+
+const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+function logged(log: string[], name: string, ms = 0): Middleware {
+  return async function (req, res, next) {
+    log.push(`setup ${name}`);
+    await delay(ms);
+    log.push(`ready ${name}`);
+    await next();
+    log.push(`teardown ${name}`);
+  };
+}
+
+describe("parallel", () => {
+  it("runs setups concurrently and teardowns in reverse order", async () => {
+    const log: string[] = [];
+
+    const { handlerCalled } = await runMiddleware(
+      parallel(logged(log, "flags", 10), logged(log, "tenant", 5)),
+      (_req, res) => {
+        log.push("handler");
+        res.end();
+      }
+    );
+
+    expect(handlerCalled).toBe(true);
+    expect(log).toEqual([
+      "setup flags",
+      "setup tenant",
+      "ready tenant",
+      "ready flags",
+      "handler",
+      "teardown tenant",
+      "teardown flags",
+    ]);
+  });
+
+  it("adds the locals of every middleware", async () => {
+    const flags: Middleware<any, any, { flags: string[] }> = async (
+      req,
+      res,
+      next
+    ) => {
+      req.locals.flags = ["beta"];
+      await next();
+    };
+    const tenant: Middleware<any, any, { tenant: string }> = async (
+      req,
+      res,
+      next
+    ) => {
+      req.locals.tenant = "acme";
+      await next();
+    };
+
+    const { res } = await runMiddleware(parallel(flags, tenant), (req, res) =>
+      res.json({ flags: req.locals.flags, tenant: req.locals.tenant })
+    );
+
+    expect(res.jsonBody()).toEqual({ flags: ["beta"], tenant: "acme" });
+  });
+
+  it("aggregates setup errors and skips the rest of the chain", async () => {
+    const seen: unknown[] = [];
+    const failing = (message: string): Middleware =>
+      async function (req, res, next) {
+        throw new Error(message);
+      };
+
+    const run = runMiddleware(
+      parallel(
+        async function (req, res, next) {
+          try {
+            await next();
+          } catch (error) {
+            seen.push(error);
+          }
+        },
+        failing("flags unavailable"),
+        failing("no such tenant")
+      ),
+      () => {
+        throw new Error("Not reached");
+      }
+    );
+
+    await expect(run).rejects.toThrowError(ParallelMiddlewareError);
+    await expect(run).rejects.toMatchObject({
+      message:
+        "2 parallel middleware failed: flags unavailable; no such tenant",
+      errors: [new Error("flags unavailable"), new Error("no such tenant")],
+    });
+    expect(seen).toEqual([expect.any(ParallelMiddlewareError)]);
+  });
+
+  it("throws a single setup error as is", async () => {
+    const { res, handlerCalled } = await runMiddleware(
+      parallel(logged([], "flags"), async function (req, res, next) {
+        throw new ForbiddenError("Unknown tenant");
+      }),
+      (_req, res) => res.end(),
+      {},
+      { onError: true }
+    );
+
+    expect(handlerCalled).toBe(false);
+    expect(res.statusCode).toBe(403);
+  });
+
+  it("passes errors from the rest of the chain through each teardown", async () => {
+    const handled: string[] = [];
+
+    const { res } = await runMiddleware(
+      parallel(logged([], "flags"), async function (req, res, next) {
+        try {
+          await next();
+        } catch (error) {
+          handled.push((error as Error).message);
+          res.status(500).end();
+        }
+      }),
+      () => {
+        throw new Error("Handler failed");
+      }
+    );
+
+    expect(handled).toEqual(["Handler failed"]);
+    expect(res.statusCode).toBe(500);
+  });
+
+  it("stops the chain when a middleware does not call next", async () => {
+    const log: string[] = [];
+
+    const { res, handlerCalled } = await runMiddleware(
+      parallel(logged(log, "flags"), async function (req, res, next) {
+        res.status(404).end();
+      }),
+      (_req, res) => res.end()
+    );
+
+    expect(handlerCalled).toBe(false);
+    expect(res.statusCode).toBe(404);
+    expect(log).toEqual(["setup flags", "ready flags", "teardown flags"]);
+  });
+
+  it("is marked as Node.js only when any middleware is", () => {
+    const web = async (request: any, context: any, next: any) => next();
+
+    expect(isNodeOnlyMiddleware(parallel(web, web))).toBe(false);
+    expect(isNodeOnlyMiddleware(parallel(web, nodeOnly(web)))).toBe(true);
+  });
+
+  it("rejects invalid middleware", () => {
+    expect(() => parallel(logged([], "flags"), (req, res) => {})).toThrowError(
+      "Invalid middleware (parallel(), argument 2): "
+    );
+  });
+
+  // The Fetch API is only available globally in Node.js 18+
+  const itWithFetch = typeof Request === "undefined" ? it.skip : it;
+
+  itWithFetch("wraps App Router route handlers", async () => {
+    const flags: WebMiddleware = async (request, context, next) => {
+      const response = await next();
+      response.headers.set("X-Flags", "beta");
+    };
+    const tenant: WebMiddleware = async (request, context, next) => {
+      const response = await next();
+      return new Response(await response.text(), {
+        headers: { "X-Tenant": "acme" },
+      });
+    };
+
+    const handler = use(parallel(flags, tenant))(
+      async () => new Response("ok")
+    );
+
+    const response = await handler(new Request("https://example.com"), {});
+
+    expect(await response.text()).toBe("ok");
+    expect(response.headers.get("X-Tenant")).toBe("acme");
+    expect(response.headers.get("X-Flags")).toBe("beta");
+  });
+});
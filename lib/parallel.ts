@@ -0,0 +1,187 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { controlledPromise } from "./promises";
+import { isNodeOnlyMiddleware, nodeOnly } from "./runtime";
+import {
+  AccumulatedLocals,
+  AnyMiddleware,
+  Middleware,
+  WebMiddleware,
+} from "./types";
+import { isValidMiddleware } from "./validation";
+
+/**
+ * Thrown by `parallel` when more than one middleware failed
+ * before calling `next`
+ */
+export class ParallelMiddlewareError extends Error {
+  name = "ParallelMiddlewareError";
+  constructor(public errors: unknown[]) {
+    super(
+      `${errors.length} parallel middleware failed: ${errors
+        .map((error) =>
+          error instanceof Error ? error.message : String(error)
+        )
+        .join("; ")}`
+    );
+  }
+}
+
+/**
+ * Everything added to `req.locals` by a list of parallel middleware
+ */
+type ParallelLocals<M extends unknown[]> = AccumulatedLocals<M> & object;
+
+/**
+ * How the rest of the chain (or the teardown of a
+ * later middleware) turned out
+ */
+type Outcome = { error: unknown } | { value: unknown };
+
+/**
+ * Create middleware that runs the setup of several middleware
+ * concurrently. The rest of the chain runs once every one of them
+ * has called `next`; afterwards, their teardowns run one at a time
+ * in reverse order, as if the last were nested in the first.
+ *
+ * If any of them throws before calling `next`, the rest of the chain
+ * is skipped, `next` rejects for the others, and the error (or a
+ * `ParallelMiddlewareError` with all of them) is thrown.
+ */
+export function parallel<
+  M extends Middleware<NextApiRequest, NextApiResponse, any>[]
+>(
+  ...middleware: M
+): Middleware<NextApiRequest, NextApiResponse, ParallelLocals<M>>;
+export function parallel<M extends WebMiddleware<any, any>[]>(
+  ...middleware: M
+): WebMiddleware<any, ParallelLocals<M>>;
+export function parallel(...middleware: AnyMiddleware[]): unknown {
+  middleware.forEach((fn, index) =>
+    isValidMiddleware(fn, true, {
+      location: `parallel(), argument ${index + 1}`,
+    })
+  );
+
+  const combined = async function parallel(
+    input: unknown,
+    output: unknown,
+    next: () => Promise<unknown>
+  ) {
+    const branches = middleware.map((fn) => start(fn, input, output));
+
+    // Wait until each middleware has called `next` (or finished)
+    const setups = await Promise.allSettled(
+      branches.map((branch) =>
+        Promise.race([branch.called.promise, branch.done])
+      )
+    );
+
+    const errors = setups.flatMap((setup) =>
+      setup.status === "rejected" ? [setup.reason] : []
+    );
+    const continuing = branches.filter((branch) => branch.continues);
+
+    let outcome: Outcome;
+    if (errors.length > 0) {
+      outcome = {
+        error:
+          errors.length === 1 ? errors[0] : new ParallelMiddlewareError(errors),
+      };
+    } else if (continuing.length < branches.length) {
+      // One of them stopped the chain (or produced a response)
+      const stopped = await Promise.all(
+        branches
+          .filter((branch) => !branch.continues)
+          .map((branch) => branch.done)
+      );
+      outcome = { value: stopped.find(Boolean) };
+    } else {
+      outcome = await next().then(
+        (value) => ({ value }),
+        (error) => ({ error })
+      );
+    }
+
+    // Tear down in reverse order, passing along errors and responses
+    for (const branch of continuing.reverse()) {
+      if ("error" in outcome) {
+        branch.downstream.reject(outcome.error);
+      } else {
+        branch.downstream.resolve(outcome.value);
+      }
+
+      try {
+        const result = await branch.done;
+        if (result) {
+          // Web middleware replaced the response
+          outcome = { value: result };
+        } else if ("error" in outcome && errors.length === 0) {
+          // The error was handled
+          outcome = { value: undefined };
+        }
+      } catch (error) {
+        if (errors.length === 0) {
+          outcome = { error };
+        }
+      }
+    }
+
+    if ("error" in outcome) {
+      throw outcome.error;
+    }
+
+    return outcome.value;
+  } as Middleware<any, any, any>;
+
+  // Keep the combined middleware out of the Edge runtime when needed
+  return middleware.some(isNodeOnlyMiddleware) ? nodeOnly(combined) : combined;
+}
+
+/**
+ * Start running one of the parallel middleware
+ */
+function start(fn: AnyMiddleware, input: unknown, output: unknown) {
+  const called = controlledPromise<void>();
+  const downstream = controlledPromise<unknown>();
+
+  const branch = {
+    called,
+    downstream,
+    continues: false,
+    done: Promise.resolve() as Promise<unknown>,
+  };
+
+  const call = fn as (
+    input: unknown,
+    output: unknown,
+    next: () => Promise<unknown>
+  ) => Promise<unknown>;
+
+  branch.done = Promise.resolve().then(() =>
+    call(input, output, () => {
+      if (branch.continues || finished) {
+        return Promise.reject(
+          new Error(
+            `Middleware "${
+              fn.name || "anonymous"
+            }" in parallel() called next() ${
+              finished ? "after it finished" : "more than once"
+            }`
+          )
+        );
+      }
+
+      branch.continues = true;
+      called.resolve();
+      return downstream.promise;
+    })
+  );
+
+  let finished = false;
+  branch.done.then(
+    () => (finished = true),
+    () => (finished = true)
+  );
+
+  return branch;
+}
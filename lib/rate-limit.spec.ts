@@ -0,0 +1,294 @@
+import { label } from "./label";
+import {
+  clientIp,
+  MemoryStore,
+  rateLimit,
+  RateLimitState,
+  RateLimitStore,
+} from "./rate-limit";
+import { isNodeOnlyMiddleware } from "./runtime";
+import {
+  createMockRequest,
+  createMockResponse,
+  runMiddleware,
+} from "./testing";
+
+const ok = (_req: any, res: any) => res.json({ ok: true });
+
+let now = 1_000_000;
+
+beforeEach(() => {
+  now = 1_000_000;
+  jest.spyOn(Date, "now").mockImplementation(() => now);
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe("rateLimit", () => {
+  describe("with fixed windows", () => {
+    it("allows requests up to the limit", async () => {
+      const middleware = rateLimit({ limit: 2, window: 60_000 });
+
+      const first = await runMiddleware(middleware, ok);
+      const second = await runMiddleware(middleware, ok);
+
+      expect(first.handlerCalled).toBe(true);
+      expect(second.handlerCalled).toBe(true);
+      expect(first.res.getHeaders()).toMatchObject({
+        "ratelimit-policy": "2;w=60",
+        "ratelimit-limit": "2",
+        "ratelimit-remaining": "1",
+        "ratelimit-reset": "60",
+      });
+      expect(second.res.getHeader("RateLimit-Remaining")).toBe("0");
+    });
+
+    it("responds with 429 Too Many Requests over the limit", async () => {
+      const middleware = rateLimit({ limit: 1, window: 60_000 });
+
+      await runMiddleware(middleware, ok);
+      now += 15_000;
+      const { res, handlerCalled } = await runMiddleware(middleware, ok);
+
+      expect(handlerCalled).toBe(false);
+      expect(res.statusCode).toBe(429);
+      expect(res.getHeader("Retry-After")).toBe("45");
+      expect(res.getHeader("RateLimit-Remaining")).toBe("0");
+      expect(res.jsonBody()).toMatchObject({
+        status: 429,
+        code: "rate_limited",
+      });
+    });
+
+    it("starts counting again in the next window", async () => {
+      const middleware = rateLimit({ limit: 1, window: 1000 });
+
+      await runMiddleware(middleware, ok);
+      now += 1000;
+      const { handlerCalled } = await runMiddleware(middleware, ok);
+
+      expect(handlerCalled).toBe(true);
+    });
+  });
+
+  describe("with token buckets", () => {
+    it("allows bursts and refills tokens over time", async () => {
+      const middleware = rateLimit({
+        algorithm: "token-bucket",
+        limit: 3,
+        window: 3000,
+      });
+
+      for (let i = 0; i < 3; i++) {
+        expect((await runMiddleware(middleware, ok)).handlerCalled).toBe(true);
+      }
+
+      const empty = await runMiddleware(middleware, ok);
+      expect(empty.res.statusCode).toBe(429);
+      expect(empty.res.getHeader("Retry-After")).toBe("1");
+
+      // One token is added every second
+      now += 1000;
+      const refilled = await runMiddleware(middleware, ok);
+      expect(refilled.handlerCalled).toBe(true);
+      expect(refilled.res.getHeader("RateLimit-Remaining")).toBe("0");
+      expect(refilled.res.getHeader("RateLimit-Reset")).toBe("3");
+    });
+  });
+
+  it("limits each client separately", async () => {
+    const middleware = rateLimit({ limit: 1, window: 60_000 });
+    const from = (ip: string) => ({ remoteAddress: ip });
+
+    await runMiddleware(middleware, ok, from("203.0.113.1"));
+    const other = await runMiddleware(middleware, ok, from("203.0.113.2"));
+    const again = await runMiddleware(middleware, ok, from("203.0.113.1"));
+
+    expect(other.handlerCalled).toBe(true);
+    expect(again.handlerCalled).toBe(false);
+  });
+
+  it("ignores forwarded addresses unless the proxy is trusted", async () => {
+    const spoofed = (ip: string) => ({
+      remoteAddress: "198.51.100.7",
+      headers: { "X-Forwarded-For": ip },
+    });
+    const middleware = rateLimit({ limit: 1, window: 60_000 });
+    const behindProxy = rateLimit({
+      limit: 1,
+      window: 60_000,
+      trustProxy: true,
+    });
+
+    await runMiddleware(middleware, ok, spoofed("203.0.113.1"));
+    const rotated = await runMiddleware(middleware, ok, spoofed("203.0.113.2"));
+    await runMiddleware(behindProxy, ok, spoofed("203.0.113.1"));
+    const forwarded = await runMiddleware(
+      behindProxy,
+      ok,
+      spoofed("203.0.113.2")
+    );
+
+    expect(rotated.handlerCalled).toBe(false);
+    expect(forwarded.handlerCalled).toBe(true);
+  });
+
+  it("uses the key function", async () => {
+    const middleware = rateLimit({
+      limit: 1,
+      window: 60_000,
+      key: async (req) => String(req.headers["x-user-id"]),
+    });
+
+    const user = { headers: { "X-User-ID": "1", "X-Forwarded-For": "a" } };
+    await runMiddleware(middleware, ok, user);
+    const sameIp = await runMiddleware(middleware, ok, {
+      headers: { "X-User-ID": "2", "X-Forwarded-For": "a" },
+    });
+    const sameUser = await runMiddleware(middleware, ok, user);
+
+    expect(sameIp.handlerCalled).toBe(true);
+    expect(sameUser.handlerCalled).toBe(false);
+  });
+
+  it("keeps limits that share a store apart", async () => {
+    const store = new MemoryStore();
+    const strict = rateLimit({ limit: 1, window: 60_000, store });
+    const relaxed = rateLimit({ limit: 10, window: 60_000, store });
+
+    await runMiddleware(strict, ok);
+    const { handlerCalled } = await runMiddleware(relaxed, ok);
+
+    expect(handlerCalled).toBe(true);
+    expect(store.size).toBe(2);
+  });
+
+  it("works with asynchronous stores", async () => {
+    const memory = new MemoryStore();
+    const store: RateLimitStore = {
+      update: jest.fn(
+        async (
+          key: string,
+          change: (state: RateLimitState | undefined) => RateLimitState,
+          ttl: number
+        ) => memory.update(key, change, ttl)
+      ),
+    };
+    const middleware = rateLimit({ limit: 1, window: 60_000, store });
+
+    await runMiddleware(middleware, ok);
+    const { res } = await runMiddleware(middleware, ok);
+
+    expect(res.statusCode).toBe(429);
+    expect(store.update).toHaveBeenCalledWith(
+      "fixed-window:1:60000:unknown",
+      expect.any(Function),
+      60_000
+    );
+  });
+
+  it("can leave out the RateLimit headers", async () => {
+    const { res } = await runMiddleware(
+      rateLimit({ limit: 1, window: 1000, headers: false }),
+      ok
+    );
+
+    expect(res.getHeaderNames()).not.toContain("ratelimit-limit");
+  });
+
+  it("rejects invalid options", () => {
+    expect(() => rateLimit({ limit: 0, window: 1000 })).toThrow(
+      "Rate limits need a positive `limit` and `window`"
+    );
+    expect(() =>
+      // @ts-expect-error
+      rateLimit({ limit: 1, window: 1000, algorithm: "sliding" })
+    ).toThrow('Unknown rate limit algorithm "sliding"');
+  });
+
+  it("is marked as Node.js only", () => {
+    expect(isNodeOnlyMiddleware(rateLimit({ limit: 1, window: 1 }))).toBe(true);
+  });
+
+  it("composes with label as named policies", async () => {
+    const withMiddleware = label({
+      strictLimit: rateLimit({ limit: 1, window: 60_000 }),
+      publicLimit: rateLimit({ limit: 100, window: 60_000 }),
+    });
+    const route = withMiddleware("strictLimit")(ok);
+
+    await route(createMockRequest(), createMockResponse());
+    const res = createMockResponse();
+    await route(createMockRequest(), res);
+
+    expect(res.statusCode).toBe(429);
+  });
+});
+
+describe("MemoryStore", () => {
+  const increment = (state: RateLimitState | undefined) => ({
+    value: (state?.value || 0) + 1,
+    time: 0,
+  });
+
+  it("drops the least recently used keys", () => {
+    const store = new MemoryStore({ maxKeys: 2 });
+
+    store.update("a", increment, 1000);
+    store.update("b", increment, 1000);
+    store.update("a", increment, 1000);
+    store.update("c", increment, 1000);
+
+    expect(store.size).toBe(2);
+    expect(store.update("a", increment, 1000).value).toBe(3);
+    expect(store.update("b", increment, 1000).value).toBe(1);
+  });
+
+  it("forgets expired state", () => {
+    const store = new MemoryStore();
+
+    store.update("a", increment, 1000);
+    now += 1000;
+
+    expect(store.update("a", increment, 1000).value).toBe(1);
+  });
+});
+
+describe("clientIp", () => {
+  it("uses the connection address by default", () => {
+    expect(
+      clientIp(
+        createMockRequest({
+          remoteAddress: "198.51.100.7",
+          headers: { "X-Forwarded-For": "203.0.113.1" },
+        })
+      )
+    ).toBe("198.51.100.7");
+    expect(clientIp(createMockRequest())).toBe("unknown");
+  });
+
+  it("prefers the first forwarded address behind a trusted proxy", () => {
+    const trustProxy = true;
+
+    expect(
+      clientIp(
+        createMockRequest({
+          headers: { "X-Forwarded-For": "203.0.113.1, 10.0.0.1" },
+        }),
+        { trustProxy }
+      )
+    ).toBe("203.0.113.1");
+    expect(
+      clientIp(createMockRequest({ headers: { "X-Real-IP": "203.0.113.2" } }), {
+        trustProxy,
+      })
+    ).toBe("203.0.113.2");
+    expect(
+      clientIp(createMockRequest({ remoteAddress: "198.51.100.7" }), {
+        trustProxy,
+      })
+    ).toBe("198.51.100.7");
+  });
+});
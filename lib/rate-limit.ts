@@ -0,0 +1,290 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { sendProblem, TooManyRequestsError } from "./errors";
+import { ExpiringLru } from "./lru";
+import { nodeOnly } from "./runtime";
+import { Middleware, RequestWithLocals } from "./types";
+
+/**
+ * What a rate limit store keeps for each key: the request count and
+ * the start of the window (fixed window), or the tokens left and when
+ * they were counted (token bucket). Plain numbers, so that external
+ * stores can serialize it as JSON.
+ */
+export type RateLimitState = {
+  value: number;
+  time: number;
+};
+
+/**
+ * Where rate limits are counted. `update` must apply `change`
+ * atomically: no other update of the same key may happen between
+ * reading the state and saving the result (e.g. with `WATCH` and
+ * `MULTI` in Redis, retrying when the key changed). The state may
+ * be dropped once `ttl` milliseconds have passed since it was saved.
+ */
+export type RateLimitStore = {
+  update(
+    key: string,
+    change: (state: RateLimitState | undefined) => RateLimitState,
+    ttl: number
+  ): RateLimitState | Promise<RateLimitState>;
+};
+
+export type MemoryStoreOptions = {
+  /**
+   * The number of keys kept before the least recently
+   * used ones are dropped (defaults to `10000`)
+   */
+  maxKeys?: number;
+};
+
+/**
+ * A rate limit store that keeps the most recently used keys in memory.
+ * Each server instance counts separately, so use an external store
+ * when requests are spread across instances.
+ */
+export class MemoryStore implements RateLimitStore {
+  private entries: ExpiringLru<RateLimitState>;
+
+  constructor(options: MemoryStoreOptions = {}) {
+    this.entries = new ExpiringLru(options.maxKeys ?? 10000);
+  }
+
+  update(
+    key: string,
+    change: (state: RateLimitState | undefined) => RateLimitState,
+    ttl: number
+  ): RateLimitState {
+    const state = change(this.entries.get(key));
+    this.entries.set(key, state, ttl);
+    return state;
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+}
+
+export type RateLimitAlgorithm = "fixed-window" | "token-bucket";
+
+export type RateLimitOptions = {
+  /**
+   * Requests allowed per window, or the size of the token bucket
+   */
+  limit: number;
+
+  /**
+   * Milliseconds in a window, or for an empty token bucket to refill
+   */
+  window: number;
+
+  /**
+   * `"fixed-window"` (the default) counts requests in consecutive
+   * windows; `"token-bucket"` refills tokens continuously, allowing
+   * bursts of up to `limit` requests
+   */
+  algorithm?: RateLimitAlgorithm;
+
+  /**
+   * Identifies who is limited (defaults to the client IP address)
+   */
+  key?: (
+    req: RequestWithLocals<NextApiRequest, any>
+  ) => string | Promise<string>;
+
+  /**
+   * Defaults to a new `MemoryStore`
+   */
+  store?: RateLimitStore;
+
+  /**
+   * Separates the keys of limits that share a store
+   * (defaults to the algorithm, limit and window)
+   */
+  prefix?: string;
+
+  /**
+   * Send `RateLimit-*` headers with every response (defaults to `true`)
+   */
+  headers?: boolean;
+
+  /**
+   * Identify clients by the address a proxy reports, when no `key` is
+   * given (see `clientIp`). Only enable this behind a proxy that sets
+   * these headers, or clients can choose their own address.
+   */
+  trustProxy?: boolean;
+};
+
+export type ClientIpOptions = {
+  /**
+   * Read `X-Forwarded-For` and `X-Real-IP`, which clients can set to
+   * anything unless a proxy replaces them (defaults to `false`)
+   */
+  trustProxy?: boolean;
+};
+
+/**
+ * The outcome of counting a request
+ */
+type RateLimitResult = {
+  allowed: boolean;
+  remaining: number;
+
+  /**
+   * Milliseconds until the limit is fully reset
+   */
+  reset: number;
+
+  /**
+   * Milliseconds until a request would be allowed again
+   */
+  retryAfter: number;
+};
+
+/**
+ * Create middleware that limits how many requests each client
+ * (or the key of your choice) may make. Requests over the limit
+ * receive a `429 Too Many Requests` problem response with a
+ * `Retry-After` header, without running the rest of the chain.
+ */
+export function rateLimit(
+  options: RateLimitOptions
+): Middleware<NextApiRequest, NextApiResponse> {
+  const {
+    limit,
+    window,
+    algorithm = "fixed-window",
+    trustProxy = false,
+    key = (req) => clientIp(req, { trustProxy }),
+    store = new MemoryStore(),
+    prefix = `${algorithm}:${limit}:${window}`,
+    headers = true,
+  } = options;
+
+  if (!(limit > 0) || !(window > 0)) {
+    throw new Error("Rate limits need a positive `limit` and `window`");
+  }
+
+  if (algorithm !== "fixed-window" && algorithm !== "token-bucket") {
+    throw new Error(`Unknown rate limit algorithm "${algorithm}"`);
+  }
+
+  const count = algorithm === "token-bucket" ? takeToken : countInWindow;
+
+  return nodeOnly(async function rateLimit(req, res, next) {
+    const id = `${prefix}:${await key(req)}`;
+    const result = await count(store, id, limit, window);
+
+    if (headers) {
+      res.setHeader("RateLimit-Policy", `${limit};w=${seconds(window)}`);
+      res.setHeader("RateLimit-Limit", String(limit));
+      res.setHeader("RateLimit-Remaining", String(result.remaining));
+      res.setHeader("RateLimit-Reset", String(seconds(result.reset)));
+    }
+
+    if (!result.allowed) {
+      sendProblem(
+        res,
+        new TooManyRequestsError(undefined, {
+          code: "rate_limited",
+          headers: { "Retry-After": String(seconds(result.retryAfter)) },
+        })
+      );
+      return;
+    }
+
+    await next();
+  });
+}
+
+/**
+ * The address of the client connection or, with `trustProxy`, the
+ * client IP address reported by a proxy (`X-Forwarded-For` or
+ * `X-Real-IP`)
+ */
+export function clientIp(
+  req: NextApiRequest,
+  options: ClientIpOptions = {}
+): string {
+  if (!options.trustProxy) {
+    return req.socket?.remoteAddress || "unknown";
+  }
+
+  const forwarded = req.headers["x-forwarded-for"];
+  const first = (Array.isArray(forwarded) ? forwarded[0] : forwarded)
+    ?.split(",")[0]
+    .trim();
+  const realIp = req.headers["x-real-ip"];
+
+  return (
+    first ||
+    (typeof realIp === "string" ? realIp : undefined) ||
+    req.socket?.remoteAddress ||
+    "unknown"
+  );
+}
+
+async function countInWindow(
+  store: RateLimitStore,
+  key: string,
+  limit: number,
+  window: number
+): Promise<RateLimitResult> {
+  const now = Date.now();
+  const state = await store.update(
+    key,
+    (previous) =>
+      previous && now < previous.time + window
+        ? { value: previous.value + 1, time: previous.time }
+        : { value: 1, time: now },
+    window
+  );
+
+  const reset = Math.max(0, state.time + window - now);
+
+  return {
+    allowed: state.value <= limit,
+    remaining: Math.max(0, limit - state.value),
+    reset,
+    retryAfter: reset,
+  };
+}
+
+async function takeToken(
+  store: RateLimitStore,
+  key: string,
+  limit: number,
+  window: number
+): Promise<RateLimitResult> {
+  const now = Date.now();
+  const refillRate = limit / window;
+  let allowed = false;
+
+  const state = await store.update(
+    key,
+    (previous) => {
+      const tokens = previous
+        ? Math.min(limit, previous.value + (now - previous.time) * refillRate)
+        : limit;
+
+      allowed = tokens >= 1;
+      return { value: allowed ? tokens - 1 : tokens, time: now };
+    },
+    window
+  );
+
+  return {
+    allowed,
+    remaining: Math.floor(state.value),
+    reset: Math.ceil((limit - state.value) / refillRate),
+    retryAfter: Math.ceil(Math.max(0, 1 - state.value) / refillRate),
+  };
+}
+
+/**
+ * Whole seconds, rounded up, for headers
+ */
+function seconds(milliseconds: number): number {
+  return Math.ceil(milliseconds / 1000);
+}
@@ -0,0 +1,86 @@
+import { requestId } from "./node-request-id";
+import { getRequestId, webRequestId } from "./request-id";
+import { isNodeOnlyMiddleware } from "./runtime";
+import { runMiddleware } from "./testing";
+import { use } from "./use";
+
+describe("webRequestId", () => {
+  it("gives App Router requests an ID", async () => {
+    const GET = use(webRequestId())(
+      async (request) =>
+        new Response(`${request.locals.requestId} ${getRequestId()}`)
+    );
+
+    const response = await GET(
+      new Request("https://example.com/api", {
+        headers: { "X-Request-ID": "abc-123" },
+      }),
+      {}
+    );
+
+    expect(await response.text()).toBe("abc-123 abc-123");
+    expect(response.headers.get("X-Request-ID")).toBe("abc-123");
+    expect(isNodeOnlyMiddleware(webRequestId())).toBe(false);
+  });
+});
+
+describe("getRequestId", () => {
+  it("returns the ID anywhere in the rest of the chain", async () => {
+    const seen: (string | undefined)[] = [];
+    const record = () => seen.push(getRequestId());
+    const ids = ["first", "second"];
+
+    await Promise.all(
+      ids.map((id) =>
+        runMiddleware(
+          [
+            requestId({ generate: () => id }),
+            async function later(_req, _res, next) {
+              await new Promise((resolve) => setTimeout(resolve, 5));
+              record();
+              await next();
+              record();
+            },
+          ],
+          async (_req, res) => {
+            await Promise.resolve();
+            record();
+            res.end();
+          }
+        )
+      )
+    );
+
+    expect(seen.sort()).toEqual([
+      "first",
+      "first",
+      "first",
+      "second",
+      "second",
+      "second",
+    ]);
+  });
+
+  it("returns undefined outside of the request", async () => {
+    let unrelated: string | undefined = "not called";
+
+    await runMiddleware(
+      requestId({ generate: () => "request-A" }),
+      (_req, res) => res.end()
+    );
+
+    expect(getRequestId()).toBeUndefined();
+
+    await runMiddleware(
+      async function later(_req, _res, next) {
+        await next();
+      },
+      (_req, res) => {
+        unrelated = getRequestId();
+        res.end();
+      }
+    );
+
+    expect(unrelated).toBeUndefined();
+  });
+});
@@ -0,0 +1,74 @@
+// Supported by the Edge runtime, unlike the other Node.js modules
+import { AsyncLocalStorage } from "node:async_hooks";
+import { WebMiddleware } from "./types";
+
+/**
+ * What `requestId` adds to `req.locals`
+ */
+export type RequestIdLocals = {
+  requestId: string;
+};
+
+export type RequestIdOptions = {
+  /**
+   * The request header read and the response header set
+   * (defaults to `X-Request-ID`)
+   */
+  header?: string;
+
+  /**
+   * Use the ID sent by the client or a proxy, when it is valid
+   * (defaults to `true`)
+   */
+  trustHeader?: boolean;
+
+  /**
+   * Create a new ID (defaults to a random UUID)
+   */
+  generate?: () => string;
+};
+
+export const requestIds = new AsyncLocalStorage<string>();
+
+// Visible ASCII only, so that IDs are safe to echo and log
+export const validId = /^[\x21-\x7e]{1,200}$/;
+
+/**
+ * Create middleware for App Router route handlers (in either runtime)
+ * that gives each request an ID, like `requestId`. IDs are generated
+ * with the Web Crypto API by default.
+ */
+export function webRequestId<Context = any>(
+  options: RequestIdOptions = {}
+): WebMiddleware<Context, RequestIdLocals> {
+  const {
+    header = "X-Request-ID",
+    trustHeader = true,
+    generate = () => globalThis.crypto.randomUUID(),
+  } = options;
+
+  return async function requestId(request, _context, next) {
+    const received = request.headers.get(header);
+    const id =
+      trustHeader && received !== null && validId.test(received)
+        ? received
+        : generate();
+
+    request.locals.requestId = id;
+
+    // Copy the response, whose headers may be immutable
+    const downstream = await requestIds.run(id, next);
+    const response = new Response(downstream.body, downstream);
+    response.headers.set(header, id);
+
+    return response;
+  };
+}
+
+/**
+ * The ID of the request being handled, anywhere in the code
+ * run by the middleware chain after `requestId`
+ */
+export function getRequestId(): string | undefined {
+  return requestIds.getStore();
+}
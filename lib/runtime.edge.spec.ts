@@ -0,0 +1,150 @@
+/**
+ * @jest-environment ./jest/edge-environment.cjs
+ */
+import { builtinModules } from "module";
+import {
+  addRequestId,
+  cors,
+  requireBearerToken,
+} from "./__fixtures__/web-middleware";
+
+// Node.js modules supported by the Edge runtime, with the `node:` prefix
+const edgeModules = [
+  "node:assert",
+  "node:async_hooks",
+  "node:buffer",
+  "node:events",
+  "node:util",
+];
+
+for (const name of builtinModules) {
+  for (const id of [name, `node:${name}`]) {
+    if (!edgeModules.includes(id)) {
+      jest.doMock(id, () => {
+        throw new Error(`The Edge runtime does not support "${id}"`);
+      });
+    }
+  }
+}
+
+// The build that Next.js bundles for the Edge runtime (run `tsup` first)
+const { exports: entryPoints } = require("../package.json");
+const {
+  getRequestId,
+  label,
+  use,
+  webCors,
+  webRequestId,
+}: typeof import(".") = require(`../${entryPoints["."]["edge-light"]}`);
+
+describe("Edge runtime", () => {
+  it("runs without Node.js globals", () => {
+    expect(typeof EdgeRuntime).toBe("string");
+    expect(typeof Buffer).toBe("undefined");
+    expect(typeof setImmediate).toBe("undefined");
+  });
+
+  it("cannot load Node.js modules", () => {
+    expect(() => require("fs")).toThrow(
+      'The Edge runtime does not support "fs"'
+    );
+    expect(() => require("node:crypto")).toThrow(
+      'The Edge runtime does not support "node:crypto"'
+    );
+  });
+
+  it("runs shared middleware composed with use", async () => {
+    const handler = jest.fn(
+      async (request) => new Response(`Hello, ${request.locals.token}`)
+    );
+
+    const GET = use(
+      { runtime: "edge" },
+      cors,
+      addRequestId,
+      requireBearerToken
+    )(handler);
+
+    const response = await GET(
+      new Request("https://example.com/api/hello", {
+        headers: {
+          Authorization: "Bearer secret",
+          Origin: "https://app.example.com",
+        },
+      }),
+      { params: {} }
+    );
+
+    expect(response.status).toBe(200);
+    expect(await response.text()).toBe("Hello, secret");
+    expect(response.headers.get("X-Request-ID")).toMatch(/^[0-9a-f-]{36}$/);
+    expect(response.headers.get("Access-Control-Allow-Origin")).toBe(
+      "https://app.example.com"
+    );
+    expect(handler).toHaveBeenCalledWith(expect.any(Request), { params: {} });
+  });
+
+  it("runs shared middleware composed with label", async () => {
+    const withMiddleware = label(
+      { cors, addRequestId, auth: requireBearerToken },
+      ["cors", "addRequestId"],
+      { runtime: "edge" }
+    );
+
+    const handler = jest.fn(async () => new Response("ok"));
+
+    const response = await withMiddleware("auth")(handler)(
+      new Request("https://example.com/api/hello", {
+        headers: { "X-Request-ID": "abc" },
+      }),
+      {}
+    );
+
+    expect(response.status).toBe(401);
+    expect(response.headers.get("X-Request-ID")).toBe("abc");
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it("answers preflight requests before the route handler", async () => {
+    const handler = jest.fn(async () => new Response("ok"));
+
+    const response = await use(
+      { runtime: "edge" },
+      cors,
+      requireBearerToken
+    )(handler)(
+      new Request("https://example.com/api/hello", {
+        method: "OPTIONS",
+        headers: { Origin: "https://app.example.com" },
+      }),
+      {}
+    );
+
+    expect(response.status).toBe(204);
+    expect(response.headers.get("Vary")).toBe("Origin");
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it("runs the bundled web middleware", async () => {
+    const GET = use(
+      { runtime: "edge" },
+      webCors({ origin: "https://app.example.com" }),
+      webRequestId()
+    )(async (request) => new Response(getRequestId()));
+
+    const response = await GET(
+      new Request("https://example.com/api/hello", {
+        headers: { Origin: "https://app.example.com" },
+      }),
+      {}
+    );
+
+    expect(await response.text()).toMatch(/^[0-9a-f-]{36}$/);
+    expect(response.headers.get("X-Request-ID")).toMatch(/^[0-9a-f-]{36}$/);
+    expect(response.headers.get("Access-Control-Allow-Origin")).toBe(
+      "https://app.example.com"
+    );
+  });
+});
+
+declare const EdgeRuntime: string;
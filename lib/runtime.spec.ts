@@ -0,0 +1,140 @@
+import { NextApiRequest, NextApiResponse } from "next";
+import { label } from "./label";
+import {
+  isEdgeMiddleware,
+  isEdgeMiddlewareArray,
+  isNodeOnlyMiddleware,
+  nodeOnly,
+} from "./runtime";
+import { use } from "./use";
+import {
+  addRequestId,
+  cors,
+  requireBearerToken,
+} from "./__fixtures__/web-middleware";
+
+// The Fetch API is only available globally in Node.js 18+
+const describeWithFetch =
+  typeof Request === "undefined" ? describe.skip : describe;
+
+describe("nodeOnly", () => {
+  it("marks middleware as requiring the Node.js runtime", () => {
+    const middleware = nodeOnly(async (req, res, next) => next());
+
+    expect(isNodeOnlyMiddleware(middleware)).toBe(true);
+    expect(
+      isNodeOnlyMiddleware(
+        async (req: unknown, res: unknown, next: () => Promise<void>) => next()
+      )
+    ).toBe(false);
+    expect(isNodeOnlyMiddleware(null)).toBe(false);
+  });
+});
+
+describe("isEdgeMiddleware", () => {
+  it("returns false for invalid or Node-only middleware", () => {
+    expect(isEdgeMiddleware(NaN)).toBe(false);
+    expect(isEdgeMiddleware((a: unknown, b: unknown) => {})).toBe(false);
+    expect(isEdgeMiddleware(nodeOnly(async (req, res, next) => next()))).toBe(
+      false
+    );
+  });
+
+  it("returns true for middleware that is not Node-only", () => {
+    expect(isEdgeMiddleware(cors)).toBe(true);
+    expect(isEdgeMiddlewareArray([cors, addRequestId])).toBe(true);
+  });
+
+  it("throws errors for Node-only middleware when throwOnError is enabled", () => {
+    const parseMultipart = nodeOnly(async function parseMultipart(
+      req,
+      res,
+      next
+    ) {
+      await next();
+    });
+
+    expect(() => isEdgeMiddlewareArray([cors, parseMultipart], true)).toThrow(
+      'Middleware "parseMultipart" requires the Node.js runtime and cannot run on the Edge runtime'
+    );
+  });
+});
+
+describe("Edge runtime composition", () => {
+  const nodeMiddleware = nodeOnly(
+    async (
+      req: NextApiRequest,
+      res: NextApiResponse,
+      next: () => Promise<void>
+    ) => next()
+  );
+
+  it("rejects Node-only middleware passed to use", () => {
+    // @ts-expect-error
+    expect(() => use({ runtime: "edge" }, cors, nodeMiddleware)).toThrow(
+      "cannot run on the Edge runtime"
+    );
+    expect(() => use(nodeMiddleware)).not.toThrow();
+  });
+
+  it("rejects Node-only middleware registered with label", () => {
+    expect(() =>
+      // @ts-expect-error
+      label({ cors, nodeMiddleware }, [], { runtime: "edge" })
+    ).toThrow("cannot run on the Edge runtime");
+  });
+
+  it("rejects Node-only middleware chosen inline with label", () => {
+    const withMiddleware = label({ cors }, [], { runtime: "edge" });
+
+    // @ts-expect-error
+    expect(() => withMiddleware("cors", nodeMiddleware)).toThrow(
+      "cannot run on the Edge runtime"
+    );
+  });
+
+  it("rejects Node.js requests", async () => {
+    const handler = use(
+      { runtime: "edge" },
+      cors
+    )(async () => new Response("ok"));
+
+    await expect(
+      // @ts-expect-error
+      handler({} as NextApiRequest, {} as NextApiResponse)
+    ).rejects.toThrow(
+      "Middleware composed for the Edge runtime can only wrap App Router route handlers"
+    );
+  });
+});
+
+describeWithFetch("Shared web middleware on the Node.js runtime", () => {
+  const withMiddleware = label({ cors, addRequestId, requireBearerToken });
+
+  it("runs the chain", async () => {
+    const response = await withMiddleware(
+      "cors",
+      "addRequestId",
+      "requireBearerToken"
+    )(
+      async (request) =>
+        new Response(`${request.locals.requestId}:${request.locals.token}`)
+    )(
+      new Request("https://example.com", {
+        headers: {
+          Authorization: "Bearer secret",
+          Origin: "https://app.example.com",
+          "X-Request-ID": "abc",
+        },
+      }),
+      {}
+    );
+
+    expect(response.status).toBe(200);
+    expect(await response.text()).toBe("abc:secret");
+    expect(response.headers.get("X-Request-ID")).toBe("abc");
+    expect(response.headers.get("Access-Control-Allow-Origin")).toBe(
+      "https://app.example.com"
+    );
+  });
+});
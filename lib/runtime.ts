@@ -0,0 +1,57 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { AnyMiddleware, Middleware, WebMiddleware } from "./types";
+import { isValidMiddleware, MiddlewareValidationOptions } from "./validation";
+
+const runtimeMarker = Symbol.for("next-api-middleware.runtime");
+
+/**
+ * Mark middleware as depending on Node.js APIs (such as `Buffer`,
+ * `fs` or a Node.js `res` object), so that it is rejected when
+ * middleware is composed for the Edge runtime
+ */
+export function nodeOnly<
+  M extends Middleware<NextApiRequest, NextApiResponse, any>
+>(middleware: M): M;
+export function nodeOnly<M extends WebMiddleware<any, any>>(middleware: M): M;
+export function nodeOnly<M extends AnyMiddleware>(middleware: M): M {
+  Object.defineProperty(middleware, runtimeMarker, {
+    value: "nodejs",
+    configurable: true,
+  });
+  return middleware;
+}
+
+export function isNodeOnlyMiddleware(input: unknown): boolean {
+  return (
+    typeof input === "function" &&
+    (input as { [runtimeMarker]?: string })[runtimeMarker] === "nodejs"
+  );
+}
+
+export function isEdgeMiddleware(
+  input: unknown,
+  throwOnFailure = false,
+  options: MiddlewareValidationOptions = {}
+): input is WebMiddleware {
+  if (!isValidMiddleware(input, throwOnFailure, options)) {
+    return false;
+  }
+
+  const valid = !isNodeOnlyMiddleware(input);
+  if (!valid && throwOnFailure) {
+    throw new Error(
+      `Middleware "${
+        input.name || "anonymous"
+      }" requires the Node.js runtime and cannot run on the Edge runtime`
+    );
+  }
+  return valid;
+}
+
+export function isEdgeMiddlewareArray(
+  input: unknown[],
+  throwOnFailure = false,
+  options: MiddlewareValidationOptions = {}
+): input is WebMiddleware[] {
+  return input.every((item) => isEdgeMiddleware(item, throwOnFailure, options));
+}
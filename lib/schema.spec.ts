@@ -0,0 +1,276 @@
+import { NextApiRequest, NextApiResponse } from "next";
+import { isNodeOnlyMiddleware } from "./runtime";
+import { predicate, StandardSchemaV1, validate } from "./schema";
+import { Middleware } from "./types";
+import { use } from "./use";
+
+// A minimal Standard Schema implementation for objects with string fields
+function stringFields(
+  fields: string[],
+  { async = false } = {}
+): StandardSchemaV1<unknown, Record<string, string>> {
+  return {
+    "~standard": {
+      version: 1,
+      vendor: "test",
+      validate(value) {
+        const input = (value || {}) as Record<string, unknown>;
+        const issues = fields
+          .filter((field) => typeof input[field] !== "string")
+          .map((field) => ({
+            message: "Expected a string",
+            path: [{ key: "fields" }, field],
+          }));
+
+        const result = issues.length
+          ? { issues }
+          : {
+              value: Object.fromEntries(
+                fields.map((field) => [field, (input[field] as string).trim()])
+              ),
+            };
+
+        return async ? Promise.resolve(result) : result;
+      },
+    },
+  };
+}
+
+function mockResponse() {
+  const res = {
+    statusCode: 200,
+    headersSent: false,
+    writableEnded: false,
+    setHeader: jest.fn(),
+    end: jest.fn(),
+    json: jest.fn(),
+  };
+  return res;
+}
+
+async function callValidated(
+  middleware: Middleware<NextApiRequest, NextApiResponse, any>,
+  req: Partial<NextApiRequest>,
+  handler = jest.fn()
+) {
+  const res = mockResponse();
+  const json = res.json;
+  await use({ onError: true }, middleware)(handler)(
+    req as NextApiRequest,
+    res as unknown as NextApiResponse
+  );
+  return { res, json, handler };
+}
+
+describe("validate", () => {
+  it("adds parsed values to req.locals", async () => {
+    const { handler } = await callValidated(
+      validate({
+        query: stringFields(["id"]),
+        body: stringFields(["name"], { async: true }),
+        headers: predicate(
+          (headers) => typeof headers === "object",
+          "Expected headers"
+        ),
+      }),
+      {
+        query: { id: " 1 " },
+        body: { name: " Ada " },
+        headers: { host: "example.com" },
+      }
+    );
+
+    expect(handler).toHaveBeenCalled();
+    expect(handler.mock.calls[0][0].locals).toEqual({
+      query: { id: "1" },
+      body: { name: "Ada" },
+      headers: { host: "example.com" },
+    });
+  });
+
+  it("types parsed values for the handler", async () => {
+    const handler = jest.fn();
+
+    await use(validate({ query: stringFields(["id"]) }))((req, res) => {
+      const id: string = req.locals.query.id;
+      // @ts-expect-error
+      req.locals.body;
+      handler(id);
+    })(
+      { query: { id: "1" } } as unknown as NextApiRequest,
+      mockResponse() as unknown as NextApiResponse
+    );
+
+    expect(handler).toHaveBeenCalledWith("1");
+  });
+
+  it("responds with 400 Bad Request listing every issue", async () => {
+    const { res, handler } = await callValidated(
+      validate({
+        query: stringFields(["id"]),
+        body: stringFields(["name", "email"]),
+      }),
+      { query: {}, body: { email: "ada@example.com" } }
+    );
+
+    expect(handler).not.toHaveBeenCalled();
+    expect(res.statusCode).toBe(400);
+    expect(JSON.parse(res.end.mock.calls[0][0])).toEqual({
+      type: "about:blank",
+      title: "Bad Request",
+      status: 400,
+      detail: "Invalid request",
+      code: "invalid_request",
+      details: [
+        { location: "query", path: "fields.id", message: "Expected a string" },
+        {
+          location: "body",
+          path: "fields.name",
+          message: "Expected a string",
+        },
+      ],
+    });
+  });
+
+  it("is marked as Node-only", () => {
+    expect(isNodeOnlyMiddleware(validate({}))).toBe(true);
+  });
+
+  describe("response validation", () => {
+    it("sends valid responses", async () => {
+      for (const async of [false, true]) {
+        const { json } = await callValidated(
+          validate({ response: stringFields(["name"], { async }) }),
+          {},
+          jest.fn(async (_req, res) => {
+            res.json({ name: "Ada" });
+          })
+        );
+
+        expect(json).toHaveBeenCalledWith({ name: "Ada" });
+      }
+    });
+
+    it("rejects invalid responses", async () => {
+      for (const async of [false, true]) {
+        const res = mockResponse();
+        const json = res.json;
+
+        await expect(
+          use(validate({ response: stringFields(["name"], { async }) }))(
+            async (_req, res) => {
+              res.json({ name: 1 });
+            }
+          )({} as NextApiRequest, res as unknown as NextApiResponse)
+        ).rejects.toMatchObject({
+          status: 500,
+          code: "invalid_response",
+          details: [
+            {
+              location: "response",
+              path: "fields.name",
+              message: "Expected a string",
+            },
+          ],
+        });
+
+        expect(json).not.toHaveBeenCalled();
+      }
+    });
+
+    it("checks every response sent with asynchronous schemas", async () => {
+      const res = mockResponse();
+
+      await expect(
+        use(validate({ response: stringFields(["name"], { async: true }) }))(
+          async (_req, res) => {
+            res.json({ name: 1 });
+            res.json({ name: "Ada" });
+          }
+        )({} as NextApiRequest, res as unknown as NextApiResponse)
+      ).rejects.toMatchObject({ code: "invalid_response" });
+    });
+
+    it("reports errors of the chain over pending validation", async () => {
+      const res = mockResponse();
+      const unhandled = jest.fn();
+      process.on("unhandledRejection", unhandled);
+
+      try {
+        await expect(
+          use(validate({ response: stringFields(["name"], { async: true }) }))(
+            async (_req, res) => {
+              res.json({ name: 1 });
+              throw new Error("Handler failed");
+            }
+          )({} as NextApiRequest, res as unknown as NextApiResponse)
+        ).rejects.toThrowError("Handler failed");
+        await new Promise((resolve) => setTimeout(resolve, 0));
+
+        expect(unhandled).not.toBeCalled();
+      } finally {
+        process.off("unhandledRejection", unhandled);
+      }
+    });
+
+    it("restores res.json once the rest of the chain settles", async () => {
+      for (const fails of [false, true]) {
+        const res = mockResponse();
+        const json = res.json;
+
+        const sent = use(
+          async (
+            _req: unknown,
+            res: NextApiResponse,
+            next: () => Promise<void>
+          ) => {
+            await next().catch(() => {});
+            res.json({ error: "Unchecked" });
+          },
+          validate({ response: stringFields(["name"]) })
+        )(async () => {
+          if (fails) {
+            throw new Error("Handler failed");
+          }
+        })({} as NextApiRequest, res as unknown as NextApiResponse);
+
+        await expect(sent).resolves.toBeUndefined();
+        expect(res.json).toBe(json);
+        expect(json).toHaveBeenCalledWith({ error: "Unchecked" });
+      }
+    });
+
+    it("skips response validation in production", async () => {
+      const env = process.env.NODE_ENV;
+      Object.assign(process.env, { NODE_ENV: "production" });
+
+      try {
+        const { json } = await callValidated(
+          validate({ response: stringFields(["name"]) }),
+          {},
+          jest.fn(async (_req, res) => {
+            res.json({ name: 1 });
+          })
+        );
+
+        expect(json).toHaveBeenCalledWith({ name: 1 });
+      } finally {
+        Object.assign(process.env, { NODE_ENV: env });
+      }
+    });
+  });
+});
+
+describe("predicate", () => {
+  it("adapts a type guard to the Standard Schema interface", () => {
+    const isNumber = predicate(
+      (value): value is number => typeof value === "number",
+      "Expected a number"
+    );
+
+    expect(isNumber["~standard"].validate(1)).toEqual({ value: 1 });
+    expect(isNumber["~standard"].validate("1")).toEqual({
+      issues: [{ message: "Expected a number" }],
+    });
+  });
+});
@@ -0,0 +1,211 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { isProduction } from "./env";
+import { BadRequestError, InternalServerError } from "./errors";
+import { isPromise } from "./promises";
+import { nodeOnly } from "./runtime";
+import { Middleware } from "./types";
+
+/**
+ * The Standard Schema interface (https://standardschema.dev),
+ * implemented by zod, valibot, ArkType and others
+ */
+export type StandardSchemaV1<Input = unknown, Output = Input> = {
+  readonly "~standard": {
+    readonly version: 1;
+    readonly vendor: string;
+    readonly validate: (
+      value: unknown
+    ) => StandardSchemaResult<Output> | Promise<StandardSchemaResult<Output>>;
+    readonly types?: { readonly input: Input; readonly output: Output };
+  };
+};
+
+export type StandardSchemaResult<Output> =
+  | { readonly value: Output; readonly issues?: undefined }
+  | { readonly issues: ReadonlyArray<StandardSchemaIssue> };
+
+export type StandardSchemaIssue = {
+  readonly message: string;
+  readonly path?: ReadonlyArray<PropertyKey | { readonly key: PropertyKey }>;
+};
+
+/**
+ * The output type of a schema
+ */
+export type InferOutput<Schema> = Schema extends StandardSchemaV1<
+  any,
+  infer Output
+>
+  ? Output
+  : never;
+
+/**
+ * Parts of the request to validate, and (in development) the JSON
+ * sent by the API route handler
+ */
+export type RequestSchemas = {
+  query?: StandardSchemaV1;
+  body?: StandardSchemaV1;
+  headers?: StandardSchemaV1;
+  response?: StandardSchemaV1;
+};
+
+/**
+ * Parsed values added to `req.locals` by `validate`
+ */
+export type ValidatedLocals<Schemas extends RequestSchemas> = {
+  [Part in Exclude<keyof Schemas, "response">]: InferOutput<Schemas[Part]>;
+};
+
+/**
+ * A field-level problem found by `validate`
+ */
+export type ValidationIssue = {
+  location: "query" | "body" | "headers" | "response";
+  path: string;
+  message: string;
+};
+
+const requestParts = ["query", "body", "headers"] as const;
+
+/**
+ * Create middleware that validates `req.query`, `req.body` and
+ * `req.headers` and adds the parsed values to `req.locals`.
+ *
+ * Invalid requests throw a `BadRequestError` listing every issue,
+ * which becomes a `400 Bad Request` problem response when the
+ * `onError` option is enabled. Outside of production, the JSON sent
+ * with `res.json` is checked against the `response` schema too.
+ */
+export function validate<Schemas extends RequestSchemas>(
+  schemas: Schemas
+): Middleware<NextApiRequest, NextApiResponse, ValidatedLocals<Schemas>> {
+  return nodeOnly(async function validateRequest(req, res, next) {
+    const issues: ValidationIssue[] = [];
+    const locals = req.locals as Record<string, unknown>;
+
+    for (const part of requestParts) {
+      const schema = schemas[part];
+      if (!schema) {
+        continue;
+      }
+
+      const result = await schema["~standard"].validate(req[part]);
+
+      if (result.issues) {
+        issues.push(...toValidationIssues(part, result.issues));
+      } else {
+        locals[part] = result.value;
+      }
+    }
+
+    if (issues.length > 0) {
+      throw new BadRequestError("Invalid request", {
+        code: "invalid_request",
+        details: issues,
+      });
+    }
+
+    if (!schemas.response || isProduction()) {
+      await next();
+      return;
+    }
+
+    const responseValidation = validateResponses(res, schemas.response);
+
+    try {
+      await next();
+    } catch (error) {
+      // Let validation in progress finish, but report the chain's error
+      await responseValidation.settled().catch(() => {});
+      throw error;
+    } finally {
+      // Middleware earlier in the chain sends responses unchecked
+      responseValidation.restore();
+    }
+
+    await responseValidation.settled();
+  });
+}
+
+/**
+ * Adapt a type guard (or any function returning a boolean) to
+ * the Standard Schema interface
+ */
+export function predicate<Output>(
+  check: ((value: unknown) => value is Output) | ((value: unknown) => boolean),
+  message = "Invalid value"
+): StandardSchemaV1<unknown, Output> {
+  return {
+    "~standard": {
+      version: 1,
+      vendor: "next-api-middleware",
+      validate: (value) =>
+        check(value) ? { value: value as Output } : { issues: [{ message }] },
+    },
+  };
+}
+
+/**
+ * Check JSON sent with `res.json` against a schema before it is
+ * written. Asynchronous validation delays sending the response
+ * until the result is known.
+ */
+function validateResponses(res: NextApiResponse, schema: StandardSchemaV1) {
+  const original = res.json;
+  const json = original.bind(res);
+  const pending: Promise<void>[] = [];
+
+  const check = (result: StandardSchemaResult<unknown>, body: unknown) => {
+    if (result.issues) {
+      throw new InternalServerError("Response does not match schema", {
+        code: "invalid_response",
+        details: toValidationIssues("response", result.issues),
+      });
+    }
+
+    json(body);
+  };
+
+  res.json = (body: unknown) => {
+    const result = schema["~standard"].validate(body);
+
+    if (isPromise<StandardSchemaResult<unknown>>(result)) {
+      const validation = result.then((settled) => check(settled, body));
+
+      // Failures are reported by `settled`, even when nothing awaits it
+      validation.catch(() => {});
+      pending.push(validation);
+    } else {
+      check(result, body);
+    }
+
+    return res;
+  };
+
+  return {
+    // Resolve once every asynchronous validation finishes (rejecting
+    // if a response was invalid)
+    settled: () => Promise.all(pending).then(() => {}),
+
+    // Put back the original `res.json`
+    restore: () => {
+      res.json = original;
+    },
+  };
+}
+
+function toValidationIssues(
+  location: ValidationIssue["location"],
+  issues: ReadonlyArray<StandardSchemaIssue>
+): ValidationIssue[] {
+  return issues.map((issue) => ({
+    location,
+    path: (issue.path || [])
+      .map((segment) =>
+        String(typeof segment === "object" ? segment.key : segment)
+      )
+      .join("."),
+    message: issue.message,
+  }));
+}
@@ -0,0 +1,125 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { warnInDevelopment } from "./env";
+import {
+  AnyMiddleware,
+  MiddlewareEvent,
+  MiddlewareExitEvent,
+  MiddlewareHooks,
+} from "./types";
+
+// This gets created internally by `makeMiddlewareExecutor`
+export class MiddlewareTracer {
+  constructor(
+    public hooks: MiddlewareHooks[],
+    public labels: (string | undefined)[] = []
+  ) {}
+
+  /**
+   * Start timing a middleware call
+   */
+  start(
+    fn: AnyMiddleware,
+    stackPosition: number,
+    req: NextApiRequest | Request,
+    res?: NextApiResponse
+  ): MiddlewareSpan {
+    return new MiddlewareSpan(this.hooks, {
+      name: fn.name || "anonymous",
+      label: this.labels[stackPosition - 1],
+      stackPosition,
+      req,
+      res,
+    });
+  }
+}
+
+export class MiddlewareSpan {
+  startedAt = now();
+  nextAt?: number;
+  settledAt?: number;
+
+  constructor(public hooks: MiddlewareHooks[], public event: MiddlewareEvent) {
+    this.emit("onEnter", event);
+  }
+
+  /**
+   * Record the end of the setup phase (the first call of `next`)
+   */
+  next() {
+    if (this.nextAt !== undefined) {
+      return;
+    }
+
+    this.nextAt = now();
+
+    const event = Object.assign(this.event, {
+      setupDuration: this.nextAt - this.startedAt,
+    });
+
+    this.emit("onNext", event);
+  }
+
+  /**
+   * Record the end of the rest of the chain
+   */
+  settled() {
+    this.settledAt ??= now();
+  }
+
+  /**
+   * Record the end of the middleware call
+   */
+  exit(response?: Response) {
+    const event = this.finish({ response });
+
+    this.emit("onExit", event);
+  }
+
+  /**
+   * Record the failure of the middleware call
+   */
+  fail(error: unknown) {
+    const event = this.finish({ error });
+
+    this.emit("onError", event);
+  }
+
+  /**
+   * Call a hook of every set of hooks. Hooks that throw are reported,
+   * but cannot fail the request or keep the other hooks from running.
+   */
+  emit<Hook extends keyof MiddlewareHooks>(
+    hook: Hook,
+    event: Parameters<NonNullable<MiddlewareHooks[Hook]>>[0]
+  ) {
+    for (const hooks of this.hooks) {
+      try {
+        (hooks[hook] as ((event: MiddlewareEvent) => void) | undefined)?.(
+          event
+        );
+      } catch (error) {
+        warnInDevelopment(
+          `The ${hook} hook failed for middleware "${this.event.name}": ${
+            error instanceof Error ? error.message : String(error)
+          }`
+        );
+      }
+    }
+  }
+
+  finish<T extends object>(details: T): MiddlewareExitEvent & T {
+    const finishedAt = now();
+    const nextAt = this.nextAt ?? finishedAt;
+
+    return Object.assign(this.event, details, {
+      setupDuration: nextAt - this.startedAt,
+      teardownDuration:
+        this.nextAt === undefined ? 0 : finishedAt - (this.settledAt ?? nextAt),
+      duration: finishedAt - this.startedAt,
+    });
+  }
+}
+
+function now(): number {
+  return typeof performance === "undefined" ? Date.now() : performance.now();
+}
@@ -0,0 +1,204 @@
+import { NotFoundError } from "./errors";
+import {
+  createMockRequest,
+  createMockResponse,
+  matchers,
+  MiddlewareMatchers,
+  runMiddleware,
+} from "./testing";
+
+declare global {
+  namespace jest {
+    interface Matchers<R, T = {}> extends MiddlewareMatchers<R> {}
+  }
+}
+
+expect.extend(matchers);
+
+async function outer(_req: any, _res: any, next: () => Promise<void>) {
+  await next();
+}
+
+async function inner(_req: any, _res: any, next: () => Promise<void>) {
+  await next();
+}
+
+async function deny(_req: any, res: any, _next: () => Promise<void>) {
+  res.status(401).json({ error: "unauthorized" });
+}
+
+describe("createMockRequest", () => {
+  it("creates a GET request for / by default", () => {
+    const req = createMockRequest();
+
+    expect(req.method).toBe("GET");
+    expect(req.url).toBe("/");
+    expect(req.query).toEqual({});
+    expect(req.cookies).toEqual({});
+    expect(req.headers).toEqual({});
+  });
+
+  it("parses the query and cookies", () => {
+    const req = createMockRequest({
+      url: "/users?id=1&tag=a&tag=b",
+      headers: { Cookie: "session=abc; theme=dark%20mode" },
+    });
+
+    expect(req.query).toEqual({ id: "1", tag: ["a", "b"] });
+    expect(req.cookies).toEqual({ session: "abc", theme: "dark mode" });
+    expect(req.headers.cookie).toBeDefined();
+  });
+
+  it("streams the raw body", async () => {
+    const req = createMockRequest({ method: "POST", body: { name: "Ada" } });
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) {
+      chunks.push(chunk);
+    }
+
+    expect(req.body).toEqual({ name: "Ada" });
+    expect(Buffer.concat(chunks).toString()).toBe('{"name":"Ada"}');
+  });
+});
+
+describe("MockResponse", () => {
+  it("records the status, headers and JSON body", () => {
+    const res = createMockResponse();
+
+    res.setHeader("X-Request-Id", "abc");
+    res.status(201).json({ id: 1 });
+
+    expect(res.statusCode).toBe(201);
+    expect(res.getHeader("x-request-id")).toBe("abc");
+    expect(res.getHeader("Content-Type")).toBe(
+      "application/json; charset=utf-8"
+    );
+    expect(res.jsonBody()).toEqual({ id: 1 });
+    expect(res.writableEnded).toBe(true);
+  });
+
+  it("rejects headers after the response was sent", () => {
+    const res = createMockResponse();
+    res.send("done");
+
+    expect(() => res.setHeader("X-Late", "1")).toThrow(
+      "Cannot set headers after they are sent to the client"
+    );
+  });
+
+  it("records redirects", () => {
+    const res = createMockResponse();
+    res.redirect("/login");
+
+    expect(res.statusCode).toBe(307);
+    expect(res.getHeader("Location")).toBe("/login");
+  });
+
+  it("emits finish once ended", async () => {
+    const res = createMockResponse();
+    const finished = new Promise((resolve) => res.once("finish", resolve));
+
+    res.end();
+
+    await expect(finished).resolves.toBeUndefined();
+  });
+});
+
+describe("runMiddleware", () => {
+  it("traces setup and teardown of each middleware", async () => {
+    const result = await runMiddleware([outer, inner], (_req, res) => {
+      res.status(200).json({ ok: true });
+    });
+
+    expect(result.handlerCalled).toBe(true);
+    expect(result.trace).toEqual([
+      { name: "outer", stackPosition: 1, phase: "setup" },
+      { name: "inner", stackPosition: 2, phase: "setup" },
+      { name: "inner", stackPosition: 2, phase: "teardown" },
+      { name: "outer", stackPosition: 1, phase: "teardown" },
+    ]);
+  });
+
+  it("traces middleware that stops the chain", async () => {
+    const result = await runMiddleware([outer, deny, inner]);
+
+    expect(result.handlerCalled).toBe(false);
+    expect(result.trace).toEqual([
+      { name: "outer", stackPosition: 1, phase: "setup" },
+      { name: "deny", stackPosition: 2, phase: "setup" },
+      { name: "outer", stackPosition: 1, phase: "teardown" },
+    ]);
+  });
+
+  it("passes the request init to the chain", async () => {
+    const handler = jest.fn((req, res) => res.json(req.query));
+
+    const result = await runMiddleware(inner, handler, {
+      url: "/?page=2",
+    });
+
+    expect(result.req.method).toBe("GET");
+    expect(result.res.jsonBody()).toEqual({ page: "2" });
+  });
+
+  it("rethrows errors", async () => {
+    await expect(
+      runMiddleware(outer, () => {
+        throw new NotFoundError();
+      })
+    ).rejects.toThrow(NotFoundError);
+  });
+
+  it("accepts options", async () => {
+    const result = await runMiddleware(
+      outer,
+      () => {
+        throw new NotFoundError("No such user");
+      },
+      {},
+      { onError: true }
+    );
+
+    expect(result.res.statusCode).toBe(404);
+    expect(result.trace).toContainEqual({
+      name: "outer",
+      stackPosition: 1,
+      phase: "teardown",
+    });
+  });
+});
+
+describe("matchers", () => {
+  it("assert on the recorded response", async () => {
+    const result = await runMiddleware([outer, deny]);
+
+    expect(result).toHaveStatus(401);
+    expect(result.res).toHaveStatus(401);
+    expect(result).toHaveHeader("Content-Type");
+    expect(result).toHaveHeader("Content-Length", 24);
+    expect(result).not.toHaveHeader("Location");
+    expect(result).toHaveJsonBody({ error: "unauthorized" });
+    expect(result).toHaveEnded();
+  });
+
+  it("assert on the trace", async () => {
+    const result = await runMiddleware([outer, deny, inner]);
+
+    expect(result).toHaveRunMiddleware("deny");
+    expect(result).toHaveRunMiddleware("outer", "teardown");
+    expect(result).not.toHaveRunMiddleware("deny", "teardown");
+    expect(result).not.toHaveRunMiddleware("inner");
+  });
+
+  it("explain failures", () => {
+    const res = createMockResponse();
+    res.status(500).end();
+
+    expect(() => expect(res).toHaveStatus(200)).toThrow(
+      "expected status to be 200, received 500"
+    );
+    expect(() => expect(res).toHaveJsonBody({})).toThrow(
+      "expected JSON body to equal {}, received undefined"
+    );
+  });
+});
@@ -0,0 +1,516 @@
+import { EventEmitter } from "events";
+import type { NextApiRequest, NextApiResponse } from "next";
+import { Readable } from "stream";
+import {
+  ApiHandler,
+  Middleware,
+  MiddlewareEvent,
+  MiddlewareGroup,
+  MiddlewareHooks,
+  MiddlewareOptions,
+  RequestWithLocals,
+} from "./types";
+import { use } from "./use";
+
+/**
+ * What a mock request is created with
+ */
+export type MockRequestInit = {
+  /**
+   * Defaults to `"GET"`
+   */
+  method?: string;
+
+  /**
+   * Defaults to `"/"`; its search parameters become `req.query`
+   */
+  url?: string;
+
+  headers?: Record<string, string | string[]>;
+
+  /**
+   * Defaults to the search parameters of `url`
+   */
+  query?: NextApiRequest["query"];
+
+  /**
+   * Defaults to the `Cookie` header, if any
+   */
+  cookies?: NextApiRequest["cookies"];
+
+  /**
+   * The parsed body, as Next.js provides it. The request stream
+   * yields the raw body (objects are sent as JSON).
+   */
+  body?: unknown;
+
+  /**
+   * The address of the client connection, as `req.socket.remoteAddress`
+   */
+  remoteAddress?: string;
+};
+
+/**
+ * Create a `NextApiRequest` for unit tests
+ */
+export function createMockRequest(init: MockRequestInit = {}): NextApiRequest {
+  const url = init.url ?? "/";
+  const headers: NextApiRequest["headers"] = {};
+  for (const [name, value] of Object.entries(init.headers ?? {})) {
+    headers[name.toLowerCase()] = value;
+  }
+
+  const req = Readable.from(rawBody(init.body)) as unknown as NextApiRequest;
+
+  return Object.assign(req, {
+    method: init.method ?? "GET",
+    url,
+    headers,
+    query: init.query ?? parseQuery(url),
+    cookies: init.cookies ?? parseCookies(headers.cookie),
+    body: init.body,
+    env: {},
+    socket: { remoteAddress: init.remoteAddress },
+  });
+}
+
+/**
+ * A `NextApiResponse` for unit tests that records
+ * the status, headers and body that were sent
+ */
+export class MockResponse extends EventEmitter {
+  statusCode = 200;
+  statusMessage = "";
+  headersSent = false;
+  writableEnded = false;
+
+  /**
+   * Every chunk written to the response
+   */
+  chunks: Buffer[] = [];
+
+  private headers = new Map<string, number | string | string[]>();
+
+  /**
+   * The body written so far, as text
+   */
+  get body(): string {
+    return Buffer.concat(this.chunks).toString("utf8");
+  }
+
+  /**
+   * The body parsed as JSON (`undefined` when empty)
+   */
+  jsonBody(): unknown {
+    const body = this.body;
+    return body ? JSON.parse(body) : undefined;
+  }
+
+  setHeader(name: string, value: number | string | readonly string[]) {
+    if (this.headersSent) {
+      throw Object.assign(
+        new Error("Cannot set headers after they are sent to the client"),
+        { code: "ERR_HTTP_HEADERS_SENT" }
+      );
+    }
+
+    this.headers.set(
+      name.toLowerCase(),
+      Array.isArray(value) ? [...value] : (value as number | string)
+    );
+    return this;
+  }
+
+  getHeader(name: string) {
+    return this.headers.get(name.toLowerCase());
+  }
+
+  getHeaders(): Record<string, number | string | string[]> {
+    return Object.fromEntries(this.headers);
+  }
+
+  getHeaderNames(): string[] {
+    return [...this.headers.keys()];
+  }
+
+  hasHeader(name: string): boolean {
+    return this.headers.has(name.toLowerCase());
+  }
+
+  removeHeader(name: string) {
+    this.headers.delete(name.toLowerCase());
+  }
+
+  writeHead(
+    statusCode: number,
+    statusMessage?: string | Record<string, number | string | string[]>,
+    headers?: Record<string, number | string | string[]>
+  ) {
+    if (typeof statusMessage === "object") {
+      headers = statusMessage;
+    } else if (statusMessage) {
+      this.statusMessage = statusMessage;
+    }
+
+    this.statusCode = statusCode;
+    for (const [name, value] of Object.entries(headers ?? {})) {
+      this.setHeader(name, value);
+    }
+    this.headersSent = true;
+    return this;
+  }
+
+  write(chunk: string | Buffer) {
+    if (this.writableEnded) {
+      throw Object.assign(new Error("write after end"), {
+        code: "ERR_STREAM_WRITE_AFTER_END",
+      });
+    }
+
+    this.headersSent = true;
+    this.chunks.push(Buffer.from(chunk));
+    return true;
+  }
+
+  end(chunk?: string | Buffer | (() => void)) {
+    if (this.writableEnded) {
+      return this;
+    }
+
+    if (chunk && typeof chunk !== "function") {
+      this.write(chunk);
+    }
+
+    this.headersSent = true;
+    this.writableEnded = true;
+    setImmediate(() => {
+      this.emit("finish");
+      this.emit("close");
+    });
+    return this;
+  }
+
+  status(statusCode: number) {
+    this.statusCode = statusCode;
+    return this;
+  }
+
+  send(body: unknown) {
+    if (body === null || body === undefined) {
+      this.end();
+      return;
+    }
+
+    if (Buffer.isBuffer(body)) {
+      if (!this.hasHeader("Content-Type")) {
+        this.setHeader("Content-Type", "application/octet-stream");
+      }
+      this.setHeader("Content-Length", body.length);
+      this.end(body);
+      return;
+    }
+
+    const isJSONLike = ["object", "number", "boolean"].includes(typeof body);
+    const text = isJSONLike ? JSON.stringify(body) : String(body);
+
+    if (isJSONLike) {
+      this.setHeader("Content-Type", "application/json; charset=utf-8");
+    }
+    this.setHeader("Content-Length", Buffer.byteLength(text));
+    this.end(text);
+  }
+
+  json(body: unknown) {
+    this.setHeader("Content-Type", "application/json; charset=utf-8");
+    this.send(JSON.stringify(body));
+  }
+
+  redirect(statusOrUrl: number | string, url?: string) {
+    const location = typeof statusOrUrl === "string" ? statusOrUrl : url!;
+    const statusCode = typeof statusOrUrl === "number" ? statusOrUrl : 307;
+
+    this.writeHead(statusCode, { Location: location });
+    this.end(location);
+    return this;
+  }
+}
+
+/**
+ * Create a `NextApiResponse` for unit tests
+ */
+export function createMockResponse(): MockResponse & NextApiResponse {
+  return new MockResponse() as MockResponse & NextApiResponse;
+}
+
+/**
+ * One phase of a middleware call recorded by `runMiddleware`
+ */
+export type MiddlewareTraceEntry = {
+  /**
+   * The function name of the middleware (or `"anonymous"`)
+   */
+  name: string;
+
+  /**
+   * The position of the middleware in the chain, starting at `1`
+   */
+  stackPosition: number;
+
+  /**
+   * `"setup"` when the middleware was called, `"teardown"` when it
+   * finished after calling `next`
+   */
+  phase: "setup" | "teardown";
+};
+
+export type RunMiddlewareResult = {
+  /**
+   * The mock request, with the locals added by the chain
+   */
+  req: RequestWithLocals<NextApiRequest, Record<string, any>>;
+  res: MockResponse & NextApiResponse;
+
+  /**
+   * The setup and teardown phases of each middleware, in order
+   */
+  trace: MiddlewareTraceEntry[];
+
+  /**
+   * Whether the chain reached the API route handler
+   */
+  handlerCalled: boolean;
+};
+
+/**
+ * Run middleware with a mock request and response, resolving with the
+ * recorded response and a trace of the middleware that ran. Errors
+ * that reach the top of the chain are rethrown, unless the `onError`
+ * option is enabled.
+ */
+export async function runMiddleware(
+  chain:
+    | Middleware<any, any, any>
+    | MiddlewareGroup<any, any>
+    | Middleware<any, any, any>[],
+  handler: ApiHandler<any> = () => {},
+  reqInit: MockRequestInit = {},
+  options: Omit<MiddlewareOptions, "runtime"> = {}
+): Promise<RunMiddlewareResult> {
+  const req = createMockRequest(reqInit);
+  const res = createMockResponse();
+  const trace: MiddlewareTraceEntry[] = [];
+  const calledNext = new WeakSet<MiddlewareEvent>();
+  let handlerCalled = false;
+
+  const record = (event: MiddlewareEvent, phase: "setup" | "teardown") => {
+    trace.push({
+      name: event.name,
+      stackPosition: event.stackPosition,
+      phase,
+    });
+  };
+
+  const tracing: MiddlewareHooks = {
+    onEnter: (event) => record(event, "setup"),
+    onNext: (event) => {
+      calledNext.add(event);
+    },
+    onExit: (event) => {
+      if (calledNext.has(event)) {
+        record(event, "teardown");
+      }
+    },
+    onError: (event) => {
+      if (calledNext.has(event)) {
+        record(event, "teardown");
+      }
+    },
+  };
+
+  const middleware = [chain].flat() as Middleware<any, any, any>[];
+  const hooks = [tracing, ...[options.hooks ?? []].flat()];
+
+  await use(
+    { ...options, hooks },
+    ...middleware
+  )((req, res) => {
+    handlerCalled = true;
+    return handler(req, res);
+  })(req, res);
+
+  return {
+    // The chain has added `locals` and `signal`
+    req: req as RunMiddlewareResult["req"],
+    res,
+    trace,
+    handlerCalled,
+  };
+}
+
+/**
+ * The subset of Jest's matcher context used by `matchers`
+ */
+type MatcherContext = {
+  isNot: boolean;
+  equals(a: unknown, b: unknown): boolean;
+};
+
+type MatcherResult = { pass: boolean; message: () => string };
+
+type Received = MockResponse | RunMiddlewareResult;
+
+/**
+ * Jest matchers for mock responses (or `runMiddleware` results),
+ * registered with `expect.extend(matchers)`
+ */
+export const matchers = {
+  toHaveStatus(
+    this: MatcherContext,
+    received: Received,
+    statusCode: number
+  ): MatcherResult {
+    const res = responseOf(received);
+
+    return {
+      pass: res.statusCode === statusCode,
+      message: () =>
+        `expected status ${
+          this.isNot ? "not " : ""
+        }to be ${statusCode}, received ${res.statusCode}`,
+    };
+  },
+
+  toHaveHeader(
+    this: MatcherContext,
+    received: Received,
+    name: string,
+    value?: number | string | string[]
+  ): MatcherResult {
+    const actual = responseOf(received).getHeader(name);
+    const pass =
+      value === undefined
+        ? actual !== undefined
+        : this.equals(normalizeHeader(actual), normalizeHeader(value));
+
+    return {
+      pass,
+      message: () =>
+        `expected header "${name}" ${this.isNot ? "not " : ""}to be ${
+          value === undefined ? "set" : JSON.stringify(value)
+        }, received ${JSON.stringify(actual)}`,
+    };
+  },
+
+  toHaveJsonBody(
+    this: MatcherContext,
+    received: Received,
+    expected: unknown
+  ): MatcherResult {
+    const res = responseOf(received);
+    let actual: unknown;
+    try {
+      actual = res.jsonBody();
+    } catch {
+      return {
+        pass: false,
+        message: () => `expected a JSON body, received ${res.body}`,
+      };
+    }
+
+    return {
+      pass: this.equals(actual, expected),
+      message: () =>
+        `expected JSON body ${
+          this.isNot ? "not " : ""
+        }to equal ${JSON.stringify(expected)}, received ${JSON.stringify(
+          actual
+        )}`,
+    };
+  },
+
+  toHaveEnded(this: MatcherContext, received: Received): MatcherResult {
+    return {
+      pass: responseOf(received).writableEnded,
+      message: () =>
+        `expected the response ${this.isNot ? "not " : ""}to have ended`,
+    };
+  },
+
+  toHaveRunMiddleware(
+    this: MatcherContext,
+    received: RunMiddlewareResult,
+    name: string,
+    phase: "setup" | "teardown" = "setup"
+  ): MatcherResult {
+    const pass = received.trace.some(
+      (entry) => entry.name === name && entry.phase === phase
+    );
+
+    return {
+      pass,
+      message: () =>
+        `expected middleware "${name}" ${
+          this.isNot ? "not " : ""
+        }to have run ${phase}, trace: ${received.trace
+          .map((entry) => `${entry.name} (${entry.phase})`)
+          .join(", ")}`,
+    };
+  },
+};
+
+/**
+ * Types for `matchers`, once registered with `expect.extend`
+ */
+export interface MiddlewareMatchers<R = unknown> {
+  toHaveStatus(statusCode: number): R;
+  toHaveHeader(name: string, value?: number | string | string[]): R;
+  toHaveJsonBody(expected: unknown): R;
+  toHaveEnded(): R;
+  toHaveRunMiddleware(name: string, phase?: "setup" | "teardown"): R;
+}
+
+function responseOf(received: Received): MockResponse {
+  return received instanceof MockResponse ? received : received.res;
+}
+
+function normalizeHeader(value: unknown): unknown {
+  return typeof value === "number" ? String(value) : value;
+}
+
+function rawBody(body: unknown): Buffer[] {
+  if (body === undefined || body === null) {
+    return [];
+  }
+
+  if (Buffer.isBuffer(body)) {
+    return [body];
+  }
+
+  return [Buffer.from(typeof body === "string" ? body : JSON.stringify(body))];
+}
+
+function parseQuery(url: string): NextApiRequest["query"] {
+  const query: NextApiRequest["query"] = {};
+
+  for (const [name, value] of new URL(url, "http://localhost").searchParams) {
+    const existing = query[name];
+    query[name] = existing === undefined ? value : [existing, value].flat();
+  }
+
+  return query;
+}
+
+function parseCookies(header: string | undefined): NextApiRequest["cookies"] {
+  const cookies: NextApiRequest["cookies"] = {};
+
+  for (const pair of header?.split(";") ?? []) {
+    const index = pair.indexOf("=");
+    if (index > 0) {
+      cookies[pair.slice(0, index).trim()] = decodeURIComponent(
+        pair.slice(index + 1).trim()
+      );
+    }
+  }
+
+  return cookies;
+}
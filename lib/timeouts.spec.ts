@@ -0,0 +1,367 @@
+import { EventEmitter } from "events";
+import { NextApiRequest, NextApiResponse } from "next";
+import { TimeoutError } from "./errors";
+import { makeMiddlewareExecutor } from "./executor";
+import { WebHandler } from "./types";
+
+class MockResponse extends EventEmitter {
+  statusCode = 200;
+  writableEnded = false;
+  headers: Record<string, string> = {};
+  body?: string;
+
+  setHeader(name: string, value: string) {
+    this.headers[name.toLowerCase()] = value;
+  }
+
+  end(body?: string) {
+    this.body = body;
+    this.writableEnded = true;
+    this.emit("close");
+  }
+}
+
+const hang = () => new Promise<never>(() => {});
+
+function run(
+  middleware: any[],
+  handler: (req: any, res: any) => unknown,
+  options = {},
+  req = {} as NextApiRequest,
+  res = new MockResponse()
+) {
+  return makeMiddlewareExecutor(middleware, options)(handler)(
+    req,
+    res as unknown as NextApiResponse
+  );
+}
+
+describe("req.signal", () => {
+  it("is passed to every middleware and the API route handler", async () => {
+    const signals: AbortSignal[] = [];
+    const middleware = jest.fn(async (req, _res, next) => {
+      signals.push(req.signal);
+      await next();
+    });
+
+    await run([middleware, middleware], (req) => {
+      signals.push(req.signal);
+    });
+
+    expect(signals).toHaveLength(3);
+    expect(signals[0]).toBeInstanceOf(AbortSignal);
+    expect(new Set(signals).size).toBe(1);
+    expect(signals[0].aborted).toBe(false);
+  });
+
+  it("is removed from the request once the chain finishes", async () => {
+    const req = {} as NextApiRequest & { signal?: AbortSignal };
+
+    await run([], () => {}, {}, req);
+
+    expect(req.signal).toBeUndefined();
+  });
+
+  it("aborts when the client disconnects", async () => {
+    const res = new MockResponse();
+    let signal: AbortSignal | undefined;
+
+    const handler = (req: any) =>
+      new Promise<void>((resolve) => {
+        signal = req.signal;
+        req.signal.addEventListener("abort", () => resolve());
+        res.emit("close");
+      });
+
+    await run([], handler, {}, {} as NextApiRequest, res);
+
+    expect(signal?.aborted).toBe(true);
+  });
+
+  it("does not abort when the response closes after it was sent", async () => {
+    let signal: AbortSignal | undefined;
+
+    await run([], (req, res) => {
+      signal = req.signal;
+      res.end();
+    });
+
+    expect(signal?.aborted).toBe(false);
+  });
+
+  it("aborts with the signal of an outer chain", async () => {
+    const req = {} as NextApiRequest & { signal?: AbortSignal };
+    let outer: AbortSignal | undefined;
+    let inner: AbortSignal | undefined;
+
+    const innerChain = makeMiddlewareExecutor([])(async (req: any) => {
+      inner = req.signal;
+    });
+
+    await run(
+      [
+        async (req: any, res: any, next: () => Promise<void>) => {
+          outer = req.signal;
+          await innerChain(req, res);
+          expect(req.signal).toBe(outer);
+          await next();
+        },
+      ],
+      (req) => {
+        expect(req.signal).toBe(outer);
+      },
+      {},
+      req
+    );
+
+    expect(inner).toBeInstanceOf(AbortSignal);
+    expect(inner).not.toBe(outer);
+  });
+});
+
+describe("timeout", () => {
+  it("fails the chain with a TimeoutError", async () => {
+    let signal: AbortSignal | undefined;
+
+    const result = run(
+      [],
+      (req) => {
+        signal = req.signal;
+        return hang();
+      },
+      { timeout: 10 }
+    );
+
+    await expect(result).rejects.toThrow(TimeoutError);
+    await expect(result).rejects.toThrow(
+      "Middleware chain timed out after 10ms"
+    );
+    expect(signal?.aborted).toBe(true);
+    expect(signal?.reason).toBeInstanceOf(TimeoutError);
+  });
+
+  it("includes the time spent in middleware", async () => {
+    const handler = jest.fn();
+
+    await expect(
+      run([async () => hang()], handler, { timeout: 10 })
+    ).rejects.toThrow(TimeoutError);
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it("responds with a 503 problem when onError is enabled", async () => {
+    const res = new MockResponse();
+
+    await run([], hang, { timeout: 10, onError: true }, undefined, res);
+
+    expect(res.statusCode).toBe(503);
+    expect(JSON.parse(res.body as string)).toMatchObject({
+      status: 503,
+      code: "timeout",
+    });
+  });
+
+  it("does not affect chains that finish in time", async () => {
+    const handler = jest.fn();
+
+    await run([], handler, { timeout: 1000 });
+
+    expect(handler).toHaveBeenCalled();
+  });
+});
+
+describe("middlewareTimeout", () => {
+  it("fails when middleware takes too long to call next", async () => {
+    const handler = jest.fn();
+
+    const result = run(
+      [
+        async function stuck(_req: any, _res: any, next: any) {
+          await hang();
+          await next();
+        },
+      ],
+      handler,
+      { middlewareTimeout: 10 }
+    );
+
+    await expect(result).rejects.toThrow(TimeoutError);
+    await expect(result).rejects.toThrow(
+      'Middleware "stuck" at position 1 timed out after 10ms during setup'
+    );
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it("fails when middleware takes too long after the rest of the chain", async () => {
+    let signal: AbortSignal | undefined;
+
+    const result = run(
+      [
+        async function stuck(req: any, _res: any, next: any) {
+          signal = req.signal;
+          await next();
+          await hang();
+        },
+      ],
+      () => {},
+      { middlewareTimeout: 10 }
+    );
+
+    await expect(result).rejects.toThrow(
+      'Middleware "stuck" at position 1 timed out after 10ms during teardown'
+    );
+    expect(signal?.aborted).toBe(true);
+  });
+
+  it("does not count time spent further down the chain", async () => {
+    const handler = jest.fn(
+      () => new Promise<void>((resolve) => setTimeout(resolve, 30))
+    );
+
+    await run(
+      [
+        async (_req: any, _res: any, next: any) => {
+          await next();
+        },
+      ],
+      handler,
+      { middlewareTimeout: 10 }
+    );
+
+    expect(handler).toHaveBeenCalled();
+  });
+
+  it("rejects next when called after the timeout", async () => {
+    const warn = jest.spyOn(console, "warn").mockImplementation(() => {});
+    const late = jest.fn();
+    let nextResult: Promise<void> | undefined;
+    let resume = () => {};
+
+    await expect(
+      run(
+        [
+          async (_req: any, _res: any, next: any) => {
+            await new Promise<void>((resolve) => (resume = resolve));
+            nextResult = next();
+          },
+        ],
+        late,
+        { middlewareTimeout: 10 }
+      )
+    ).rejects.toThrow(TimeoutError);
+
+    resume();
+    await new Promise((resolve) => setImmediate(resolve));
+
+    await expect(nextResult).rejects.toThrow(TimeoutError);
+    expect(late).not.toHaveBeenCalled();
+    expect(warn).not.toHaveBeenCalled();
+    warn.mockRestore();
+  });
+});
+
+const describeWithFetch =
+  typeof Request === "undefined" ? describe.skip : describe;
+
+describeWithFetch("App Router route handlers", () => {
+  function runWeb(
+    middleware: any[],
+    handler: WebHandler,
+    options = {},
+    request = new Request("https://example.com/")
+  ) {
+    return makeMiddlewareExecutor(middleware, options)(handler)(request, {});
+  }
+
+  it("replaces the signal of the request", async () => {
+    const request = new Request("https://example.com/");
+    const original = request.signal;
+    let signal: AbortSignal | undefined;
+
+    await runWeb(
+      [],
+      (request) => {
+        signal = request.signal;
+        return new Response("ok");
+      },
+      {},
+      request
+    );
+
+    expect(signal).toBeInstanceOf(AbortSignal);
+    expect(signal).not.toBe(original);
+    expect(request.signal).toBe(original);
+  });
+
+  it("fails the chain with a TimeoutError", async () => {
+    let signal: AbortSignal | undefined;
+
+    const result = runWeb(
+      [],
+      (request) => {
+        signal = request.signal;
+        return hang();
+      },
+      { timeout: 10 }
+    );
+
+    await expect(result).rejects.toThrow(TimeoutError);
+    expect(signal?.aborted).toBe(true);
+  });
+
+  it("responds with a 503 problem when onError is enabled", async () => {
+    const response = await runWeb([], hang, { timeout: 10, onError: true });
+
+    expect(response.status).toBe(503);
+    expect(await response.json()).toMatchObject({ code: "timeout" });
+  });
+
+  it("fails when middleware takes too long to call next", async () => {
+    const handler = jest.fn();
+
+    await expect(
+      runWeb(
+        [
+          async function stuck() {
+            return hang();
+          },
+        ],
+        handler,
+        { middlewareTimeout: 10 }
+      )
+    ).rejects.toThrow(
+      'Middleware "stuck" at position 1 timed out after 10ms during setup'
+    );
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it("fails when middleware takes too long after the rest of the chain", async () => {
+    await expect(
+      runWeb(
+        [
+          async function stuck(_request: any, _context: any, next: any) {
+            await next();
+            return hang();
+          },
+        ],
+        () => new Response("ok"),
+        { middlewareTimeout: 10 }
+      )
+    ).rejects.toThrow(
+      'Middleware "stuck" at position 1 timed out after 10ms during teardown'
+    );
+  });
+
+  it("does not count time spent further down the chain", async () => {
+    const response = await runWeb(
+      [async (_request: any, _context: any, next: any) => next()],
+      () =>
+        new Promise<Response>((resolve) =>
+          setTimeout(() => resolve(new Response("ok")), 30)
+        ),
+      { middlewareTimeout: 10 }
+    );
+
+    expect(await response.text()).toBe("ok");
+  });
+});
@@ -0,0 +1,144 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { TimeoutError } from "./errors";
+
+/**
+ * The abort signal of one run of a middleware chain
+ */
+export type Cancellation = {
+  /**
+   * The signal exposed to middleware as `req.signal`
+   * (missing where `AbortController` is not supported)
+   */
+  signal?: AbortSignal;
+
+  /**
+   * Abort the signal, unless it was already aborted
+   */
+  abort(reason?: unknown): void;
+
+  /**
+   * Stop listening for disconnects and restore the previous `req.signal`
+   */
+  release(): void;
+};
+
+/**
+ * Give the request a `signal` that aborts when the client disconnects,
+ * when a timeout is reached, or when the signal of an outer chain (or
+ * of the Fetch `Request` itself) aborts
+ */
+export function attachSignal(
+  req: NextApiRequest | Request,
+  res?: NextApiResponse
+): Cancellation {
+  if (typeof AbortController === "undefined") {
+    return { abort() {}, release() {} };
+  }
+
+  const target = req as (NextApiRequest | Request) & { signal?: AbortSignal };
+  const parent = target.signal;
+  const previous = Object.getOwnPropertyDescriptor(target, "signal");
+  const controller = new AbortController();
+  const cleanups: (() => void)[] = [];
+
+  const abort = (reason?: unknown) => {
+    if (!controller.signal.aborted) {
+      controller.abort(reason);
+    }
+  };
+
+  if (parent?.aborted) {
+    abort(parent.reason);
+  } else if (parent) {
+    const onAbort = () => abort(parent.reason);
+    parent.addEventListener("abort", onAbort);
+    cleanups.push(() => parent.removeEventListener("abort", onAbort));
+  }
+
+  if (typeof res?.once === "function") {
+    // The response closing before it was ended means the client went away
+    const onClose = () => {
+      if (!res.writableEnded) {
+        abort();
+      }
+    };
+    res.once("close", onClose);
+    cleanups.push(() => res.off("close", onClose));
+  }
+
+  // A Fetch `Request` only has a getter, so define an own property
+  Object.defineProperty(target, "signal", {
+    value: controller.signal,
+    configurable: true,
+    enumerable: true,
+    writable: true,
+  });
+
+  return {
+    signal: controller.signal,
+    abort,
+    release() {
+      cleanups.forEach((cleanup) => cleanup());
+
+      if (previous) {
+        Object.defineProperty(target, "signal", previous);
+      } else {
+        delete target.signal;
+      }
+    },
+  };
+}
+
+/**
+ * Reject with a `TimeoutError` (and abort the signal) if the
+ * chain has not settled within `timeout` milliseconds
+ */
+export function withDeadline<Result>(
+  chain: Promise<Result>,
+  timeout: number | undefined,
+  cancellation: Cancellation
+): Promise<Result> {
+  if (!timeout) {
+    return chain;
+  }
+
+  // The chain keeps running after the deadline; ignore how it ends
+  chain.catch(() => {});
+
+  return new Promise((resolve, reject) => {
+    const stop = startTimer(timeout, () => {
+      const error = new TimeoutError(
+        `Middleware chain timed out after ${timeout}ms`
+      );
+      cancellation.abort(error);
+      reject(error);
+    });
+
+    chain.then(
+      (result) => {
+        stop();
+        resolve(result);
+      },
+      (err) => {
+        stop();
+        reject(err);
+      }
+    );
+  });
+}
+
+/**
+ * Call back after `timeout` milliseconds (if set),
+ * returning a function that stops the timer
+ */
+export function startTimer(
+  timeout: number | undefined,
+  onTimeout: () => void
+): () => void {
+  if (!timeout) {
+    return () => {};
+  }
+
+  const timer = setTimeout(onTimeout, timeout);
+  return () => clearTimeout(timer);
+}
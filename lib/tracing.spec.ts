@@ -0,0 +1,404 @@
+import { NextApiRequest, NextApiResponse } from "next";
+import { label } from "./label";
+import { serverTiming, SpanTracer, traceSpans } from "./tracing";
+import { MiddlewareHooks } from "./types";
+import { use } from "./use";
+
+// The Fetch API is only available globally in Node.js 18+
+const describeWithFetch =
+  typeof Request === "undefined" ? describe.skip : describe;
+
+// Advance a fake clock from inside middleware to get exact durations
+let clock = 0;
+const tick = (ms: number) => {
+  clock += ms;
+};
+
+beforeEach(() => {
+  clock = 0;
+  jest.spyOn(performance, "now").mockImplementation(() => clock);
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+function recordingHooks() {
+  const calls: string[] = [];
+  const hooks: MiddlewareHooks = {
+    onEnter: (event) => calls.push(`enter ${event.name}`),
+    onNext: (event) => calls.push(`next ${event.name}`),
+    onExit: (event) => calls.push(`exit ${event.name}`),
+    onError: (event) => calls.push(`error ${event.name}`),
+  };
+  return { calls, hooks };
+}
+
+function mockResponse() {
+  const headers: Record<string, string> = {};
+  return {
+    headersSent: false,
+    getHeader: (name: string) => headers[name],
+    setHeader: jest.fn((name: string, value: string) => {
+      headers[name] = value;
+    }),
+    headers,
+  };
+}
+
+describe("hooks", () => {
+  it("are called for every middleware", async () => {
+    const { calls, hooks } = recordingHooks();
+
+    async function outer(
+      req: unknown,
+      res: unknown,
+      next: () => Promise<void>
+    ) {
+      await next();
+    }
+
+    function inner(req: unknown, res: unknown, next: () => Promise<void>) {
+      next();
+    }
+
+    await use(
+      { hooks },
+      outer,
+      inner
+    )(() => {
+      calls.push("handler");
+    })({} as NextApiRequest, {} as NextApiResponse);
+
+    expect(calls).toEqual([
+      "enter outer",
+      "next outer",
+      "enter inner",
+      "next inner",
+      "handler",
+      "exit inner",
+      "exit outer",
+    ]);
+  });
+
+  it("receive labels and stack positions", async () => {
+    const events: any[] = [];
+    const first = async (
+      req: unknown,
+      res: unknown,
+      next: () => Promise<void>
+    ) => next();
+    const second = async (
+      req: unknown,
+      res: unknown,
+      next: () => Promise<void>
+    ) => next();
+    const inline = async (
+      req: unknown,
+      res: unknown,
+      next: () => Promise<void>
+    ) => next();
+
+    const withMiddleware = label({ one: first, group: [first, second] }, [], {
+      hooks: { onEnter: (event) => events.push({ ...event }) },
+    });
+
+    await withMiddleware("group", "one", inline)(jest.fn())(
+      {} as NextApiRequest,
+      {} as NextApiResponse
+    );
+
+    expect(
+      events.map(({ name, label, stackPosition }) => ({
+        name,
+        label,
+        stackPosition,
+      }))
+    ).toEqual([
+      { name: "first", label: "group", stackPosition: 1 },
+      { name: "second", label: "group", stackPosition: 2 },
+      { name: "first", label: "one", stackPosition: 3 },
+      { name: "inline", label: undefined, stackPosition: 4 },
+    ]);
+  });
+
+  it("report setup and teardown durations", async () => {
+    const exits: any[] = [];
+
+    async function outer(
+      req: unknown,
+      res: unknown,
+      next: () => Promise<void>
+    ) {
+      tick(5);
+      await next();
+      tick(7);
+    }
+
+    async function inner(
+      req: unknown,
+      res: unknown,
+      next: () => Promise<void>
+    ) {
+      tick(2);
+      await next();
+      tick(1);
+    }
+
+    await use(
+      { hooks: { onExit: (event) => exits.push(event) } },
+      outer,
+      inner
+    )(() => tick(10))({} as NextApiRequest, {} as NextApiResponse);
+
+    expect(exits).toMatchObject([
+      { name: "inner", setupDuration: 2, teardownDuration: 1, duration: 13 },
+      { name: "outer", setupDuration: 5, teardownDuration: 7, duration: 25 },
+    ]);
+  });
+
+  it("pass the same event object to every hook for a call", async () => {
+    const seen = new Set();
+    const record = (event: unknown) => seen.add(event);
+
+    await use(
+      { hooks: { onEnter: record, onNext: record, onExit: record } },
+      async (req, res, next) => next()
+    )(jest.fn())({} as NextApiRequest, {} as NextApiResponse);
+
+    expect(seen.size).toBe(1);
+  });
+
+  it("report errors to each middleware they pass through", async () => {
+    const { calls, hooks } = recordingHooks();
+    const error = new Error("Handler failed");
+
+    async function handlesErrors(
+      req: unknown,
+      res: unknown,
+      next: () => Promise<void>
+    ) {
+      try {
+        await next();
+      } catch {
+        // Handled
+      }
+    }
+
+    async function passesErrors(
+      req: unknown,
+      res: unknown,
+      next: () => Promise<void>
+    ) {
+      await next();
+    }
+
+    await use(
+      { hooks: [hooks] },
+      handlesErrors,
+      passesErrors
+    )(() => {
+      throw error;
+    })({} as NextApiRequest, {} as NextApiResponse);
+
+    expect(calls).toEqual([
+      "enter handlesErrors",
+      "next handlesErrors",
+      "enter passesErrors",
+      "next passesErrors",
+      "error passesErrors",
+      "exit handlesErrors",
+    ]);
+  });
+
+  it("keep failing hooks from failing the request", async () => {
+    const warn = jest.spyOn(console, "warn").mockImplementation(() => {});
+    const { calls, hooks } = recordingHooks();
+    const handler = jest.fn();
+
+    async function auth(req: unknown, res: unknown, next: () => Promise<void>) {
+      await next();
+    }
+
+    await use(
+      {
+        hooks: [
+          {
+            onEnter() {
+              throw new Error("Exporter unavailable");
+            },
+          },
+          hooks,
+        ],
+      },
+      auth
+    )(handler)({} as NextApiRequest, {} as NextApiResponse);
+
+    expect(handler).toHaveBeenCalled();
+    expect(calls).toEqual(["enter auth", "next auth", "exit auth"]);
+    expect(warn).toHaveBeenCalledWith(
+      '[next-api-middleware] The onEnter hook failed for middleware "auth": Exporter unavailable'
+    );
+  });
+});
+
+describe("serverTiming", () => {
+  it("adds setup durations before the response is sent", async () => {
+    const res = mockResponse();
+
+    async function auth(req: unknown, res: unknown, next: () => Promise<void>) {
+      tick(1.25);
+      await next();
+    }
+
+    await use({ hooks: serverTiming() }, auth, async (req, res, next) =>
+      next()
+    )((req, res) => {
+      expect(res.getHeader("Server-Timing")).toBe(
+        '1-auth;desc="setup";dur=1.3, 2-anonymous;desc="setup";dur=0.0'
+      );
+      Object.assign(res, { headersSent: true });
+    })({} as NextApiRequest, res as unknown as NextApiResponse);
+
+    expect(res.setHeader).toHaveBeenCalledTimes(2);
+  });
+
+  it("adds teardown durations while headers can be changed", async () => {
+    const res = mockResponse();
+
+    await use({ hooks: serverTiming() }, async (req, res, next) => {
+      await next();
+      tick(3);
+    })(jest.fn())({} as NextApiRequest, res as unknown as NextApiResponse);
+
+    expect(res.headers["Server-Timing"]).toBe(
+      '1-anonymous;desc="setup";dur=0.0, 1-anonymous;desc="teardown";dur=3.0'
+    );
+  });
+});
+
+describe("traceSpans", () => {
+  function mockTracer() {
+    const spans: any[] = [];
+    const tracer: SpanTracer = {
+      startSpan: (name, options) => {
+        const span = {
+          name,
+          attributes: { ...options?.attributes },
+          status: undefined as unknown,
+          exception: undefined as unknown,
+          ended: false,
+          setAttribute(key: string, value: string | number) {
+            span.attributes[key] = value;
+          },
+          recordException(exception: unknown) {
+            span.exception = exception;
+          },
+          setStatus(status: unknown) {
+            span.status = status;
+          },
+          end() {
+            span.ended = true;
+          },
+        };
+        spans.push(span);
+        return span;
+      },
+    };
+    return { spans, tracer };
+  }
+
+  it("records a span for each middleware call", async () => {
+    const { spans, tracer } = mockTracer();
+
+    async function loadUser(
+      req: unknown,
+      res: unknown,
+      next: () => Promise<void>
+    ) {
+      tick(4);
+      await next();
+    }
+
+    await label({ user: loadUser }, [], { hooks: traceSpans(tracer) })("user")(
+      jest.fn()
+    )({} as NextApiRequest, {} as NextApiResponse);
+
+    expect(spans).toEqual([
+      expect.objectContaining({
+        name: "middleware - user",
+        attributes: {
+          "middleware.name": "loadUser",
+          "middleware.label": "user",
+          "middleware.stack_position": 1,
+          "middleware.setup_duration_ms": 4,
+          "middleware.teardown_duration_ms": 0,
+        },
+        ended: true,
+      }),
+    ]);
+  });
+
+  it("records errors", async () => {
+    const { spans, tracer } = mockTracer();
+    const error = new Error("Handler failed");
+
+    await expect(
+      use({ hooks: traceSpans(tracer) }, async (req, res, next) => next())(
+        () => {
+          throw error;
+        }
+      )({} as NextApiRequest, {} as NextApiResponse)
+    ).rejects.toBe(error);
+
+    expect(spans[0]).toMatchObject({
+      exception: error,
+      status: { code: 2, message: "Handler failed" },
+      ended: true,
+    });
+  });
+});
+
+describeWithFetch("with App Router route handlers", () => {
+  it("calls hooks and reports durations", async () => {
+    const { calls, hooks } = recordingHooks();
+
+    async function addHeader(request: any, context: any, next: any) {
+      tick(2);
+      const response = await next();
+      tick(1);
+      response.headers.set("X-Added", "1");
+    }
+
+    const response = await use(
+      { hooks: [hooks, serverTiming()] },
+      addHeader
+    )(async () => new Response("OK"))(new Request("https://example.com"), {});
+
+    expect(calls).toEqual([
+      "enter addHeader",
+      "next addHeader",
+      "exit addHeader",
+    ]);
+    expect(response.headers.get("Server-Timing")).toBe(
+      '1-addHeader;desc="setup";dur=2.0, 1-addHeader;desc="teardown";dur=1.0'
+    );
+  });
+
+  it("reports errors", async () => {
+    const { calls, hooks } = recordingHooks();
+
+    async function failing(request: any, context: any, next: any) {
+      throw new Error("Failed");
+    }
+
+    await expect(
+      use({ hooks }, failing)(async () => new Response("OK"))(
+        new Request("https://example.com"),
+        {}
+      )
+    ).rejects.toThrow("Failed");
+
+    expect(calls).toEqual(["enter failing", "error failing"]);
+  });
+});
@@ -0,0 +1,150 @@
+import {
+  MiddlewareEvent,
+  MiddlewareExitEvent,
+  MiddlewareHooks,
+  MiddlewareSetupEvent,
+} from "./types";
+
+/**
+ * Create hooks that report middleware durations with a `Server-Timing`
+ * header. Setup durations are added as each middleware calls `next`;
+ * teardown durations are added when the header can still be changed,
+ * which for API routes is usually not the case once the handler has
+ * sent the response.
+ */
+export function serverTiming(): MiddlewareHooks {
+  return {
+    onNext(event) {
+      if (event.res) {
+        appendServerTiming(event, "setup", event.setupDuration);
+      }
+    },
+    onExit(event) {
+      if (!event.res) {
+        appendServerTiming(event, "setup", event.setupDuration);
+      }
+
+      appendServerTiming(event, "teardown", event.teardownDuration);
+    },
+  };
+}
+
+/**
+ * The parts of an OpenTelemetry `Tracer` used by `traceSpans`
+ */
+export type SpanTracer = {
+  startSpan(
+    name: string,
+    options?: { attributes?: Record<string, string | number> }
+  ): TracedSpan;
+};
+
+/**
+ * The parts of an OpenTelemetry `Span` used by `traceSpans`
+ */
+export type TracedSpan = {
+  setAttribute(key: string, value: string | number): unknown;
+  recordException(exception: Error | string): unknown;
+  setStatus(status: { code: number; message?: string }): unknown;
+  end(): unknown;
+};
+
+// Matches `SpanStatusCode.ERROR` in `@opentelemetry/api`
+const spanStatusError = 2;
+
+/**
+ * Create hooks that record a span for every middleware call,
+ * e.g. with an OpenTelemetry tracer
+ */
+export function traceSpans(tracer: SpanTracer): MiddlewareHooks {
+  const spans = new WeakMap<MiddlewareEvent, TracedSpan>();
+
+  function end(event: MiddlewareExitEvent) {
+    const span = spans.get(event);
+    if (!span) {
+      return;
+    }
+
+    span.setAttribute("middleware.setup_duration_ms", event.setupDuration);
+    span.setAttribute(
+      "middleware.teardown_duration_ms",
+      event.teardownDuration
+    );
+    span.end();
+    spans.delete(event);
+  }
+
+  return {
+    onEnter(event) {
+      const attributes: Record<string, string | number> = {
+        "middleware.name": event.name,
+        "middleware.stack_position": event.stackPosition,
+      };
+
+      if (event.label) {
+        attributes["middleware.label"] = event.label;
+      }
+
+      spans.set(
+        event,
+        tracer.startSpan(`middleware - ${event.label || event.name}`, {
+          attributes,
+        })
+      );
+    },
+    onExit: end,
+    onError(event) {
+      const span = spans.get(event);
+      const { error } = event;
+
+      span?.recordException(error instanceof Error ? error : String(error));
+      span?.setStatus({
+        code: spanStatusError,
+        message: error instanceof Error ? error.message : undefined,
+      });
+      end(event);
+    },
+  };
+}
+
+function appendServerTiming(
+  event: MiddlewareExitEvent | MiddlewareSetupEvent,
+  phase: "setup" | "teardown",
+  duration: number
+) {
+  const metric = `${metricName(event)};desc="${phase}";dur=${duration.toFixed(
+    1
+  )}`;
+
+  if (event.res) {
+    if (event.res.headersSent) {
+      return;
+    }
+
+    const existing = event.res.getHeader("Server-Timing");
+    event.res.setHeader(
+      "Server-Timing",
+      existing ? `${existing}, ${metric}` : metric
+    );
+    return;
+  }
+
+  try {
+    (event as MiddlewareExitEvent).response?.headers.append(
+      "Server-Timing",
+      metric
+    );
+  } catch {
+    // The headers of some responses (e.g. from `fetch`) cannot be changed
+  }
+}
+
+/**
+ * A Server-Timing metric name (an HTTP token) for a middleware call
+ */
+function metricName(event: MiddlewareEvent): string {
+  return `${event.stackPosition}-${event.label || event.name}`.replace(
+    /[^\w!#$%&'*+.^`|~-]/g,
+    "_"
+  );
+}
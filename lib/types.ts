@@ -1,16 +1,344 @@
-import type { NextApiRequest, NextApiResponse } from "next";
+import type { NextApiHandler, NextApiRequest, NextApiResponse } from "next";
 
-export type Middleware<Request = NextApiRequest, Response = NextApiResponse> = (
-  req: Request,
+declare const addedLocals: unique symbol;
+
+/**
+ * A request carrying the `locals` object that middleware
+ * use to pass values further down the chain, and a `signal`
+ * that aborts on timeouts or when the client disconnects
+ */
+export type RequestWithLocals<Request, Locals> = Request & {
+  locals: Locals;
+  signal: AbortSignal;
+};
+
+export type Middleware<
+  Request = NextApiRequest,
+  Response = NextApiResponse,
+  Added extends object = {}
+> = ((
+  req: RequestWithLocals<Request, Partial<Added>>,
   res: Response,
   next: () => Promise<void>
-) => Promise<void>;
+) => Promise<void> | void) & {
+  /**
+   * Type-only marker describing what this middleware adds
+   * to `req.locals`; never present at runtime
+   */
+  readonly [addedLocals]?: Added;
+};
+
+/**
+ * An array of middleware functions, executed in order
+ *
+ * (The empty tuple keeps inferred groups as tuples so that
+ * what each member adds to `req.locals` is not lost.)
+ */
+export type MiddlewareGroup<
+  Request = NextApiRequest,
+  Response = NextApiResponse
+> = [] | Array<Middleware<Request, Response, any>>;
+
+/**
+ * Middleware for App Router route handlers, which receive a Fetch
+ * `Request` (plus the route context) and return a `Response`.
+ *
+ * Calling `next` resolves with the response produced by the rest of
+ * the chain. Returning a `Response` replaces it (or short-circuits the
+ * chain when `next` was never called); returning nothing passes the
+ * downstream response through unchanged.
+ */
+export type WebMiddleware<Context = any, Added extends object = {}> = ((
+  request: RequestWithLocals<Request, Partial<Added>>,
+  context: Context,
+  next: () => Promise<Response>
+) => Promise<Response | void>) & {
+  readonly [addedLocals]?: Added;
+};
+
+/**
+ * An array of web middleware functions, executed in order
+ */
+export type WebMiddlewareGroup<Context = any> =
+  | []
+  | Array<WebMiddleware<Context, any>>;
+
+/**
+ * Either kind of middleware function, as accepted by `use` and `label`
+ */
+export type AnyMiddleware = Middleware<any, any, any> | WebMiddleware<any, any>;
 
 export type LabeledMiddleware<
   Request = NextApiRequest,
   Response = NextApiResponse
 > = {
   [name: string]:
-    | Middleware<Request, Response>
-    | Array<Middleware<Request, Response>>;
+    | Middleware<Request, Response, any>
+    | MiddlewareGroup<Request, Response>;
+};
+
+export type LabeledWebMiddleware<Context = any> = {
+  [name: string]: WebMiddleware<Context, any> | WebMiddlewareGroup<Context>;
+};
+
+/**
+ * Labeled middleware of either kind, as accepted by `label`
+ */
+export type AnyLabeledMiddleware = {
+  [name: string]: AnyMiddleware | AnyMiddleware[];
 };
+
+/**
+ * The runtime that wrapped route handlers are deployed to
+ */
+export type MiddlewareRuntime = "nodejs" | "edge";
+
+/**
+ * What to do with middleware included more than once in a chain
+ */
+export type DuplicatePolicy = "allow" | "keep-first" | "keep-last" | "throw";
+
+/**
+ * Options accepted by `use` and `label`
+ */
+export type MiddlewareOptions = {
+  /**
+   * With `"edge"`, middleware marked with `nodeOnly` is rejected
+   * when the chain is composed and only App Router route handlers
+   * can be wrapped (defaults to `"nodejs"`)
+   */
+  runtime?: MiddlewareRuntime;
+
+  /**
+   * Respond to errors thrown by middleware or the route handler
+   * with `application/problem+json` instead of rethrowing them.
+   * A function is called with each error before responding, e.g.
+   * to report it.
+   */
+  onError?: boolean | ErrorReporter;
+
+  /**
+   * Instrumentation hooks called for every middleware in the chain,
+   * e.g. `serverTiming()` or `traceSpans(tracer)`
+   */
+  hooks?: MiddlewareHooks | MiddlewareHooks[];
+
+  /**
+   * Accept middleware that does not declare exactly three parameters,
+   * e.g. because it uses default or rest parameters
+   */
+  allowAnyArity?: boolean;
+
+  /**
+   * What to do with middleware included more than once, compared by
+   * identity or by the key given with `keyed` (defaults to `"allow"`).
+   * `"keep-first"` and `"keep-last"` remove the other copies and warn
+   * outside of production.
+   */
+  duplicates?: DuplicatePolicy;
+
+  /**
+   * Fail the chain when middleware calls `next` more than once or
+   * after it finished, instead of only rejecting those calls
+   * (useful in tests)
+   */
+  strict?: boolean;
+
+  /**
+   * Milliseconds the whole chain (including the route handler) may
+   * take before it fails with a `TimeoutError` and `req.signal` aborts
+   */
+  timeout?: number;
+
+  /**
+   * Milliseconds each middleware may spend before calling `next`,
+   * and again after the rest of the chain has finished, before the
+   * chain fails with a `TimeoutError` and `req.signal` aborts
+   */
+  middlewareTimeout?: number;
+};
+
+/**
+ * Receives errors handled by the `onError` option
+ */
+export type ErrorReporter = (
+  error: unknown,
+  req: NextApiRequest | Request
+) => void | Promise<void>;
+
+/**
+ * Describes one call of a middleware function. The same object is
+ * passed to every hook for that call, so it can be used as a key.
+ */
+export type MiddlewareEvent = {
+  /**
+   * The function name of the middleware (or `"anonymous"`)
+   */
+  name: string;
+
+  /**
+   * The label the middleware was chosen with, when using `label`
+   */
+  label?: string;
+
+  /**
+   * The position of the middleware in the chain, starting at `1`
+   */
+  stackPosition: number;
+
+  req: NextApiRequest | Request;
+
+  /**
+   * The Node.js response (Pages Router only)
+   */
+  res?: NextApiResponse;
+};
+
+export type MiddlewareSetupEvent = MiddlewareEvent & {
+  /**
+   * Milliseconds from calling the middleware until it called `next`
+   */
+  setupDuration: number;
+};
+
+export type MiddlewareExitEvent = MiddlewareSetupEvent & {
+  /**
+   * Milliseconds from the rest of the chain finishing until the
+   * middleware finished (`0` if it never called `next`)
+   */
+  teardownDuration: number;
+
+  /**
+   * Milliseconds from calling the middleware until it finished
+   */
+  duration: number;
+
+  /**
+   * The response produced by this part of the chain (App Router only)
+   */
+  response?: Response;
+};
+
+export type MiddlewareErrorEvent = MiddlewareExitEvent & {
+  error: unknown;
+};
+
+/**
+ * Instrumentation hooks, called for every middleware in the chain
+ */
+export type MiddlewareHooks = {
+  /**
+   * Called before the middleware is executed
+   */
+  onEnter?: (event: MiddlewareEvent) => void;
+
+  /**
+   * Called when the middleware calls `next`
+   */
+  onNext?: (event: MiddlewareSetupEvent) => void;
+
+  /**
+   * Called when the middleware finishes
+   */
+  onExit?: (event: MiddlewareExitEvent) => void;
+
+  /**
+   * Called when the middleware fails, including errors thrown
+   * further down the chain that it did not handle
+   */
+  onError?: (event: MiddlewareErrorEvent) => void;
+};
+
+/**
+ * Options for chains that are deployed to the Edge runtime
+ */
+export type EdgeMiddlewareOptions = MiddlewareOptions & { runtime: "edge" };
+
+/**
+ * A Next.js API route handler that receives everything
+ * added to `req.locals` by the middleware before it
+ */
+export type ApiHandler<Locals = {}> = (
+  req: RequestWithLocals<NextApiRequest, Locals>,
+  res: NextApiResponse
+) => unknown | Promise<unknown>;
+
+/**
+ * An App Router route handler that receives everything added
+ * to `request.locals` by the middleware before it
+ */
+export type WebHandler<Locals = {}, Context = any> = (
+  request: RequestWithLocals<Request, Locals>,
+  context: Context
+) => Response | Promise<Response>;
+
+/**
+ * The function exported from an App Router `route.ts` file
+ */
+export type RouteHandler<Context = any> = (
+  request: Request,
+  context: Context
+) => Promise<Response>;
+
+/**
+ * Wraps a Pages Router API route with middleware
+ */
+export type ApiRouteWrapper<Locals = {}> = (
+  apiRouteFn: ApiHandler<Locals>
+) => NextApiHandler;
+
+/**
+ * Wraps an App Router route handler with middleware
+ */
+export type RouteHandlerWrapper<Locals = {}> = <Context = any>(
+  routeFn: WebHandler<Locals, Context>
+) => RouteHandler<Context>;
+
+/**
+ * The wrapper returned by `use` and `label`, chosen by the kind
+ * of middleware in the chain (`M` is a union of middleware types)
+ */
+export type MiddlewareWrapper<M, Locals = {}> = [M] extends [never]
+  ? ApiRouteWrapper<Locals> & RouteHandlerWrapper<Locals>
+  : [M] extends [WebMiddleware<any, any>]
+  ? RouteHandlerWrapper<Locals>
+  : [M] extends [Middleware<any, any, any>]
+  ? ApiRouteWrapper<Locals>
+  : ApiRouteWrapper<Locals> & RouteHandlerWrapper<Locals>;
+
+/**
+ * The middleware functions in a union of functions and groups
+ */
+export type Flatten<M> = M extends ReadonlyArray<infer Item> ? Item : M;
+
+/**
+ * What a single middleware function (or group) adds to `req.locals`
+ */
+export type LocalsOf<M> = M extends ReadonlyArray<infer Item>
+  ? LocalsOf<Item>
+  : M extends { readonly [addedLocals]?: infer Added }
+  ? unknown extends Added
+    ? {}
+    : Added
+  : {};
+
+type UnionToIntersection<U> = (
+  U extends unknown ? (arg: U) => void : never
+) extends (arg: infer I) => void
+  ? I
+  : never;
+
+/**
+ * Combine a union of `locals` additions into one intersection
+ */
+export type MergeLocals<Added> = [Added] extends [never]
+  ? {}
+  : UnionToIntersection<Added>;
+
+/**
+ * The intersection of everything a list of middleware
+ * functions (and groups) adds to `req.locals`
+ */
+export type AccumulatedLocals<M extends readonly unknown[]> = MergeLocals<
+  LocalsOf<M[number]>
+>;
@@ -1,7 +1,124 @@
+import { NextApiRequest, NextApiResponse } from "next";
+import { ApiHandler, Middleware, WebMiddleware } from "./types";
 import { use } from "./use";
 
 describe("use", () => {
   it("throws an error for invalid middleware", () => {
+    // @ts-expect-error
     expect(() => use(() => null)).toThrowError();
   });
+
+  it("reports the position of invalid middleware", () => {
+    const valid = (req: any, res: any, next: any) => next();
+
+    // @ts-expect-error
+    expect(() => use(valid, [valid, NaN])).toThrowError(
+      "Invalid middleware (argument 2, index 1): "
+    );
+    // @ts-expect-error
+    expect(() => use({ onError: true }, valid, undefined)).toThrowError(
+      "Invalid middleware (argument 2): "
+    );
+  });
+
+  it("accepts middleware with any arity when allowAnyArity is enabled", async () => {
+    const handler = jest.fn();
+
+    await use({ allowAnyArity: true }, (...args: Parameters<Middleware>) =>
+      args[2]()
+    )(handler)({} as NextApiRequest, {} as NextApiResponse);
+
+    expect(handler).toBeCalled();
+  });
+
+  it("passes locals added by middleware to the handler", async () => {
+    const handler = jest.fn();
+
+    await use(async (req, res, next) => {
+      req.locals.user = { name: "Ada" };
+      await next();
+    })(handler)({} as NextApiRequest, {} as NextApiResponse);
+
+    expect(handler.mock.calls[0][0].locals.user).toEqual({ name: "Ada" });
+  });
+});
+
+describe("typed locals", () => {
+  const loadUser: Middleware<
+    NextApiRequest,
+    NextApiResponse,
+    { user: { name: string } }
+  > = async (req, res, next) => {
+    req.locals.user = { name: "Ada" };
+    await next();
+  };
+
+  const loadTenant: Middleware<
+    NextApiRequest,
+    NextApiResponse,
+    { tenant: string }
+  > = async (req, res, next) => {
+    req.locals.tenant = "acme";
+    await next();
+  };
+
+  it("accumulate in the handler across middleware and groups", async () => {
+    const seen: string[] = [];
+
+    await use(loadUser, [loadTenant])((req, res) => {
+      const name: string = req.locals.user.name;
+      const tenant: string = req.locals.tenant;
+      // @ts-expect-error
+      req.locals.session;
+
+      seen.push(name, tenant);
+    })({} as NextApiRequest, {} as NextApiResponse);
+
+    expect(seen).toEqual(["Ada", "acme"]);
+  });
+
+  it("are optional in the middleware that adds them", () => {
+    const greet: Middleware<
+      NextApiRequest,
+      NextApiResponse,
+      { user: { name: string } }
+    > = async (req, res, next) => {
+      // @ts-expect-error
+      const name: string = req.locals.user.name;
+      res.setHeader("X-Greeting", `Hello, ${name}`);
+      await next();
+    };
+
+    expect(use(greet)).toBeInstanceOf(Function);
+  });
+
+  it("reject handlers that need locals the chain does not add", () => {
+    const handler: ApiHandler<{ user: { name: string }; tenant: string }> = (
+      req,
+      res
+    ) => res.json({ name: req.locals.user.name, tenant: req.locals.tenant });
+
+    use(loadUser, loadTenant)(handler);
+    // @ts-expect-error
+    use(loadUser)(handler);
+  });
+
+  it("accumulate for App Router route handlers", () => {
+    const addRequestId: WebMiddleware<any, { requestId: string }> = async (
+      request,
+      context,
+      next
+    ) => {
+      request.locals.requestId = "abc";
+      return next();
+    };
+
+    use(addRequestId)(async (request) => {
+      const requestId: string = request.locals.requestId;
+      // @ts-expect-error
+      request.locals.user;
+
+      return new Response(requestId);
+    });
+  });
 });
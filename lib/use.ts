@@ -1,14 +1,90 @@
-import { Middleware } from "./types";
+import type { NextApiRequest, NextApiResponse } from "next";
+import {
+  AccumulatedLocals,
+  AnyMiddleware,
+  EdgeMiddlewareOptions,
+  Flatten,
+  Middleware,
+  MiddlewareGroup,
+  MiddlewareOptions,
+  MiddlewareWrapper,
+  RouteHandlerWrapper,
+  WebMiddleware,
+  WebMiddlewareGroup,
+} from "./types";
+import { ChainEntry, removeDuplicates } from "./duplicates";
 import { makeMiddlewareExecutor } from "./executor";
-import { isValidMiddlewareArray } from "./validation";
+import { isEdgeMiddlewareArray } from "./runtime";
+import {
+  isMiddlewareOptions,
+  isValidMiddleware,
+  isValidMiddlewareArray,
+} from "./validation";
 
-export function use(...middleware: (Middleware | Middleware[])[]) {
-  // Flatten middleware groups
-  const middlewareFns = middleware.flat();
+type NodeMiddlewareList = (
+  | Middleware<NextApiRequest, NextApiResponse, any>
+  | MiddlewareGroup
+)[];
 
-  // Check signatures
-  isValidMiddlewareArray(middlewareFns, true);
+type WebMiddlewareList = (WebMiddleware<any, any> | WebMiddlewareGroup)[];
+
+export function use<M extends NodeMiddlewareList>(
+  ...middleware: M
+): MiddlewareWrapper<Flatten<M[number]>, AccumulatedLocals<M>>;
+export function use<M extends WebMiddlewareList>(
+  ...middleware: M
+): MiddlewareWrapper<Flatten<M[number]>, AccumulatedLocals<M>>;
+export function use<M extends WebMiddlewareList>(
+  options: EdgeMiddlewareOptions,
+  ...middleware: M
+): RouteHandlerWrapper<AccumulatedLocals<M>>;
+export function use<M extends NodeMiddlewareList>(
+  options: MiddlewareOptions & { runtime?: "nodejs" },
+  ...middleware: M
+): MiddlewareWrapper<Flatten<M[number]>, AccumulatedLocals<M>>;
+export function use<M extends WebMiddlewareList>(
+  options: MiddlewareOptions,
+  ...middleware: M
+): MiddlewareWrapper<Flatten<M[number]>, AccumulatedLocals<M>>;
+export function use(
+  ...args: (MiddlewareOptions | AnyMiddleware | AnyMiddleware[])[]
+) {
+  // Options may be passed before any middleware
+  const [options, middleware] = isMiddlewareOptions(args[0])
+    ? [args[0], args.slice(1)]
+    : [{}, args];
+
+  // Check signatures, reporting where invalid middleware was passed
+  middleware.forEach((item, index) => {
+    const location = `argument ${index + 1}`;
+    const { allowAnyArity } = options;
+
+    if (Array.isArray(item)) {
+      isValidMiddlewareArray(item, true, { location, allowAnyArity });
+    } else {
+      isValidMiddleware(item, true, { location, allowAnyArity });
+    }
+  });
+
+  // Flatten middleware groups, remembering where each function was passed
+  const chain: ChainEntry[] = middleware.flatMap((item, index) =>
+    Array.isArray(item)
+      ? item.map((fn, position) => ({
+          fn,
+          location: `argument ${index + 1}, index ${position}`,
+        }))
+      : [{ fn: item as AnyMiddleware, location: `argument ${index + 1}` }]
+  );
+
+  const middlewareFns = removeDuplicates(chain, options.duplicates).map(
+    (entry) => entry.fn
+  );
+
+  if (options.runtime === "edge") {
+    // Reject middleware that can only run on Node.js
+    isEdgeMiddlewareArray(middlewareFns, true, options);
+  }
 
   // Make executor
-  return makeMiddlewareExecutor(middlewareFns);
+  return makeMiddlewareExecutor(middlewareFns, options);
 }
@@ -1,4 +1,8 @@
-import { isValidMiddleware } from "./validation";
+import {
+  closestMatch,
+  isValidMiddleware,
+  isValidMiddlewareArray,
+} from "./validation";
 
 describe("isValidMiddleware", () => {
   it("returns false for invalid input", () => {
@@ -10,12 +14,18 @@ describe("isValidMiddleware", () => {
     expect(isValidMiddleware(false)).toBe(false);
     expect(isValidMiddleware(true)).toBe(false);
     expect(isValidMiddleware("")).toBe(false);
-    expect(isValidMiddleware((arg1, arg2) => {})).toBe(false);
-    expect(isValidMiddleware((arg1, arg2, arg3, arg4) => {})).toBe(false);
+    expect(isValidMiddleware((arg1: unknown, arg2: unknown) => {})).toBe(false);
+    expect(
+      isValidMiddleware(
+        (arg1: unknown, arg2: unknown, arg3: unknown, arg4: unknown) => {}
+      )
+    ).toBe(false);
   });
 
   it("returns true for valid input", () => {
-    expect(isValidMiddleware((arg1, arg2, arg3) => {})).toBe(true);
+    expect(
+      isValidMiddleware((arg1: unknown, arg2: unknown, arg3: unknown) => {})
+    ).toBe(true);
   });
 
   it("throws errors for invalid input when throwOnError is enabled", () => {
@@ -23,4 +33,96 @@ describe("isValidMiddleware", () => {
       "Invalid middleware"
     );
   });
+
+  it("accepts any arity when allowAnyArity is enabled", () => {
+    const withDefault = (req: any, res: any, next = () => {}) => next();
+    const withRest = (...args: any[]) => args[2]();
+
+    expect(isValidMiddleware(withDefault)).toBe(false);
+    expect(isValidMiddleware(withDefault, true, { allowAnyArity: true })).toBe(
+      true
+    );
+    expect(isValidMiddleware(withRest, true, { allowAnyArity: true })).toBe(
+      true
+    );
+    expect(isValidMiddleware("", false, { allowAnyArity: true })).toBe(false);
+  });
+
+  describe("error messages", () => {
+    function messageFor(input: unknown, location?: string) {
+      try {
+        isValidMiddleware(input, true, { location });
+      } catch (err) {
+        return (err as Error).message;
+      }
+    }
+
+    it("describe the value and where it was found", () => {
+      expect(messageFor(NaN, "argument 2")).toBe(
+        "Invalid middleware (argument 2): expected a function with 3 parameters (req, res, next) but received number NaN"
+      );
+      expect(messageFor("auth")).toBe(
+        'Invalid middleware: expected a function with 3 parameters (req, res, next) but received string "auth"'
+      );
+      expect(messageFor(null)).toMatch(/received null$/);
+      expect(messageFor({})).toMatch(/received an object$/);
+    });
+
+    it("suggest calling middleware factories", () => {
+      function withAuth(options: unknown) {
+        return (req: any, res: any, next: any) => next();
+      }
+
+      expect(messageFor(withAuth)).toBe(
+        'Invalid middleware: expected a function with 3 parameters (req, res, next) but received function "withAuth" with 1 parameter. Did you pass a middleware factory without calling it? Try withAuth() instead. If it uses default or rest parameters, enable the `allowAnyArity` option'
+      );
+      expect(messageFor(() => () => {})).toMatch(
+        "received a function with 0 parameters. Did you pass a middleware factory without calling it? If it uses"
+      );
+    });
+
+    it("suggest fixes for other mistakes", () => {
+      expect(messageFor(undefined)).toMatch(
+        "received undefined. Check that the middleware is exported and imported correctly"
+      );
+      expect(messageFor([])).toMatch(
+        "received a nested array. Middleware groups cannot contain other groups"
+      );
+      expect(messageFor(Promise.resolve())).toMatch(
+        "received a promise. Pass the async function itself rather than calling it"
+      );
+      expect(messageFor((req: any, res: any) => {})).toMatch(
+        "Middleware must accept `next` as its third parameter"
+      );
+      expect(messageFor((a: any, b: any, c: any, d: any) => {})).toMatch(
+        "Middleware only receives three arguments"
+      );
+    });
+  });
+});
+
+describe("isValidMiddlewareArray", () => {
+  it("reports the index of invalid middleware", () => {
+    const valid = (req: any, res: any, next: any) => next();
+
+    expect(() =>
+      isValidMiddlewareArray([valid, valid, NaN], true, {
+        location: 'label "auth"',
+      })
+    ).toThrowError('Invalid middleware (label "auth", index 2):');
+    expect(() => isValidMiddlewareArray([NaN], true)).toThrowError(
+      "Invalid middleware (index 0):"
+    );
+  });
+});
+
+describe("closestMatch", () => {
+  it("finds similar names", () => {
+    const labels = ["auth", "cors", "logging", "rateLimit"];
+
+    expect(closestMatch("atuh", labels)).toBe("auth");
+    expect(closestMatch("Logging", labels)).toBe("logging");
+    expect(closestMatch("ratelimits", labels)).toBe("rateLimit");
+    expect(closestMatch("database", labels)).toBeUndefined();
+  });
 });
@@ -1,19 +1,171 @@
-import { Middleware } from "./types";
+import { AnyMiddleware, MiddlewareOptions } from "./types";
+
+export type MiddlewareValidationOptions = {
+  /**
+   * Where the middleware was found, e.g. `label "auth"` or `argument 2`,
+   * included in error messages
+   */
+  location?: string;
+
+  /**
+   * Accept functions that do not declare exactly three parameters
+   */
+  allowAnyArity?: boolean;
+};
 
 export function isValidMiddleware(
   input: unknown,
-  throwOnFailure = false
-): input is Middleware {
-  const valid = typeof input === "function" && input.length === 3;
+  throwOnFailure = false,
+  options: MiddlewareValidationOptions = {}
+): input is AnyMiddleware {
+  const valid =
+    typeof input === "function" &&
+    (input.length === 3 || Boolean(options.allowAnyArity));
   if (!valid && throwOnFailure) {
-    throw new Error("Invalid middleware");
+    throw new Error(describeInvalidMiddleware(input, options.location));
   }
   return valid;
 }
 
 export function isValidMiddlewareArray(
   input: unknown[],
-  throwOnFailure = false
-): input is Middleware[] {
-  return input.every((item) => isValidMiddleware(item, throwOnFailure));
+  throwOnFailure = false,
+  options: MiddlewareValidationOptions = {}
+): input is AnyMiddleware[] {
+  return input.every((item, index) =>
+    isValidMiddleware(item, throwOnFailure, {
+      ...options,
+      location: options.location
+        ? `${options.location}, index ${index}`
+        : `index ${index}`,
+    })
+  );
+}
+
+export function isMiddlewareOptions(
+  input: unknown
+): input is MiddlewareOptions {
+  return typeof input === "object" && input !== null && !Array.isArray(input);
+}
+
+/**
+ * Find the candidate closest to a misspelled name, if any is close enough
+ */
+export function closestMatch(
+  name: string,
+  candidates: string[]
+): string | undefined {
+  let closest: string | undefined;
+  let closestDistance = Math.max(2, Math.floor(name.length / 3)) + 1;
+
+  for (const candidate of candidates) {
+    const distance = editDistance(name.toLowerCase(), candidate.toLowerCase());
+    if (distance < closestDistance) {
+      closest = candidate;
+      closestDistance = distance;
+    }
+  }
+
+  return closest;
+}
+
+/**
+ * Explain why a value is not middleware, and how it might be fixed
+ */
+function describeInvalidMiddleware(input: unknown, location?: string): string {
+  const prefix = location
+    ? `Invalid middleware (${location})`
+    : "Invalid middleware";
+  const problem = `${prefix}: expected a function with 3 parameters (req, res, next) but received ${describeValue(
+    input
+  )}`;
+  const suggestion = suggestFix(input);
+
+  return suggestion ? `${problem}. ${suggestion}` : problem;
+}
+
+function describeValue(input: unknown): string {
+  if (input === null || input === undefined) {
+    return String(input);
+  }
+
+  if (Array.isArray(input)) {
+    return "a nested array";
+  }
+
+  if (typeof input === "function") {
+    const parameters = `${input.length} parameter${
+      input.length === 1 ? "" : "s"
+    }`;
+    return input.name
+      ? `function "${input.name}" with ${parameters}`
+      : `a function with ${parameters}`;
+  }
+
+  if (typeof input === "object") {
+    return typeof (input as { then?: unknown }).then === "function"
+      ? "a promise"
+      : "an object";
+  }
+
+  return typeof input === "string"
+    ? `string ${JSON.stringify(input)}`
+    : `${typeof input} ${String(input)}`;
+}
+
+function suggestFix(input: unknown): string | undefined {
+  if (input === undefined) {
+    return "Check that the middleware is exported and imported correctly";
+  }
+
+  if (Array.isArray(input)) {
+    return "Middleware groups cannot contain other groups; spread the inner array instead";
+  }
+
+  if (typeof input === "object" && input !== null) {
+    return typeof (input as { then?: unknown }).then === "function"
+      ? "Pass the async function itself rather than calling it"
+      : undefined;
+  }
+
+  if (typeof input !== "function") {
+    return undefined;
+  }
+
+  const allowAnyArity =
+    "If it uses default or rest parameters, enable the `allowAnyArity` option";
+
+  if (input.length <= 1) {
+    const factory = input.name ? ` Try ${input.name}() instead.` : "";
+    return `Did you pass a middleware factory without calling it?${factory} ${allowAnyArity}`;
+  }
+
+  if (input.length === 2) {
+    return `Middleware must accept \`next\` as its third parameter. ${allowAnyArity}`;
+  }
+
+  return `Middleware only receives three arguments. ${allowAnyArity}`;
+}
+
+/**
+ * The Levenshtein distance between two strings
+ */
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+
+    previous = current;
+  }
+
+  return previous[b.length];
 }
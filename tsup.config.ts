@@ -1,7 +1,7 @@
 import { defineConfig, Options } from "tsup";
 
 const shared: Options = {
-  entry: ["lib/index.ts"],
+  entry: ["lib/index.ts", "lib/node.ts", "lib/testing.ts"],
   clean: true,
 };
 
@@ -15,6 +15,9 @@ export default defineConfig([
   {
     ...shared,
     format: "cjs",
-    target: "node14",
+    target: "node16",
+    // Share modules between entry points, so that there is a single
+    // store for `getRequestId` (the default for ESM)
+    splitting: true,
   },
 ]);